@@ -1,32 +1,290 @@
-import { Controller, Post, Body, Get, Param } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Query,
+  Res,
+  Sse,
+  MessageEvent,
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { Observable, from, map, switchMap } from 'rxjs';
 import { AgentService } from './agent.service';
+import { DeploymentTeardown } from './deployment.teardown';
+import { AgentStreamEvent } from './types';
+import { CurrentUser, RequireRole } from '../auth/auth.decorators';
+import { assertSelfOrAdmin } from '../auth/auth.guard';
+import { Principal } from '../auth/types';
+import { PreferencesStore } from '../preferences/preferences.store';
+import { assertDisplayPreferences } from '../conversations/timestamps';
+import { DEFAULT_THREAD_ID } from '../conversations/conversation.store';
+import {
+  TeardownLookup,
+  TeardownPreview,
+  TeardownRejection,
+} from '../deployments/types';
 
+// The user is whoever the request authenticated as, never a body field
 interface ChatRequestBody {
   message: string;
-  userId: string;
   csp?: string;
+  // The thread to continue; the default thread when absent
+  threadId?: string;
+  // The template is rendered server-side from the form data
   fields?: {
     formData: Record<string, string>;
-    template: string;
   };
 }
 
+interface ThreadRequestBody {
+  title?: string;
+  csp?: string;
+  archived?: boolean;
+}
+
+interface DestroyRequestBody {
+  // The resource name, typed back exactly as the teardown preview shows it
+  confirm?: string;
+}
+
+const TEARDOWN_ERRORS: Record<
+  TeardownRejection,
+  new (message: string) => HttpException
+> = {
+  not_found: NotFoundException,
+  not_destroyable: ConflictException,
+  protected: ForbiddenException,
+  protection_unknown: ServiceUnavailableException,
+  confirmation_mismatch: BadRequestException,
+  failed: BadGatewayException,
+};
+
+const teardownOrThrow = (lookup: TeardownLookup): TeardownPreview => {
+  if (!lookup.ok) throw new TEARDOWN_ERRORS[lookup.reason](lookup.message);
+  return lookup.teardown;
+};
+
+const toMessageEvent = (event: AgentStreamEvent): MessageEvent => ({
+  type: event.type,
+  data: event.data,
+});
+
 @Controller('agent')
 export class AgentController {
-  constructor(private readonly agentService: AgentService) {}
+  constructor(
+    private readonly agentService: AgentService,
+    private readonly teardown: DeploymentTeardown,
+    private readonly preferences: PreferencesStore,
+  ) {}
 
   @Post('chat')
-  async chat(@Body() body: ChatRequestBody) {
-    return this.agentService.processMessage(body.message, body.userId, body.csp, body.fields);
+  async chat(@CurrentUser() user: Principal, @Body() body: ChatRequestBody) {
+    const threadId = await this.writableThread(user, body.threadId);
+    return this.agentService.processMessage(
+      body.message,
+      user,
+      body.csp,
+      body.fields,
+      undefined,
+      threadId,
+    );
+  }
+
+  @Sse('chat/stream')
+  chatStream(
+    @CurrentUser() user: Principal,
+    @Query('message') message: string,
+    @Query('csp') csp?: string,
+    @Query('threadId') threadId?: string,
+  ): Observable<MessageEvent> {
+    // An unknown or archived thread arrives as the stream's error event
+    return from(this.writableThread(user, threadId)).pipe(
+      switchMap((thread) =>
+        this.agentService.streamMessage(message, user, csp, undefined, thread),
+      ),
+      map(toMessageEvent),
+    );
+  }
+
+  // EventSource only supports GET, so POST clients read the SSE stream from the response body
+  @Post('chat/stream')
+  async chatStreamPost(
+    @CurrentUser() user: Principal,
+    @Body() body: ChatRequestBody,
+    @Res() res: Response,
+  ) {
+    const threadId = await this.writableThread(user, body.threadId);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const subscription = this.agentService
+      .streamMessage(body.message, user, body.csp, body.fields, threadId)
+      .subscribe({
+        next: (event) =>
+          res.write(
+            `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`,
+          ),
+        // Headers are already sent, so an error can only end the stream
+        error: (error: Error) => {
+          res.write(
+            `event: error\ndata: ${JSON.stringify({ message: error.message })}\n\n`,
+          );
+          res.end();
+        },
+        complete: () => res.end(),
+      });
+    res.on('close', () => subscription.unsubscribe());
+  }
+
+  @Post('threads')
+  createThread(
+    @CurrentUser() user: Principal,
+    @Body() body: ThreadRequestBody = {},
+  ) {
+    return this.agentService.createThread(user.userId, body);
+  }
+
+  // The caller's threads; archived ones only with ?archived=true
+  @Get('threads')
+  listThreads(
+    @CurrentUser() user: Principal,
+    @Query('archived') archived?: string,
+  ) {
+    return this.agentService.listThreads(user.userId, archived === 'true');
+  }
+
+  @Get('threads/:threadId')
+  async getThread(
+    @CurrentUser() user: Principal,
+    @Param('threadId') threadId: string,
+  ) {
+    const conversation = await this.agentService.getConversationByUserId(
+      user.userId,
+      this.preferences.get(user.userId),
+      threadId,
+    );
+    if (!conversation) {
+      throw new NotFoundException(`Thread ${threadId} not found`);
+    }
+    return { threadId, ...conversation };
+  }
+
+  @Patch('threads/:threadId')
+  async updateThread(
+    @CurrentUser() user: Principal,
+    @Param('threadId') threadId: string,
+    @Body() body: ThreadRequestBody = {},
+  ) {
+    if (body.archived !== undefined && typeof body.archived !== 'boolean') {
+      throw new BadRequestException('archived must be true or false');
+    }
+    const thread = await this.agentService.updateThread(user.userId, threadId, {
+      title: body.title,
+      archived: body.archived,
+    });
+    if (!thread) throw new NotFoundException(`Thread ${threadId} not found`);
+    return thread;
+  }
+
+  @Delete('threads/:threadId')
+  async deleteThread(
+    @CurrentUser() user: Principal,
+    @Param('threadId') threadId: string,
+  ) {
+    if (!(await this.agentService.deleteThread(user.userId, threadId))) {
+      throw new NotFoundException(`Thread ${threadId} not found`);
+    }
+    return { threadId, deleted: true };
+  }
+
+  // What DELETE would remove, and the name to type back to confirm it
+  @Get('deployments/:id/teardown')
+  async previewTeardown(
+    @CurrentUser() user: Principal,
+    @Param('id') id: string,
+  ): Promise<TeardownPreview> {
+    return teardownOrThrow(await this.teardown.preview(id, user.userId));
+  }
+
+  @Delete('deployments/:id')
+  @RequireRole('deployer')
+  async destroyDeployment(
+    @CurrentUser() user: Principal,
+    @Param('id') id: string,
+    @Body() body: DestroyRequestBody,
+  ): Promise<TeardownPreview> {
+    return teardownOrThrow(
+      await this.teardown.destroy(id, user, body?.confirm || ''),
+    );
   }
 
   @Get('conversations')
+  @RequireRole('admin')
   getAllUserIds() {
     return this.agentService.getAllUserIds();
   }
 
+  // Times are shown in the reader's time zone and locale unless the query overrides them
   @Get('conversations/:userId')
-  getConversationByUserId(@Param('userId') userId: string) {
-    return this.agentService.getConversationByUserId(userId);
+  getConversationByUserId(
+    @CurrentUser() user: Principal,
+    @Param('userId') userId: string,
+    @Query('timeZone') timeZone?: string,
+    @Query('locale') locale?: string,
+    @Query('threadId') threadId?: string,
+  ) {
+    assertSelfOrAdmin(user, userId);
+    const saved = this.preferences.get(user.userId);
+    const display = {
+      timeZone: timeZone || saved.timeZone,
+      locale: locale || saved.locale,
+    };
+    try {
+      assertDisplayPreferences(display);
+    } catch {
+      throw new BadRequestException(
+        `Unknown time zone "${display.timeZone}" or locale "${display.locale}"`,
+      );
+    }
+    return this.agentService.getConversationByUserId(
+      userId,
+      display,
+      threadId || DEFAULT_THREAD_ID,
+    );
   }
-} 
\ No newline at end of file
+
+  // The thread a chat turn goes to. The default thread is started on first
+  // use; any other has to be created first. Archived threads are read-only.
+  private async writableThread(
+    user: Principal,
+    threadId?: string,
+  ): Promise<string> {
+    const id = threadId || DEFAULT_THREAD_ID;
+    const thread = await this.agentService.getThread(user.userId, id);
+    if (!thread) {
+      if (id === DEFAULT_THREAD_ID) return id;
+      throw new NotFoundException(`Thread ${id} not found`);
+    }
+    if (thread.archived) {
+      throw new ConflictException(
+        `Thread ${id} is archived; unarchive it to continue`,
+      );
+    }
+    return id;
+  }
+}
@@ -1,10 +1,49 @@
 import { Module } from '@nestjs/common';
 import { AgentController } from './agent.controller';
+import { ApprovalsController } from './approvals.controller';
 import { AgentService } from './agent.service';
+import { CHAT_MODEL_PROVIDER } from './llm/chat-model.provider';
+import { createChatModelProvider } from './llm/chat-model.factory';
+import { ConversationsModule } from '../conversations/conversations.module';
+import { DeploymentsModule } from '../deployments/deployments.module';
+import { DeployTool } from './deploy.tool';
+import { DeploymentTeardown } from './deployment.teardown';
+import { TemplatesModule } from '../templates/templates.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { CatalogModule } from '../catalog/catalog.module';
+import { TranslationModule } from '../translation/translation.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { ApprovalsModule } from '../approvals/approvals.module';
+import { UsageModule } from '../usage/usage.module';
+import { PreferencesModule } from '../preferences/preferences.module';
+import { UsageTracker } from '../usage/usage.tracker';
+import { MeteredChatModelProvider } from './llm/metered.provider';
 
 @Module({
-  controllers: [AgentController],
-  providers: [AgentService],
-  exports: [AgentService]
+  imports: [
+    CatalogModule,
+    ConversationsModule,
+    DeploymentsModule,
+    TemplatesModule,
+    PricingModule,
+    TranslationModule,
+    InventoryModule,
+    ApprovalsModule,
+    UsageModule,
+    PreferencesModule,
+  ],
+  controllers: [AgentController, ApprovalsController],
+  providers: [
+    AgentService,
+    DeployTool,
+    DeploymentTeardown,
+    {
+      provide: CHAT_MODEL_PROVIDER,
+      useFactory: (usage: UsageTracker) =>
+        new MeteredChatModelProvider(createChatModelProvider(), usage),
+      inject: [UsageTracker],
+    },
+  ],
+  exports: [AgentService],
 })
-export class AgentModule {} 
\ No newline at end of file
+export class AgentModule {}
@@ -0,0 +1,940 @@
+import { AgentService } from './agent.service';
+import { ScriptedChatModelProvider } from './llm/scripted.provider';
+import { DEFAULT_SCRIPTED_RULES } from './llm/scripted.rules';
+import { DeployTool } from './deploy.tool';
+import { DeploymentTeardown } from './deployment.teardown';
+import { AgentEventEmitter, AgentReply } from './types';
+import { CloudState, CloudStateUpdate } from './agent.state';
+import { InMemoryConversationStore } from '../conversations/in-memory-conversation.store';
+import { DeploymentRegistry } from '../deployments/deployment.registry';
+import { DeploymentPlanStore } from '../deployments/deployment-plan.store';
+import { DeploymentPlan } from '../deployments/types';
+import { TemplateEngine } from '../templates/template.engine';
+import { CostEstimator } from '../pricing/cost.estimator';
+import { ServiceCatalog } from '../catalog/service.catalog';
+import { CloudTranslator } from '../translation/cloud.translator';
+import { ResourceInventory } from '../inventory/resource.inventory';
+import { FixtureInventoryProvider } from '../inventory/fixture.provider';
+import { DeploymentApprovals } from '../approvals/deployment.approvals';
+import { ApprovalPolicy } from '../approvals/approval.policy';
+import { ApprovalStore } from '../approvals/approval.store';
+import { LogApprovalNotifier } from '../approvals/approval.notifier';
+import { AuditLog } from '../audit/audit.log';
+import { UsageTracker } from '../usage/usage.tracker';
+import { DEFAULT_USAGE_LIMITS } from '../usage/usage.limits';
+import { UsageLimits } from '../usage/types';
+
+describe('AgentService', () => {
+  const catalog = new ServiceCatalog();
+  const services = catalog.getAll();
+  const fixtures = FixtureInventoryProvider.load();
+  const inventory = new ResourceInventory(
+    ['aws', 'gcp'].map(
+      (cloud) => new FixtureInventoryProvider(cloud, fixtures),
+    ),
+  );
+  const vmFormData = {
+    instanceName: 'web-01',
+    amiId: 'ami-0c55b159cbfafe1f0',
+    instanceType: 't3.micro',
+    keyName: 'ops',
+  };
+  let service: AgentService;
+  let store: InMemoryConversationStore;
+  let registry: DeploymentRegistry;
+  let deployTool: DeployTool;
+  let approvals: DeploymentApprovals;
+  let audit: AuditLog;
+  let limits: UsageLimits;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    store = new InMemoryConversationStore();
+    registry = new DeploymentRegistry();
+    deployTool = new DeployTool(registry);
+    audit = new AuditLog();
+    limits = { ...DEFAULT_USAGE_LIMITS };
+    approvals = new DeploymentApprovals(
+      ApprovalPolicy.load(),
+      new ApprovalStore(),
+      new LogApprovalNotifier(),
+    );
+    service = new AgentService(
+      new ScriptedChatModelProvider(),
+      store,
+      deployTool,
+      registry,
+      new DeploymentPlanStore(),
+      new TemplateEngine(),
+      new CostEstimator(),
+      catalog,
+      new CloudTranslator(catalog),
+      inventory,
+      new DeploymentTeardown(
+        registry,
+        deployTool,
+        catalog,
+        new TemplateEngine(),
+        inventory,
+        audit,
+      ),
+      approvals,
+      audit,
+      new UsageTracker(limits),
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // The plan a reply proposes; the test stops here when it has none
+  const planOf = (reply: AgentReply): DeploymentPlan => {
+    const { plan } = reply.response;
+    expect(plan).toBeDefined();
+    if (!plan) throw new Error(`The ${reply.workflow} reply has no plan`);
+    return plan;
+  };
+
+  // The deployment a reply started or changed
+  const deploymentIdOf = (reply: AgentReply): string => {
+    const { deploymentId } = reply.response;
+    expect(deploymentId).toBeDefined();
+    if (!deploymentId) {
+      throw new Error(`The ${reply.workflow} reply has no deployment`);
+    }
+    return deploymentId;
+  };
+
+  it('runs the deploy workflow end to end with the scripted provider', async () => {
+    const response = await service.processMessage(
+      'Deploy a virtual machine on azure',
+      'user-1',
+    );
+
+    expect(response.workflow).toBe('serviceConfiguration');
+    const found = response.response.service;
+    expect(found).toMatchObject({ cloud: 'azure' });
+    const fields =
+      typeof found === 'object' ? found?.requiredFields : undefined;
+    expect(fields?.length).toBeGreaterThan(0);
+    expect(fields?.every((field) => field.exampleValue)).toBe(true);
+  });
+
+  it('persists both sides of each turn', async () => {
+    await service.processMessage('I prefer to go with GCP', 'user-1');
+
+    const conversation = await store.get('user-1');
+    expect(conversation?.csp).toBe('gcp');
+    expect(conversation?.history.map((m) => m.role)).toEqual([
+      'human',
+      'assistant',
+    ]);
+    expect(conversation?.history[0].timestamp).toMatch(
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/,
+    );
+    expect(await service.getAllUserIds()).toEqual(['user-1']);
+
+    const shown = await service.getConversationByUserId('user-1', {
+      timeZone: 'Asia/Tokyo',
+      locale: 'ja-JP',
+    });
+    const [first] = shown?.history || [];
+    expect(first?.timestamp).toBe(conversation?.history[0].timestamp);
+    const localTime =
+      first && 'localTime' in first ? first.localTime : undefined;
+    expect(localTime).toMatch(/^\d{4}\/\d{2}\/\d{2} \d{1,2}:\d{2}:\d{2}$/);
+  });
+
+  it('plans form submissions and deploys them once confirmed', async () => {
+    const planned = await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-1',
+      'aws',
+      { formData: vmFormData },
+    );
+
+    expect(planned.workflow).toBe('deployment_plan');
+    expect(planOf(planned).estimatedCost).toMatchObject({
+      region: 'us-east-1',
+      monthly: 7.59,
+    });
+    expect(registry.list()).toEqual([]);
+
+    const { token } = planOf(planned);
+    const response = await service.processMessage(`confirm ${token}`, 'user-1');
+    expect(response.workflow).toBe('deployment');
+
+    const deployment = registry.get(deploymentIdOf(response));
+    expect(deployment).toMatchObject({
+      userId: 'user-1',
+      csp: 'aws',
+      formData: vmFormData,
+      status: 'succeeded',
+    });
+
+    const status = await service.processMessage(
+      "what's the status of my last deployment?",
+      'user-1',
+    );
+    expect(status.workflow).toBe('deployment_status');
+    expect(status.response.deployment?.id).toBe(deployment?.id);
+
+    const replayed = await service.processMessage(`confirm ${token}`, 'user-1');
+    expect(replayed.response.reason).toBe('confirmed');
+    expect(registry.list()).toHaveLength(1);
+  });
+
+  it('refuses form submissions for services the catalog does not offer', async () => {
+    const response = await service.processMessage(
+      'deploy a kubernetes cluster on aws',
+      'user-1',
+      'aws',
+      { formData: { anything: 'goes"' } },
+    );
+
+    expect(response.workflow).toBe('service_not_found');
+    expect(response.response.plan).toBeUndefined();
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('only lets deployers deploy', async () => {
+    const viewer = {
+      userId: 'user-1',
+      roles: ['viewer' as const],
+      provider: 'jwt',
+    };
+    const planned = await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-1',
+      'aws',
+      { formData: vmFormData },
+    );
+    const { token } = planOf(planned);
+
+    const refused = await service.processMessage(`confirm ${token}`, viewer);
+    expect(refused.workflow).toBe('forbidden');
+    const chat = await service.processMessage(
+      'Deploy a virtual machine on azure',
+      viewer,
+    );
+    expect(chat.workflow).toBe('forbidden');
+    expect(registry.list()).toEqual([]);
+
+    // The refusal left the plan pending for someone allowed to confirm it
+    const confirmed = await service.processMessage(
+      `confirm ${token}`,
+      'user-1',
+    );
+    expect(confirmed.workflow).toBe('deployment');
+  });
+
+  it('holds production deployments until another admin approves them', async () => {
+    const admin = (userId: string) => ({
+      userId,
+      roles: ['admin' as const],
+      provider: 'jwt',
+    });
+    // Collected through chat, like any other deployment
+    await service.processMessage(
+      'deploy a t3.micro VM called web-prod-01 on aws with key ops',
+      'user-1',
+    );
+    const planned = await service.processMessage(
+      "let's use ami-0c55b159cbfafe1f0",
+      'user-1',
+    );
+    const held = await service.processMessage(
+      `confirm ${planOf(planned).token}`,
+      'user-1',
+    );
+
+    expect(held.workflow).toBe('pending_approval');
+    expect(held.response.rules).toEqual(['production']);
+    expect(registry.list()).toEqual([]);
+    const { approvalId } = held.response;
+    expect(approvalId).toBeDefined();
+    if (!approvalId) return;
+
+    const listed = await service.processMessage(
+      'show pending approvals',
+      admin('ops-1'),
+    );
+    expect(listed.response.approvals).toEqual([
+      expect.objectContaining({ id: approvalId, requestedBy: 'user-1' }),
+    ]);
+    const notAllowed = await service.processMessage(
+      `approve ${approvalId}`,
+      'user-2',
+    );
+    expect(notAllowed.workflow).toBe('forbidden');
+    const own = await service.decideApproval(approvalId, admin('user-1'), true);
+    expect(own).toMatchObject({ ok: false, reason: 'own_request' });
+
+    const decided = await service.processMessage(
+      `approve ${approvalId}`,
+      admin('ops-1'),
+    );
+    expect(decided.workflow).toBe('approval_decided');
+    const [deployment] = registry.list();
+    expect(deployment).toMatchObject({
+      userId: 'user-1',
+      serviceName: 'Virtual Machine',
+    });
+    expect(approvals.get(approvalId)).toMatchObject({
+      status: 'approved',
+      decidedBy: 'ops-1',
+      deploymentId: deployment.id,
+    });
+    // Deployed as the requester; the approver is on the decision
+    expect(audit.query({ type: 'approval.decided' })[0].actor.userId).toBe(
+      'ops-1',
+    );
+    expect(audit.query({ type: 'deployment.submitted' })[0]).toMatchObject({
+      actor: { userId: 'user-1' },
+      approvalId,
+    });
+
+    // The requester hears about it in their own conversation
+    const conversation = await store.get('user-1');
+    expect(conversation?.history.at(-1)?.content).toMatchObject({
+      workflow: 'approval_decision',
+      response: {
+        approvalId,
+        decision: 'approved',
+        deploymentId: deployment.id,
+      },
+    });
+    const again = await service.processMessage(
+      `reject ${approvalId}`,
+      admin('ops-2'),
+    );
+    expect(again.workflow).toBe('approval_refused');
+  });
+
+  it('records who deployed what in the audit log', async () => {
+    const planned = await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-1',
+      'aws',
+      { formData: { ...vmFormData, adminPassword: 'hunter2' } },
+    );
+    await service.processMessage(`confirm ${planOf(planned).token}`, 'user-1');
+
+    const [submitted] = audit.query({ type: 'deployment.submitted' });
+    expect(submitted).toMatchObject({
+      actor: { userId: 'user-1', roles: ['deployer'] },
+      service: 'Virtual Machine',
+      deploymentId: registry.list()[0].id,
+      outcome: 'submitted',
+      formData: { instanceName: 'web-01', adminPassword: '[REDACTED]' },
+    });
+    expect(submitted.templateHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      audit.query({ type: 'agent.action' }).map((entry) => entry.action),
+    ).toEqual(['CONFIRM_PLAN', 'SUBMIT_FORM']);
+    expect(audit.verify().valid).toBe(true);
+  });
+
+  it('refuses turns over the rate limit or the deployment quota', async () => {
+    Object.assign(limits, { requestsPerMinute: 3, dailyDeployments: 1 });
+    const submit = () =>
+      service.processMessage(
+        'deploy a virtual machine on aws',
+        'user-1',
+        'aws',
+        {
+          formData: vmFormData,
+        },
+      );
+
+    const first = await submit();
+    await service.processMessage(`confirm ${planOf(first).token}`, 'user-1');
+    const second = await submit();
+    const limited = await service.processMessage(
+      `confirm ${planOf(second).token}`,
+      'user-1',
+    );
+    expect(limited).toMatchObject({
+      workflow: 'rate_limited',
+      response: { scope: 'user', limit: 3 },
+    });
+    expect(limited.response.retryAfterSeconds).toBeGreaterThan(0);
+
+    limits.requestsPerMinute = 0;
+    const refused = await service.processMessage(
+      `confirm ${planOf(second).token}`,
+      'user-1',
+    );
+    expect(refused).toMatchObject({
+      workflow: 'quota_exceeded',
+      response: { scope: 'user', limit: 1 },
+    });
+    expect(registry.list()).toHaveLength(1);
+    const history = (await store.get('user-1'))?.history || [];
+    expect(JSON.stringify(history)).not.toContain('rate_limited');
+  });
+
+  it('summarises the resources a plan will create', async () => {
+    const planned = await service.processMessage(
+      'deploy a database on azure',
+      'user-1',
+      'azure',
+      {
+        formData: {
+          serverName: 'orders-sql',
+          databaseName: 'orders',
+          resourceGroup: 'rg-eu-orders',
+          location: 'westeurope',
+        },
+      },
+    );
+
+    expect(planned.response.plan).toMatchObject({
+      serviceName: 'Database',
+      resources: [
+        { type: 'Microsoft.Sql/servers', name: 'orders-sql' },
+        { type: 'Microsoft.Sql/servers/databases', name: 'orders-sql/orders' },
+      ],
+      validation: { valid: true, errors: [] },
+    });
+    expect(JSON.parse(planOf(planned).template)).toMatchObject({
+      resources: [{ name: 'orders-sql' }, { name: 'orders-sql/orders' }],
+    });
+  });
+
+  it('deploys the server-rendered template, never one sent with the form', async () => {
+    const planned = await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-1',
+      'aws',
+      {
+        formData: vmFormData,
+        template: JSON.stringify({ Resources: { Backdoor: {} } }),
+      },
+    );
+    const plan = planOf(planned);
+    const vm = services.find((s) => s.id === 'virtual-machine-aws');
+    expect(vm).toBeDefined();
+    if (!vm) return;
+    const rendered = new TemplateEngine().render(vm, vmFormData);
+    expect(plan.template).toBe(rendered.content);
+
+    await service.processMessage(`confirm ${plan.token}`, 'user-1');
+    const [deployment] = registry.list();
+    expect(deployment.template).toBe(rendered.content);
+    expect(deployment.template).not.toContain('Backdoor');
+  });
+
+  it('makes no plan when the template fails to render', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(TemplateEngine.prototype, 'render').mockImplementation(() => {
+      throw new Error('Unknown template filter "shout"');
+    });
+
+    const failed = await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-1',
+      'aws',
+      { formData: vmFormData },
+    );
+    expect(failed.workflow).toBe('plan_failed');
+    expect(failed.response.plan).toBeUndefined();
+    expect(audit.query({ type: 'deployment.planned' })).toEqual([]);
+  });
+
+  it('rejects plan tokens that are stale or belong to someone else', async () => {
+    const submit = () =>
+      service.processMessage(
+        'deploy a virtual machine on aws',
+        'user-1',
+        'aws',
+        {
+          formData: vmFormData,
+        },
+      );
+    const first = planOf(await submit()).token;
+    const second = planOf(await submit()).token;
+
+    const stolen = await service.processMessage(`confirm ${second}`, 'user-2');
+    expect(stolen.workflow).toBe('deployment_plan_rejected');
+    expect(stolen.response.reason).toBe('not_found');
+
+    const stale = await service.processMessage(`confirm ${first}`, 'user-1');
+    expect(stale.response.reason).toBe('superseded');
+
+    const cancelled = await service.processMessage(
+      `cancel ${second}`,
+      'user-1',
+    );
+    expect(cancelled.workflow).toBe('deployment_plan_cancelled');
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('collects deployment fields from free text, one question at a time', async () => {
+    const first = await service.processMessage(
+      'deploy a t3.medium VM called web-01 on aws with key prod-key',
+      'user-1',
+    );
+
+    expect(first.workflow).toBe('serviceConfiguration');
+    expect(first.response.collected).toEqual({
+      instanceName: 'web-01',
+      instanceType: 't3.medium',
+      keyName: 'prod-key',
+    });
+    expect(first.response.nextField).toBe('amiId');
+    expect(first.response.message).toContain('What should the AMI ID be?');
+
+    const second = await service.processMessage(
+      "let's use ami-0c55b159cbfafe1f0",
+      'user-1',
+    );
+    expect(second.workflow).toBe('deployment_plan');
+    expect(planOf(second).formData).toEqual({
+      instanceName: 'web-01',
+      instanceType: 't3.medium',
+      keyName: 'prod-key',
+      amiId: 'ami-0c55b159cbfafe1f0',
+    });
+    expect((await store.get('user-1'))?.draft).toBeNull();
+  });
+
+  it('keeps the cloud and draft of each thread to itself', async () => {
+    const thread = await service.createThread('user-1');
+    const first = await service.processMessage(
+      'deploy a t3.medium VM called web-01 on aws with key ops-key',
+      'user-1',
+      undefined,
+      undefined,
+      undefined,
+      thread.threadId,
+    );
+    expect(first.response.nextField).toBe('amiId');
+
+    // A turn in another thread neither sees nor clears the draft
+    await service.processMessage('I prefer to go with GCP', 'user-1');
+    const second = await service.processMessage(
+      "let's use ami-0c55b159cbfafe1f0",
+      'user-1',
+      undefined,
+      undefined,
+      undefined,
+      thread.threadId,
+    );
+    expect(second.workflow).toBe('deployment_plan');
+    expect((await store.get('user-1'))?.csp).toBe('gcp');
+    expect((await store.get('user-1', thread.threadId))?.csp).toBe('aws');
+
+    // A plan made in another thread leaves this one's plan open
+    await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-1',
+      'aws',
+      { formData: vmFormData },
+    );
+    const confirmed = await service.processMessage(
+      `confirm ${planOf(second).token}`,
+      'user-1',
+      undefined,
+      undefined,
+      undefined,
+      thread.threadId,
+    );
+    expect(confirmed.workflow).toBe('deployment');
+
+    const threads = await service.listThreads('user-1');
+    expect(threads.map((t) => [t.threadId, t.title])).toEqual([
+      [
+        thread.threadId,
+        'Deploy a t3.medium VM called web-01 on aws with key ops-key',
+      ],
+      ['default', 'I prefer to go with GCP'],
+    ]);
+    await service.updateThread('user-1', thread.threadId, {
+      title: 'web-01',
+      archived: true,
+    });
+    expect(await service.listThreads('user-1')).toHaveLength(1);
+    expect(await service.listThreads('user-1', true)).toContainEqual(
+      expect.objectContaining({ title: 'web-01', archived: true }),
+    );
+  });
+
+  it('re-asks for values that fail validation', async () => {
+    await service.processMessage('deploy a database on aws', 'user-1');
+    const response = await service.processMessage('orders-db', 'user-1');
+    expect(response.response.nextField).toBe('dbEngine');
+
+    const retry = await service.processMessage('oracle-free', 'user-1');
+    expect(retry.workflow).toBe('collecting_fields');
+    expect(retry.response.nextField).toBe('dbEngine');
+    expect(retry.response.message).toContain('Which DB Engine');
+    expect((await store.get('user-1'))?.draft).toMatchObject({
+      formData: { dbInstanceIdentifier: 'orders-db' },
+      pendingFieldId: 'dbEngine',
+    });
+  });
+
+  it('can fill in every catalog service through chat alone', async () => {
+    const answers: Record<string, string> = {
+      instanceName: 'web-01',
+      amiId: 'ami-0c55b159cbfafe1f0',
+      instanceType: 't3.micro',
+      keyName: 'ops-key',
+      loadBalancerName: 'web-lb',
+      subnets: 'subnet-0a1b, subnet-0c2d',
+      securityGroups: 'sg-0123',
+      dbInstanceIdentifier: 'orders-db',
+      dbEngine: 'postgres',
+      instanceClass: 'db.t3.micro',
+      allocatedStorage: '20',
+      vpcCidrBlock: '10.0.0.0/16',
+      vpcName: 'main-vpc',
+      vmName: 'web-01',
+      resourceGroup: 'rg-eu-web',
+      location: 'westeurope',
+      vmSize: 'Standard_B2s',
+      serverName: 'orders-sql',
+      databaseName: 'orders',
+      resourceGroupName: 'rg-eu-web',
+      zone: 'us-central1-a',
+      machineType: 'e2-medium',
+      imageFamily: 'debian-12',
+      backendServiceName: 'web-backend',
+      ipAddressName: 'web-ip',
+      databaseVersion: 'POSTGRES_15',
+      region: 'us-central1',
+      projectId: 'analytics-123',
+      projectName: 'Analytics',
+      compartmentId: 'ocid1.compartment.oc1..aaaa1',
+      availabilityDomain: 'Uocm:PHX-AD-1',
+      shape: 'VM.Standard.E4.Flex',
+      'load-balancer-oracle.shape': 'flexible',
+      subnetIds: 'ocid1.subnet.oc1.phx.aaaa1',
+      dbName: 'orders',
+      compartmentName: 'sandbox',
+      description: 'Team sandbox for analytics',
+    };
+
+    for (const catalogService of services) {
+      const userId = `user-${catalogService.id}`;
+      let response = await service.processMessage(
+        `deploy a ${catalogService.name} on ${catalogService.cloud}`,
+        userId,
+      );
+      for (let turn = 0; turn < 10 && response.response.nextField; turn++) {
+        const fieldId: string = response.response.nextField;
+        response = await service.processMessage(
+          answers[`${catalogService.id}.${fieldId}`] || answers[fieldId],
+          userId,
+        );
+      }
+
+      expect([catalogService.id, response.workflow]).toEqual([
+        catalogService.id,
+        'deployment_plan',
+      ]);
+      expect(Object.keys(planOf(response).formData).sort()).toEqual(
+        catalogService.requiredFields.map((field) => field.fieldId).sort(),
+      );
+    }
+  });
+
+  it('routes actions to nodes registered after construction', async () => {
+    const run = jest.fn<
+      Promise<CloudStateUpdate>,
+      [CloudState, AgentEventEmitter?]
+    >();
+    run.mockResolvedValue({
+      response: {
+        status: 'status_board',
+        message: 'All deployments are green.',
+        customMessage: 'All deployments are green.',
+      },
+    });
+    service.registerActionNode({
+      name: 'statusBoard',
+      actions: [
+        {
+          type: 'DEPLOYMENT_STATUS',
+          workflow: 'statusBoard',
+          description: 'User asks about the status of a deployment',
+        },
+      ],
+      run,
+    });
+
+    const response = await service.processMessage(
+      'what is the status of my deployment?',
+      'user-1',
+    );
+    expect(run).toHaveBeenCalledTimes(1);
+    const [state, emit] = run.mock.calls[0];
+    expect(state.userId).toBe('user-1');
+    expect(state.action?.type).toBe('DEPLOYMENT_STATUS');
+    expect(emit).toBeUndefined();
+    expect(response.workflow).toBe('status_board');
+    expect(response.response.message).toBe('All deployments are green.');
+
+    expect(() =>
+      service.registerActionNode({ name: 'deploy', actions: [], run }),
+    ).toThrow('Workflow node deploy is already registered');
+  });
+
+  it('answers cost comparisons from the pricing catalog', async () => {
+    const response = await service.processMessage(
+      'How much does a virtual machine cost on AWS vs Azure vs GCP?',
+      'user-1',
+    );
+
+    expect(response.workflow).toBe('cost_estimate');
+    expect(
+      response.response.estimates?.map((estimate) => [
+        estimate.cloud,
+        estimate.monthly,
+      ]),
+    ).toEqual([
+      ['aws', 7.59],
+      ['azure', 7.59],
+      ['gcp', 6.13],
+    ]);
+    expect(response.response.message).toContain(
+      '**GCP** is the cheapest option.',
+    );
+  });
+
+  it('exports the service under discussion as Terraform', async () => {
+    await service.processMessage('Deploy a load balancer on azure', 'user-1');
+    const response = await service.processMessage(
+      'Can you give me this as Terraform?',
+      'user-1',
+    );
+
+    expect(response.workflow).toBe('terraform_generated');
+    expect(response.response.service).toEqual({
+      id: 'load-balancer-azure',
+      name: 'Load Balancer',
+      cloud: 'azure',
+    });
+    expect(response.response.terraform?.files['main.tf']).toContain(
+      'resource "azurerm_lb" "this"',
+    );
+  });
+
+  it('resolves provider-native names and asks when a service is ambiguous', async () => {
+    let requested = 'EC2';
+    service = new AgentService(
+      new ScriptedChatModelProvider([
+        {
+          name: 'findAction',
+          match: /determine the appropriate action/i,
+          respond: () => ({
+            action: {
+              type: 'DEPLOY',
+              payload: { service: requested, csp: 'aws' },
+            },
+          }),
+        },
+        ...DEFAULT_SCRIPTED_RULES,
+      ]),
+      store,
+      deployTool,
+      registry,
+      new DeploymentPlanStore(),
+      new TemplateEngine(),
+      new CostEstimator(),
+      catalog,
+      new CloudTranslator(catalog),
+      inventory,
+      new DeploymentTeardown(
+        registry,
+        deployTool,
+        catalog,
+        new TemplateEngine(),
+        inventory,
+        audit,
+      ),
+      approvals,
+      audit,
+      new UsageTracker(limits),
+    );
+
+    const resolved = await service.processMessage('Spin up an EC2', 'user-1');
+    expect(resolved.workflow).toBe('serviceConfiguration');
+    expect(resolved.response.service).toMatchObject({
+      name: 'Virtual Machine',
+      cloud: 'aws',
+    });
+
+    requested = 'database server';
+    const unclear = await service.processMessage(
+      'I need a database server',
+      'user-2',
+    );
+    expect(unclear.workflow).toBe('service_clarification');
+    expect(unclear.response.candidates?.map((c) => c.id).sort()).toEqual([
+      'database-aws',
+      'virtual-machine-aws',
+    ]);
+    expect(unclear.response.message).toContain('- **Database** (Amazon RDS)');
+  });
+
+  it('translates the service under discussion to another cloud', async () => {
+    const equivalent = await service.processMessage(
+      "What's the Azure equivalent of an AWS VM?",
+      'user-1',
+    );
+    expect(equivalent.workflow).toBe('service_translated');
+    expect(equivalent.response.message).toContain(
+      'The AZURE equivalent of Amazon EC2 is **Azure Virtual Machines**.',
+    );
+
+    await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-2',
+      'aws',
+      {
+        formData: vmFormData,
+      },
+    );
+    const moved = await service.processMessage('Move this to GCP', 'user-2');
+    expect(moved.response.status).toBe('service_translated');
+    expect(moved.response.translation?.formData).toEqual({
+      instanceName: 'web-01',
+      machineType: 'e2-micro',
+    });
+    expect(moved.response.message).toContain(
+      '| Image Family | - | Enter by hand',
+    );
+  });
+
+  it('changes a deployed service after showing the diff', async () => {
+    const planned = await service.processMessage(
+      'deploy a virtual machine on aws',
+      'user-1',
+      'aws',
+      { formData: vmFormData },
+    );
+    const deployed = await service.processMessage(
+      `confirm ${planOf(planned).token}`,
+      'user-1',
+    );
+    const deploymentId = deploymentIdOf(deployed);
+
+    const current = await service.processMessage(
+      `configure ${deploymentId}`,
+      'user-1',
+    );
+    expect(current.workflow).toBe('configure_service');
+    expect(current.response.message).toContain(
+      '| Instance Type | t3.micro | yes |',
+    );
+    expect(current.response.message).toContain(
+      '| Instance Name | web-01 | no |',
+    );
+
+    const proposed = await service.processMessage(
+      'Resize my virtual machine to t3.small',
+      'user-1',
+    );
+    expect(proposed.workflow).toBe('configuration_plan');
+    expect(proposed.response.message).toContain(
+      '| Instance Type | t3.micro | t3.small |',
+    );
+    expect(registry.get(deploymentId)?.formData.instanceType).toBe('t3.micro');
+
+    const applied = await service.processMessage(
+      `confirm ${planOf(proposed).token}`,
+      'user-1',
+    );
+    expect(applied.workflow).toBe('configuration_update');
+    expect(registry.get(deploymentId)).toMatchObject({
+      status: 'succeeded',
+      formData: { ...vmFormData, instanceType: 't3.small' },
+    });
+    expect(
+      registry.get(deploymentId)?.history.some((h) => h.changes?.length),
+    ).toBe(true);
+    expect(registry.list()).toHaveLength(1);
+
+    const other = await service.processMessage(
+      `configure ${deploymentId}`,
+      'user-2',
+    );
+    expect(other.workflow).toBe('configure_not_available');
+  });
+
+  it('destroys a deployment once its name is typed back', async () => {
+    const deployVm = async (instanceName: string) => {
+      const planned = await service.processMessage(
+        'deploy a virtual machine on aws',
+        'user-1',
+        'aws',
+        { formData: { ...vmFormData, instanceName } },
+      );
+      const deployed = await service.processMessage(
+        `confirm ${planOf(planned).token}`,
+        'user-1',
+      );
+      return deploymentIdOf(deployed);
+    };
+
+    const protectedId = await deployVm('web-01');
+    registry.setProtected(protectedId, true);
+    const refused = await service.processMessage(
+      `destroy ${protectedId}`,
+      'user-1',
+    );
+    expect(refused.workflow).toBe('destroy_refused');
+    expect(refused.response.reason).toBe('protected');
+
+    const id = await deployVm('web-02');
+    const preview = await service.processMessage(
+      'Please delete my virtual machine',
+      'user-1',
+    );
+    expect(preview.workflow).toBe('destroy_confirmation');
+    expect(preview.response).toMatchObject({ deploymentId: id });
+    expect(preview.response.message).toContain(
+      '| EC2Instance | AWS::EC2::Instance |',
+    );
+    expect(preview.response.message).toContain('Type **web-02** to confirm.');
+
+    const destroyed = await service.processMessage('web-02', 'user-1');
+    expect(destroyed.workflow).toBe('deployment_destroyed');
+    expect(registry.get(id)?.status).toBe('destroyed');
+    expect(registry.get(protectedId)?.status).toBe('succeeded');
+  });
+
+  it('lists existing resources as a table', async () => {
+    const listed = await service.processMessage(
+      'Show my security groups',
+      'user-1',
+      'aws',
+    );
+    expect(listed.workflow).toBe('resources_listed');
+    expect(listed.response).toMatchObject({
+      cloud: 'aws',
+      type: 'securityGroup',
+      source: 'fixture',
+    });
+    expect(listed.response.resources?.map((r) => r.name)).toEqual([
+      'default',
+      'web-sg',
+    ]);
+    expect(listed.response.message).toContain(
+      '| web-sg | sg-0a1b2c3d4e5f67890 | us-east-1 | active | env=prod |',
+    );
+
+    const gcp = await service.processMessage('List my GCP databases', 'user-1');
+    expect(gcp.response.message).toContain('You have 1 database on GCP:');
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const azure = await service.processMessage('List my Azure VMs', 'user-1');
+    expect(azure.workflow).toBe('resources_unavailable');
+    expect(azure.response.message).toContain(
+      'No resource inventory is configured for azure',
+    );
+  });
+});
@@ -1,156 +1,239 @@
-import { Injectable } from '@nestjs/common';
-import { StateGraph, START, END } from '@langchain/langgraph';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  StateGraph,
+  START,
+  END,
+  LangGraphRunnableConfig,
+} from '@langchain/langgraph';
 import {
   AIMessage,
   HumanMessage,
   SystemMessage,
   BaseMessage,
 } from '@langchain/core/messages';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as AWS from 'aws-sdk';
-import * as conversationFs from 'fs';
-import { z } from 'zod';
+import { Observable } from 'rxjs';
 import { DeployTool } from './deploy.tool';
-
-interface CloudState {
-  conversationHistory: any[];
-  query: string;
-  action: any;
-  csp: string | null;
-  response: any;
-  finalResponse?: any;
-  event?: string;
-}
-
-interface ServiceConfig {
-  name: string;
-  description: string;
-  cloud: string;
-  requiredFields: Array<{
-    type: string;
-    fieldId: string;
-    fieldName: string;
-    fieldValue: string;
-    fieldTypeValue: string;
-  }>;
-}
-
-interface ServicesData {
-  list: ServiceConfig[];
-}
+import { DeploymentTeardown } from './deployment.teardown';
+import { Principal, Role, hasRole, toPrincipal } from '../auth/types';
+import {
+  CHAT_MODEL_PROVIDER,
+  ChatModelProvider,
+} from './llm/chat-model.provider';
+import { JsonStringFieldStream } from './llm/json-stream';
+import { AgentEventEmitter, AgentReply, AgentStreamEvent } from './types';
+import {
+  ActionNode,
+  ActionRoute,
+  AgentAction,
+  CloudState,
+  CloudStateAnnotation,
+  CloudStateUpdate,
+  CloudWorkflow,
+} from './agent.state';
+import {
+  CONVERSATION_STORE,
+  Conversation,
+  ConversationPatch,
+  ConversationStore,
+  ConversationThread,
+  DEFAULT_THREAD_ID,
+  DeploymentDraft,
+  summarizeThread,
+} from '../conversations/conversation.store';
+import { titleFromMessage } from '../conversations/thread-title';
+import { DeploymentRegistry } from '../deployments/deployment.registry';
+import { DeploymentPlanStore } from '../deployments/deployment-plan.store';
+import {
+  DeploymentPlan,
+  DeploymentPlanLookup,
+  DeploymentRecord,
+  DeploymentStatus,
+  TeardownPreview,
+} from '../deployments/types';
+import { isEmpty, validateFormData } from '../services/field-validator';
+import {
+  extractFieldValues,
+  isValidFieldValue,
+} from '../services/field-extractor';
+import {
+  resolveFields,
+  toValidatableFields,
+} from '../services/field-dependency.resolver';
+import { FieldChange, ResolvedField, ServiceConfig } from '../services/types';
+import {
+  ListChangeMode,
+  applyFieldChanges,
+  diffFormData,
+  mutableFields,
+} from '../services/field-changes';
+import { resolveService } from '../services/service.resolver';
+import { ServiceCatalog } from '../catalog/service.catalog';
+import { TemplateEngine } from '../templates/template.engine';
+import { summarizeResources } from '../templates/resource-summary';
+import { PlannedResource } from '../templates/types';
+import { CostEstimator, formatEstimate } from '../pricing/cost.estimator';
+import { CostEstimate } from '../pricing/types';
+import {
+  generateTerraformModule,
+  hasTerraformSupport,
+} from '../terraform/terraform.generator';
+import { CloudTranslator, toServiceRef } from '../translation/cloud.translator';
+import { CrossCloudTranslation } from '../translation/types';
+import {
+  ResourceInventory,
+  parseResourceType,
+} from '../inventory/resource.inventory';
+import {
+  InventoryListing,
+  RESOURCE_LABELS,
+  RESOURCE_TYPES,
+} from '../inventory/types';
+import { DeploymentApprovals } from '../approvals/deployment.approvals';
+import { ApprovalRequest } from '../approvals/types';
+import { AuditLog, sha256 } from '../audit/audit.log';
+import { redactFormData } from '../audit/redact';
+import { AuditEvent } from '../audit/types';
+import { UsageTracker } from '../usage/usage.tracker';
+import { UsageCheck } from '../usage/types';
+import {
+  DisplayPreferences,
+  formatTimestamp,
+} from '../conversations/timestamps';
+
+// What users are told when their role doesn't allow what they asked for
+const ROLE_REQUIRED: Record<Role, string> = {
+  viewer: 'You need to be signed in to do that.',
+  deployer:
+    'Deploying, changing or removing resources needs the deployer role. Ask an admin for access.',
+  admin:
+    'Reviewing and approving deployments needs the admin role. Ask an admin to take a look.',
+};
+
+// Actions without a node of their own are answered by the LLM through this one
+const GENERAL_NODE = 'general';
+
+// History questions go to the summary node whatever action findAction picked
+const CONVERSATION_HISTORY_QUERY =
+  /what.*asked|conversation.*history|previous.*questions|questions.*so far|history|recap|summarize.*conversation|how many.*questions|number of questions/i;
+
+// Streaming callers pass an emitter through the run config to receive node progress
+const emitterFrom = (config?: LangGraphRunnableConfig) =>
+  config?.configurable?.emit as AgentEventEmitter | undefined;
 
 @Injectable()
 export class AgentService {
-  private workflow: any;
-  private readonly llm: ChatGoogleGenerativeAI;
-  private conversations: Map<string, any> = new Map();
-  private servicesData: ServicesData | null = null;
-  private conversationFilePath = path.join(process.cwd(), 'conversations.json');
-  private deployTool: DeployTool;
-
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is not set');
-    }
-
-    // Initialize LLM
-    this.llm = new ChatGoogleGenerativeAI({
-      apiKey,
-      model: 'gemini-1.5-flash',
-      temperature: 0.2,
-      maxOutputTokens: 2048,
-      json: true,
-    });
+  private workflow: CloudWorkflow;
+  private readonly actionNodes = new Map<string, ActionNode>();
+  // Action type -> the node that handles it and how it is reported
+  private readonly actionRoutes = new Map<
+    string,
+    { node: string; route: ActionRoute }
+  >();
+
+  constructor(
+    @Inject(CHAT_MODEL_PROVIDER) private readonly llm: ChatModelProvider,
+    @Inject(CONVERSATION_STORE)
+    private readonly conversationStore: ConversationStore,
+    private readonly deployTool: DeployTool,
+    private readonly deploymentRegistry: DeploymentRegistry,
+    private readonly deploymentPlans: DeploymentPlanStore,
+    private readonly templateEngine: TemplateEngine,
+    private readonly costEstimator: CostEstimator,
+    private readonly catalog: ServiceCatalog,
+    private readonly translator: CloudTranslator,
+    private readonly inventory: ResourceInventory,
+    private readonly teardown: DeploymentTeardown,
+    private readonly approvals: DeploymentApprovals,
+    private readonly audit: AuditLog,
+    private readonly usage: UsageTracker,
+  ) {
+    console.log(`Using chat model provider: ${this.llm.name}`);
 
-    this.loadServicesData();
-    this.deployTool = new DeployTool();
+    this.builtInActionNodes().forEach((node) => this.addActionNode(node));
+    this.workflow = this.buildWorkflow();
+  }
 
-    // Load all conversations from file into memory
-    const allConversations = this.loadAllConversationsFromFile();
-    Object.entries(allConversations).forEach(([userId, convo]) => {
-      this.conversations.set(userId, convo);
-    });
+  /**
+   * Adds a node to the workflow and routes its action types to it, taking them
+   * over from any node registered before. The action types are offered to the
+   * LLM in findAction along with their descriptions.
+   */
+  registerActionNode(node: ActionNode) {
+    this.addActionNode(node);
+    this.workflow = this.buildWorkflow();
+  }
 
-    // LangGraph workflow setup - remove analyzeInput
-    const CloudStateSchema = z.object({
-      conversationHistory: z.array(z.any()),
-      query: z.string(),
-      action: z.any(),
-      csp: z.string().nullable(),
-      response: z.any(),
-      finalResponse: z.any().nullable(),
-    });
+  private addActionNode(node: ActionNode) {
+    if (
+      this.actionNodes.has(node.name) ||
+      ['findAction', 'generateUnifiedResponse'].includes(node.name)
+    ) {
+      throw new Error(`Workflow node ${node.name} is already registered`);
+    }
+    this.actionNodes.set(node.name, node);
+    node.actions.forEach((route) =>
+      this.actionRoutes.set(route.type, { node: node.name, route }),
+    );
+  }
 
-    const workflow = new StateGraph(CloudStateSchema)
+  // findAction picks the action, a node per action type handles it and
+  // generateUnifiedResponse turns the result into the reply
+  private buildWorkflow(): CloudWorkflow {
+    const workflow = new StateGraph(CloudStateAnnotation)
       .addNode(
         'findAction',
-        async (state: CloudState) => await this.findAction(state),
-      )
-      .addNode(
-        'processAction',
-        async (state: CloudState) => await this.processAction(state),
+        async (state: CloudState, config?: LangGraphRunnableConfig) => {
+          const update = await this.findAction(state);
+          emitterFrom(config)?.({ type: 'action', data: update.action });
+          return update;
+        },
       )
       .addNode(
         'generateUnifiedResponse',
-        async (state: CloudState) => await this.generateUnifiedResponse(state),
+        async (state: CloudState, config?: LangGraphRunnableConfig) =>
+          await this.generateUnifiedResponse(state, emitterFrom(config)),
+      ) as StateGraph<
+      typeof CloudStateAnnotation.spec,
+      CloudState,
+      CloudStateUpdate,
+      string
+    >;
+
+    const nodeNames = [...this.actionNodes.keys()];
+    for (const node of this.actionNodes.values()) {
+      workflow.addNode(
+        node.name,
+        async (state: CloudState, config?: LangGraphRunnableConfig) =>
+          node.requiredRole && !hasRole(state, node.requiredRole)
+            ? this.reply('forbidden', ROLE_REQUIRED[node.requiredRole])
+            : await node.run(state, emitterFrom(config)),
       );
+      workflow.addEdge(node.name, 'generateUnifiedResponse');
+    }
 
     workflow.addEdge(START, 'findAction');
-    workflow.addEdge('findAction', 'processAction');
-    workflow.addEdge('processAction', 'generateUnifiedResponse');
+    workflow.addConditionalEdges(
+      'findAction',
+      (state: CloudState) => this.routeAction(state),
+      nodeNames,
+    );
     workflow.addEdge('generateUnifiedResponse', END);
 
-    this.workflow = workflow.compile();
+    return workflow.compile();
   }
 
-  private loadServicesData() {
-    try {
-      const servicesPath = path.join(process.cwd(), 'services.json');
-      const servicesContent = fs.readFileSync(servicesPath, 'utf8');
-      this.servicesData = JSON.parse(servicesContent);
-    } catch (error) {
-      console.error('Error loading services.json:', error);
-      this.servicesData = null;
-    }
-  }
-
-  private findMatchingService(analysis: any): ServiceConfig | null {
-    if (!this.servicesData || !analysis) return null;
-
-    const { details, csp } = analysis;
-    let serviceName =
-      typeof details?.service === 'string' ? details.service : null;
-    const cloudProvider = typeof csp === 'string' ? csp.toLowerCase() : null;
-
-    // Normalize: trim, lowercase, collapse multiple spaces
-    const normalize = (str: string) =>
-      str.trim().toLowerCase().replace(/\s+/g, ' ');
-    serviceName = serviceName ? normalize(serviceName) : null;
-    if (this.servicesData) {
-      this.servicesData.list.forEach((service) => {
-        console.log(
-          'Available service:',
-          normalize(service.name),
-          'cloud:',
-          service.cloud.toLowerCase(),
-        );
-      });
-    }
-
-    if (!serviceName || !cloudProvider) return null;
+  private routeAction(state: CloudState): string {
+    const type = CONVERSATION_HISTORY_QUERY.test(state.query)
+      ? 'CONVERSATION_SUMMARY'
+      : state.action?.type;
+    return (type && this.actionRoutes.get(type)?.node) || GENERAL_NODE;
+  }
 
-    // Find matching service by normalized name and cloud provider
+  // Workflow name the client sees for an action, e.g. DEPLOY -> deployService
+  private workflowForAction(type?: string): string {
     return (
-      this.servicesData.list.find(
-        (service) =>
-          typeof service.name === 'string' &&
-          normalize(service.name) === serviceName &&
-          typeof service.cloud === 'string' &&
-          service.cloud.toLowerCase() === cloudProvider,
-      ) || null
+      (type && this.actionRoutes.get(type)?.route.workflow) || 'generalResponse'
     );
   }
 
@@ -161,7 +244,10 @@ export class AgentService {
 
   private async findAction(cloudState: CloudState): Promise<CloudState> {
     const { query, conversationHistory, csp } = cloudState;
-    console.log('Generating findAction response');
+
+    const actionList = [...this.actionRoutes.values()]
+      .map(({ route }) => `    - "${route.type}" - ${route.description}`)
+      .join('\n');
 
     // Create a comprehensive unified prompt
     const promptText = `You're a cloud deployment assistant that helps users provision cloud resources and answer general questions about cloud services. 
@@ -170,20 +256,22 @@ export class AgentService {
     AVAILABLE ACTIONS:
     
     📋 Cloud Management Actions:
-    - "GENERAL_RESPONSE" - User asks a general question about cloud services or concepts
-    - "DEPLOY" - User wants to deploy or provision a specific cloud service
-    - "CONFIGURE" - User wants to configure an existing cloud service
-    - "LIST_RESOURCES" - User wants to list or view their cloud resources
-    - "VIEW_CSP_OPTIONS" - User wants to see cloud service provider options
-    - "SELECT_CSP" - User selects a specific Cloud Service Provider (AWS, Azure, GCP, etc.)
-    - "CONVERSATION_SUMMARY" - User asks about conversation history or previous questions
+${actionList}
     
     Rules:
     - Return action always in the response from the available actions list
     - If the user is asking about how many questions they've asked, use CONVERSATION_SUMMARY with questionCount
     - If the user is asking about what they've previously discussed or asked, use CONVERSATION_SUMMARY
     - If the user is asking a general question about cloud services, use GENERAL_RESPONSE
+    - If the user asks how a deployment is going or about its status, use DEPLOYMENT_STATUS
+    - If the user asks for Terraform or HCL, use TERRAFORM_EXPORT. Fill in service and csp only if they name one
+    - If the user asks about price, cost or which provider is cheaper, use COST_ESTIMATE and list every provider they mention in csps
+    - If the user asks for the equivalent of a service on another provider, or to move or translate a service to another provider, use TRANSLATE_SERVICE with csp set to the provider it comes from and targetCsp to the one it goes to
+    - If the user wants to change, resize or reconfigure something they already deployed, use CONFIGURE. Fill in deploymentId if they name one
+    - If the user wants to delete, destroy or tear down something they deployed, use DESTROY. Fill in deploymentId if they name one
+    - If the user asks which deployments are waiting for approval, use APPROVALS
     - If the user mentions deploying, creating, or provisioning a service, use DEPLOY
+    - If the user wants to see resources they already have, use LIST_RESOURCES with resourceType set to one of: ${RESOURCE_TYPES.join(', ')}
     - If the user wants to see available services, use VIEW_CSP_OPTIONS
     - If the user is explicitly selecting a cloud provider, use SELECT_CSP
     - Extract as much information as possible from the query to fill the payload
@@ -197,6 +285,10 @@ export class AgentService {
           "csp": "aws|azure|gcp|oracle", // The cloud service provider mentioned
           "region": "region-name", // The region mentioned, if any
           "specifications": {}, // Any additional specifications mentioned
+          "deploymentId": "dep-...", // Include only for DEPLOYMENT_STATUS, CONFIGURE or DESTROY when the user names a deployment id
+          "csps": ["aws", "azure"], // Include only for COST_ESTIMATE: every provider to price
+          "resourceType": "vm|database|...", // Include only for LIST_RESOURCES: the kind of resource to list
+          "targetCsp": "aws|azure|gcp|oracle", // Include only for TRANSLATE_SERVICE: the provider to move the service to
           "message": "user's message simplified", // A simplified version of the user's message
           "questionCount": 5 // Include only for CONVERSATION_SUMMARY when asking about question counts
         }
@@ -210,18 +302,11 @@ export class AgentService {
       new HumanMessage(String(query)),
     ];
 
-    console.log('Sending payload to LLM for action determination');
     try {
-      console.log(`Processing query: "${query}" for CSP: ${csp || 'unknown'}`);
-      const response = await this.llm.invoke(messagePayload);
-      const responseContent = String(response.content);
+      const responseContent = await this.llm.invoke(messagePayload);
 
       try {
         const parsedResponse = JSON.parse(responseContent);
-        console.log(
-          'parsedResponse from findAction:',
-          JSON.stringify(parsedResponse, null, 2),
-        );
 
         // Handle the case where the LLM returns a complete response object instead of just the action
         if (
@@ -229,24 +314,11 @@ export class AgentService {
           parsedResponse.workflow &&
           parsedResponse.response
         ) {
-          console.log(
-            'LLM returned a complete response object instead of just the action',
-          );
           // Extract the action type from the workflow if possible
-          let actionType = 'GENERAL_RESPONSE';
-          if (parsedResponse.workflow === 'conversationSummary') {
-            actionType = 'CONVERSATION_SUMMARY';
-          } else if (parsedResponse.workflow === 'deployService') {
-            actionType = 'DEPLOY';
-          } else if (parsedResponse.workflow === 'configureService') {
-            actionType = 'CONFIGURE';
-          } else if (parsedResponse.workflow === 'listResources') {
-            actionType = 'LIST_RESOURCES';
-          } else if (parsedResponse.workflow === 'viewCspOptions') {
-            actionType = 'VIEW_CSP_OPTIONS';
-          } else if (parsedResponse.workflow === 'selectCsp') {
-            actionType = 'SELECT_CSP';
-          }
+          const actionType =
+            [...this.actionRoutes.values()].find(
+              ({ route }) => route.workflow === parsedResponse.workflow,
+            )?.route.type || 'GENERAL_RESPONSE';
 
           // Extract questionCount if this is a conversation summary
           let questionCount;
@@ -308,10 +380,6 @@ export class AgentService {
           };
         } else {
           // Fallback to a general response with the original query
-          console.log(
-            "Response did not contain expected 'action' property:",
-            parsedResponse,
-          );
           return {
             ...cloudState,
             action: {
@@ -324,7 +392,6 @@ export class AgentService {
         }
       } catch (jsonError) {
         console.error('JSON parse error in findAction:', jsonError);
-        console.log('Raw content:', responseContent);
 
         // Fallback to a general response with the original query
         return {
@@ -400,14 +467,11 @@ export class AgentService {
     - Keep explanations concise but informative`;
 
     try {
-      console.log(`Generating example values for ${service.name} on ${csp}`);
       const messagePayload = [
         new SystemMessage(promptText),
         new HumanMessage(promptText),
       ];
-      const result = await this.llm.invoke(messagePayload);
-      const responseText = String(result.content);
-      console.log('Example values generation complete');
+      const responseText = await this.llm.invoke(messagePayload);
 
       try {
         const cleanedResponse = this.cleanJsonResponse(responseText);
@@ -437,320 +501,1071 @@ export class AgentService {
     }
   }
 
-  private async processAction(cloudState: CloudState): Promise<CloudState> {
-    const { action, csp, conversationHistory, response } = cloudState;
-    console.log('Processing action:', action?.type);
+  // The actions the agent handles out of the box, one workflow node each
+  private builtInActionNodes(): ActionNode[] {
+    return [
+      {
+        name: GENERAL_NODE,
+        actions: [
+          {
+            type: 'GENERAL_RESPONSE',
+            workflow: 'generalResponse',
+            description:
+              'User asks a general question about cloud services or concepts',
+          },
+        ],
+        // The unified response answers these from the LLM
+        run: () => Promise.resolve({}),
+      },
+      {
+        name: 'configure',
+        actions: [
+          {
+            type: 'CONFIGURE',
+            workflow: 'configureService',
+            description:
+              'User wants to change the settings of a service they already deployed, e.g. resize it or add a security group',
+          },
+        ],
+        requiredRole: 'deployer',
+        run: (state) => this.configureNode(state),
+      },
+      {
+        name: 'destroy',
+        actions: [
+          {
+            type: 'DESTROY',
+            workflow: 'destroyService',
+            description:
+              'User wants to delete, tear down or destroy a service they deployed',
+          },
+        ],
+        requiredRole: 'deployer',
+        run: (state) => this.destroyNode(state),
+      },
+      {
+        name: 'approvals',
+        actions: [
+          {
+            type: 'APPROVALS',
+            workflow: 'approvals',
+            description:
+              'An approver wants to see the deployments waiting for approval',
+          },
+        ],
+        requiredRole: 'admin',
+        run: () => Promise.resolve(this.approvalsNode()),
+      },
+      {
+        name: 'deploy',
+        actions: [
+          {
+            type: 'DEPLOY',
+            workflow: 'deployService',
+            description:
+              'User wants to deploy or provision a specific cloud service',
+          },
+        ],
+        requiredRole: 'deployer',
+        run: (state, emit) => this.deployNode(state, emit),
+      },
+      {
+        name: 'listResources',
+        actions: [
+          {
+            type: 'LIST_RESOURCES',
+            workflow: 'listResources',
+            description: 'User wants to list or view their cloud resources',
+          },
+        ],
+        run: (state) => this.listResourcesNode(state),
+      },
+      {
+        name: 'viewCspOptions',
+        actions: [
+          {
+            type: 'VIEW_CSP_OPTIONS',
+            workflow: 'viewCspOptions',
+            description: 'User wants to see cloud service provider options',
+          },
+        ],
+        run: () => Promise.resolve(this.cspOptionsNode()),
+      },
+      {
+        name: 'selectCsp',
+        actions: [
+          {
+            type: 'SELECT_CSP',
+            workflow: 'selectCsp',
+            description:
+              'User selects a specific Cloud Service Provider (AWS, Azure, GCP, etc.)',
+          },
+        ],
+        run: (state) => Promise.resolve(this.selectCspNode(state)),
+      },
+      {
+        name: 'summary',
+        actions: [
+          {
+            type: 'CONVERSATION_SUMMARY',
+            workflow: 'conversationSummary',
+            description:
+              'User asks about conversation history or previous questions',
+          },
+        ],
+        run: (state) => Promise.resolve(this.summaryNode(state)),
+      },
+      {
+        name: 'deploymentStatus',
+        actions: [
+          {
+            type: 'DEPLOYMENT_STATUS',
+            workflow: 'deploymentStatus',
+            description:
+              'User asks about the status of a deployment they started',
+          },
+        ],
+        run: (state) => Promise.resolve(this.deploymentStatusNode(state)),
+      },
+      {
+        name: 'terraformExport',
+        actions: [
+          {
+            type: 'TERRAFORM_EXPORT',
+            workflow: 'terraformExport',
+            description:
+              'User wants a service (or the one just discussed) as Terraform code',
+          },
+        ],
+        run: (state) => Promise.resolve(this.terraformExportNode(state)),
+      },
+      {
+        name: 'costEstimate',
+        actions: [
+          {
+            type: 'COST_ESTIMATE',
+            workflow: 'costEstimate',
+            description:
+              'User asks what a service costs or compares costs between cloud providers',
+          },
+        ],
+        run: (state) => Promise.resolve(this.costEstimateNode(state)),
+      },
+      {
+        name: 'translateService',
+        actions: [
+          {
+            type: 'TRANSLATE_SERVICE',
+            workflow: 'translateService',
+            description:
+              'User wants the equivalent of a service (or the one just discussed) on another cloud provider, or its settings moved there',
+          },
+        ],
+        run: (state) => Promise.resolve(this.translateServiceNode(state)),
+      },
+    ];
+  }
 
-    if (!action) {
-      return cloudState;
-    }
+  // Helper: the final word of an action node, sent to the user as is
+  private reply(
+    status: string,
+    message: string,
+    details: Record<string, any> = {},
+  ): CloudStateUpdate {
+    return {
+      event: status,
+      response: { status, message, ...details, customMessage: message },
+    };
+  }
 
+  private summaryNode(cloudState: CloudState): CloudStateUpdate {
+    const { conversationHistory, response } = cloudState;
+    // History questions are routed here whatever findAction made of them
+    const action: AgentAction =
+      cloudState.action?.type === 'CONVERSATION_SUMMARY'
+        ? cloudState.action
+        : {
+            type: 'CONVERSATION_SUMMARY',
+            payload: { message: cloudState.query },
+          };
     let customResponse = '';
-    let updatedState = { ...cloudState };
-
-    switch (action.type) {
-      case 'GENERAL_RESPONSE':
-        // For general questions, we'll let the generateUnifiedResponse handle it
-        break;
 
-      case 'CONVERSATION_SUMMARY':
-        try {
-          // Check if the action payload already contains a well-formed message from the LLM
-          if (
-            action.payload.message &&
-            !action.payload.message.startsWith('You have asked') &&
-            !action.payload.message.includes('summary')
-          ) {
-            // Use the message from the LLM directly
-            customResponse = action.payload.message;
-          } else {
-            // Fallback to checking if it's a count query or summary query
-            const isCountQuery = /how many|number of/i.test(
-              action.payload.message || cloudState.query,
-            );
-            const questionCount = action.payload.questionCount;
-
-            if (isCountQuery) {
-              // For count queries, provide a direct answer with just the number
-              const count =
-                questionCount ||
-                (Array.isArray(conversationHistory)
-                  ? conversationHistory.filter((msg) => msg.role === 'human')
-                      .length - 1
-                  : 0);
-              customResponse = `You have asked ${count} questions so far.`;
-            } else {
-              // For summary queries, provide an introduction to the list
-              customResponse = "Here's a summary of our conversation so far:";
-            }
-          }
+    try {
+      // Check if the action payload already contains a well-formed message from the LLM
+      if (
+        action.payload.message &&
+        !action.payload.message.startsWith('You have asked') &&
+        !action.payload.message.includes('summary')
+      ) {
+        // Use the message from the LLM directly
+        customResponse = action.payload.message;
+      } else {
+        // Fallback to checking if it's a count query or summary query
+        const isCountQuery = /how many|number of/i.test(
+          action.payload.message || cloudState.query,
+        );
+        const questionCount = action.payload.questionCount;
+
+        if (isCountQuery) {
+          // For count queries, provide a direct answer with just the number
+          const count =
+            questionCount ||
+            (Array.isArray(conversationHistory)
+              ? conversationHistory.filter((msg) => msg.role === 'human')
+                  .length - 1
+              : 0);
+          customResponse = `You have asked ${count} questions so far.`;
+        } else {
+          // For summary queries, provide an introduction to the list
+          customResponse = "Here's a summary of our conversation so far:";
+        }
+      }
 
-          updatedState.event = 'conversation_summarized';
+      // Check if we already have a response with previousQuestions from the LLM
+      if (
+        response &&
+        response.previousQuestions &&
+        Array.isArray(response.previousQuestions)
+      ) {
+        return {
+          action,
+          event: 'conversation_summarized',
+          response: {
+            ...response,
+            status: 'conversation_summarized',
+            // If the LLM response has a message, prefer it over our custom message
+            message: response.message || customResponse,
+          },
+        };
+      }
 
-          // Check if we already have a response with previousQuestions from the LLM
-          if (
-            response &&
-            response.previousQuestions &&
-            Array.isArray(response.previousQuestions)
-          ) {
-            console.log('Using existing previousQuestions from response');
+      // Extract only unique human messages and filter out the current question
+      const humanMessages = [
+        ...new Set(
+          conversationHistory
+            .filter((msg) => msg.role === 'human')
+            .map((msg) =>
+              typeof msg.content === 'string'
+                ? msg.content
+                : JSON.stringify(msg.content),
+            ),
+        ),
+      ];
 
-            // If the LLM response has a message, prefer it over our custom message
-            const finalMessage = response.message || customResponse;
+      // Remove the current question (it will be the last one)
+      const previousQuestions = humanMessages.slice(0, -1);
+      const actualCount = previousQuestions.length;
+
+      // Don't override the LLM's message if it provided one
+      if (!customResponse) {
+        customResponse =
+          action.payload.message ||
+          (actualCount > 0
+            ? `You have asked ${actualCount} questions so far.`
+            : 'This is your first question.');
+      }
 
-            updatedState.response = {
-              ...response,
-              status: 'conversation_summarized',
-              message: finalMessage,
-            };
-            break;
-          }
+      return {
+        action,
+        ...this.reply('conversation_summarized', customResponse, {
+          previousQuestions,
+          questionCount: action.payload.questionCount || actualCount,
+        }),
+      };
+    } catch (error) {
+      console.error('Error processing conversation summary:', error);
+      return {
+        action,
+        ...this.reply(
+          'error',
+          'I apologize, but I encountered an error retrieving your conversation history.',
+        ),
+      };
+    }
+  }
 
-          // Extract only unique human messages and filter out the current question
-          const humanMessages = [
-            ...new Set(
-              conversationHistory
-                .filter((msg) => msg.role === 'human')
-                .map((msg) =>
-                  typeof msg.content === 'string'
-                    ? msg.content
-                    : JSON.stringify(msg.content),
-                ),
-            ),
-          ];
-
-          // Remove the current question (it will be the last one)
-          const previousQuestions = humanMessages.slice(0, -1);
-          const actualCount = previousQuestions.length;
-
-          // Don't override the LLM's message if it provided one
-          if (!customResponse) {
-            customResponse =
-              action.payload.message ||
-              (actualCount > 0
-                ? `You have asked ${actualCount} questions so far.`
-                : 'This is your first question.');
-          }
+  private async deployNode(
+    cloudState: CloudState,
+    emit?: AgentEventEmitter,
+  ): Promise<CloudStateUpdate> {
+    const { action, csp } = cloudState;
+    const service = action?.payload.service;
+    // Without a service name the unified response asks what to deploy
+    if (!service) return {};
+
+    // Find the matching service by name, native name or alias
+    const lookup = resolveService(
+      this.catalog.getAvailable(),
+      service,
+      csp || 'aws',
+    );
+    if (lookup.ambiguous) {
+      const options = lookup.contenders.map(({ service: option }) => option);
+      return this.reply(
+        'service_clarification',
+        `"${service}" could mean more than one service on ${(csp || 'aws').toUpperCase()}. Which one would you like to deploy?\n\n${options
+          .map(
+            (option) =>
+              `- **${option.name}**${option.nativeName ? ` (${option.nativeName})` : ''}`,
+          )
+          .join('\n')}`,
+        {
+          candidates: options.map((option) => ({
+            id: option.id,
+            name: option.name,
+            nativeName: option.nativeName,
+            cloud: option.cloud,
+          })),
+        },
+      );
+    }
 
-          updatedState.response = {
-            status: 'conversation_summarized',
-            message: customResponse,
-            previousQuestions,
-            questionCount: action.payload.questionCount || actualCount,
-          };
-        } catch (error) {
-          console.error('Error processing conversation summary:', error);
-          customResponse =
-            'I apologize, but I encountered an error retrieving your conversation history.';
-          updatedState.response = {
-            status: 'error',
-            message: customResponse,
-          };
-        }
-        break;
-
-      case 'DEPLOY':
-        const { service } = action.payload;
-        if (service) {
-          // Find the matching service in the services data
-          const matchingService = this.findMatchingServiceByName(service, csp);
-          if (matchingService) {
-            // Generate example values for the service
-            const exampleValues = await this.generateExampleValues(
-              matchingService,
-              csp || 'aws',
-            );
-
-            // Enhance required fields with examples
-            const enhancedFields = matchingService.requiredFields.map(
-              (field) => {
-                const exampleField = exampleValues.fields.find(
-                  (ef: any) => ef.fieldId === field.fieldId,
-                );
-                return {
-                  ...field,
-                  exampleValue: exampleField?.exampleValue || '',
-                  explanation: exampleField?.explanation || '',
-                };
-              },
-            );
-
-            // Set the response
-            updatedState.response = {
-              status: 'service_found',
-              message: `Found service configuration for ${matchingService.name} on ${matchingService.cloud.toUpperCase()}`,
-              service: {
-                name: matchingService.name,
-                description: matchingService.description,
-                cloud: matchingService.cloud,
-                requiredFields: enhancedFields,
-              },
-              details: action.payload,
-            };
+    const matchingService = lookup.match;
+    if (!matchingService) {
+      // Service not found
+      const availableServices = this.catalog
+        .getAvailable()
+        .filter((s) => s.cloud === (csp || 'aws').toLowerCase())
+        .map((s) => s.name);
+
+      return this.reply(
+        'service_not_found',
+        `Sorry, the ${service} service is currently not available to provision in ${(csp || 'aws').toUpperCase()}. Please select from the available services.`,
+        { availableServices },
+      );
+    }
 
-            updatedState.event = 'service_configuration';
-          } else {
-            // Service not found
-            const availableServices =
-              this.servicesData?.list
-                .filter((s) => s.cloud === (csp || 'aws').toLowerCase())
-                .map((s) => s.name) || [];
-
-            customResponse = `Sorry, the ${service} service is currently not available to provision in ${(csp || 'aws').toUpperCase()}. Please select from the available services.`;
-            updatedState.event = 'service_not_found';
-            updatedState.response = {
-              status: 'service_not_found',
-              availableServices,
-              message: customResponse,
-            };
-          }
-        }
-        break;
+    // Keep whatever values the user already gave, e.g. "a t3.medium called web-01"
+    const collected = await this.extractServiceFieldValues(
+      matchingService,
+      String(cloudState.query),
+    );
+    const step = this.advanceDraft(
+      matchingService,
+      collected,
+      cloudState.userId,
+      cloudState.threadId,
+      csp || matchingService.cloud,
+      collected,
+    );
+    if (step.plan) {
+      return {
+        draft: step.draft,
+        ...this.reply('deployment_plan', step.message, { plan: step.plan }),
+      };
+    }
 
-      case 'LIST_RESOURCES':
-        const { resourceType } = action.payload;
-        console.log('Processing LIST_RESOURCES action', resourceType);
-        if (
-          resourceType &&
-          resourceType.toLowerCase().includes('security group') &&
-          csp === 'aws'
-        ) {
-          const sgList = await this.listAWSSecurityGroups();
-          customResponse = sgList;
-          updatedState.event = 'resources_listed';
-          updatedState.response = {
-            status: 'resources_listed',
-            message: sgList,
-            resourceType,
-          };
-        }
-        break;
-
-      case 'SELECT_CSP':
-        const selectedCsp = action.payload.csp;
-        if (selectedCsp) {
-          updatedState.csp = selectedCsp.toLowerCase();
-          customResponse = `You have selected ${selectedCsp.toUpperCase()} as your Cloud Service Provider.`;
-          updatedState.event = 'csp_selected';
-          updatedState.response = {
-            status: 'csp_selected',
-            message: customResponse,
-            csp: selectedCsp.toLowerCase(),
-          };
-        }
-        break;
+    // Generate example values for the service
+    emit?.({
+      type: 'service',
+      data: {
+        name: matchingService.name,
+        cloud: matchingService.cloud,
+      },
+    });
+    const exampleValues = await this.generateExampleValues(
+      matchingService,
+      csp || 'aws',
+    );
+    emit?.({ type: 'examples', data: exampleValues });
 
-      case 'VIEW_CSP_OPTIONS':
-        const cspOptions = ['AWS', 'Azure', 'GCP', 'Oracle Cloud'];
-        const availableServicesPerCsp = {};
+    // Order fields by their dependencies and work out which are enabled
+    const resolution = resolveFields(
+      matchingService.requiredFields,
+      step.draft?.formData,
+    );
 
-        if (this.servicesData) {
-          cspOptions.forEach((cspOption) => {
-            const cspLower = cspOption.toLowerCase().replace(' cloud', '');
-            const services = this.servicesData?.list
-              .filter((s) => s.cloud === cspLower)
-              .map((s) => s.name);
+    // Enhance required fields with examples
+    const enhancedFields = resolution.fields.map((field) => {
+      const exampleField = exampleValues.fields.find(
+        (ef: any) => ef.fieldId === field.fieldId,
+      );
+      return {
+        ...field,
+        exampleValue: exampleField?.exampleValue || '',
+        explanation: exampleField?.explanation || '',
+      };
+    });
 
-            availableServicesPerCsp[cspOption] = services;
-          });
-        }
+    return {
+      draft: step.draft,
+      event: 'service_configuration',
+      response: {
+        status: 'service_found',
+        message: `Found service configuration for ${matchingService.name} on ${matchingService.cloud.toUpperCase()}`,
+        service: {
+          name: matchingService.name,
+          description: matchingService.description,
+          cloud: matchingService.cloud,
+          requiredFields: enhancedFields,
+          nextFields: resolution.nextFields.map((field) => field.fieldId),
+          estimatedCost: this.costEstimator.estimate(
+            matchingService,
+            step.draft?.formData,
+          ),
+        },
+        question: step.message,
+        collected: step.draft?.formData || {},
+        nextField: step.draft?.pendingFieldId,
+        details: action?.payload,
+      },
+    };
+  }
 
-        customResponse = `Here are the available cloud service providers:`;
-        updatedState.event = 'csp_options_shown';
-        updatedState.response = {
-          status: 'csp_options_shown',
-          message: customResponse,
-          cspOptions,
-          availableServicesPerCsp,
-        };
-        break;
+  private async listResourcesNode(
+    cloudState: CloudState,
+  ): Promise<CloudStateUpdate> {
+    const { action, csp } = cloudState;
+    const type = parseResourceType(action?.payload?.resourceType);
+    if (!type) {
+      return this.reply(
+        'resource_type_needed',
+        `Which resources would you like to list? I can show your ${RESOURCE_TYPES.map((t) => RESOURCE_LABELS[t][1]).join(', ')}.`,
+      );
+    }
 
-      default:
-        break;
+    const cloud = String(action?.payload?.csp || csp || 'aws').toLowerCase();
+    const region: unknown = action?.payload?.region;
+    try {
+      const listing = await this.inventory.list(cloud, type, {
+        region: typeof region === 'string' && region ? region : undefined,
+      });
+      return this.reply('resources_listed', this.describeListing(listing), {
+        resourceType: type,
+        ...listing,
+      });
+    } catch (error) {
+      console.error('Error listing resources:', error);
+      return this.reply(
+        'resources_unavailable',
+        `I couldn't list your ${cloud.toUpperCase()} ${RESOURCE_LABELS[type][1]}: ${(error as Error).message}`,
+        { resourceType: type, cloud },
+      );
     }
+  }
 
-    // Only set customResponse if it is not empty
-    if (customResponse) {
-      updatedState.response.customMessage = customResponse;
+  private describeListing(listing: InventoryListing): string {
+    const { cloud, type, resources } = listing;
+    const label = RESOURCE_LABELS[type][resources.length === 1 ? 0 : 1];
+    if (resources.length === 0) {
+      return `You have no ${label} on ${cloud.toUpperCase()}.`;
     }
 
-    return updatedState;
+    const tags = (values: Record<string, string>) =>
+      Object.entries(values)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(', ') || '-';
+    return [
+      `You have ${resources.length} ${label} on ${cloud.toUpperCase()}:`,
+      '',
+      '| Name | ID | Region | State | Tags |',
+      '| --- | --- | --- | --- | --- |',
+      ...resources.map(
+        (resource) =>
+          `| ${resource.name} | ${resource.id} | ${resource.region} | ${resource.state} | ${tags(resource.tags)} |`,
+      ),
+    ].join('\n');
   }
 
-  // Helper method to find a service by name
-  private findMatchingServiceByName(
-    serviceName: string,
-    csp: string | null,
-  ): ServiceConfig | null {
-    if (!this.servicesData) return null;
+  private selectCspNode(cloudState: CloudState): CloudStateUpdate {
+    const selectedCsp = cloudState.action?.payload.csp;
+    if (!selectedCsp) return {};
+
+    return {
+      csp: selectedCsp.toLowerCase(),
+      ...this.reply(
+        'csp_selected',
+        `You have selected ${selectedCsp.toUpperCase()} as your Cloud Service Provider.`,
+        { csp: selectedCsp.toLowerCase() },
+      ),
+    };
+  }
 
-    // Normalize names for comparison
-    const normalize = (str: string) =>
-      str.trim().toLowerCase().replace(/\s+/g, ' ');
-    const normalizedServiceName = normalize(serviceName);
-    const normalizedCsp = csp ? normalize(csp) : 'aws';
+  private deploymentStatusNode(cloudState: CloudState): CloudStateUpdate {
+    const { action, userId } = cloudState;
+    const deployment = action?.payload.deploymentId
+      ? this.deploymentRegistry.get(action.payload.deploymentId)
+      : this.deploymentRegistry.latestForUser(userId);
 
-    // Find matching service
-    return (
-      this.servicesData.list.find(
-        (service) =>
-          normalize(service.name).includes(normalizedServiceName) &&
-          service.cloud.toLowerCase() === normalizedCsp,
-      ) || null
+    if (!deployment || deployment.userId !== userId) {
+      return this.reply(
+        'deployment_not_found',
+        "I couldn't find any deployments for you yet.",
+      );
+    }
+    return this.reply(
+      'deployment_status',
+      `Your deployment of ${deployment.serviceName} on ${deployment.csp.toUpperCase()} (${deployment.id}) is **${deployment.status.replace('_', ' ')}**.${deployment.message ? ` ${deployment.message}` : ''}`,
+      { deployment },
     );
   }
 
-  private async generateUnifiedResponse(
+  private async configureNode(
     cloudState: CloudState,
-  ): Promise<CloudState> {
-    const { action, response, query, conversationHistory, csp } = cloudState;
-    console.log('Generating unified response');
+  ): Promise<CloudStateUpdate> {
+    const { query } = cloudState;
+    const deployment = this.findUserDeployment(cloudState, ['succeeded']);
+    if (!deployment) {
+      return this.reply(
+        'configure_not_available',
+        "I couldn't find a deployment of yours to change. Name the deployment (for example 'resize dep-... to t3.large') or deploy a service first.",
+      );
+    }
 
-    // Check if user is asking about conversation history
-    const isConversationHistoryQuery =
-      /what.*asked|conversation.*history|previous.*questions|questions.*so far|history|recap|summarize.*conversation|how many.*questions|number of questions/i.test(
-        query,
+    const service = this.findMatchingServiceByName(
+      deployment.serviceName,
+      deployment.csp,
+    );
+    const changeable = service ? mutableFields(service.requiredFields) : [];
+    if (!service || changeable.length === 0) {
+      return this.reply(
+        'configure_not_available',
+        `${deployment.serviceName} on ${deployment.csp.toUpperCase()} has no settings that can be changed after deployment.`,
+        { deploymentId: deployment.id },
       );
+    }
+    if (deployment.status !== 'succeeded') {
+      return this.reply(
+        'configure_not_available',
+        `Your deployment of ${deployment.serviceName} (${deployment.id}) is **${deployment.status.replace('_', ' ')}**. Only deployments that finished successfully can be changed.`,
+        { deploymentId: deployment.id },
+      );
+    }
 
-    // If the query is about conversation history, make sure we set the action type correctly
-    if (
-      isConversationHistoryQuery &&
-      (!action || action.type !== 'CONVERSATION_SUMMARY')
-    ) {
-      cloudState.action = {
-        type: 'CONVERSATION_SUMMARY',
-        payload: {
-          message: query,
-        },
-      };
-      // Process the action again with the corrected type
-      return this.processAction(cloudState);
+    const details = {
+      deploymentId: deployment.id,
+      service: { name: service.name, cloud: service.cloud },
+      formData: deployment.formData,
+      mutableFields: changeable.map((field) => field.fieldId),
+    };
+    const requested = await this.extractServiceFieldValues(
+      { ...service, requiredFields: changeable },
+      query,
+    );
+    if (Object.keys(requested).length === 0) {
+      return this.reply(
+        'configure_service',
+        this.describeConfiguration(deployment, service),
+        details,
+      );
     }
 
-    // If we already have a processed response for conversation summary, just return it
-    if (
-      action &&
-      action.type === 'CONVERSATION_SUMMARY' &&
-      response &&
-      (response.previousQuestions || response.questionCount)
-    ) {
-      console.log('Using already processed conversation summary response');
-      return {
-        ...cloudState,
-        finalResponse: {
-          role: 'assistant',
-          workflow: 'conversationSummary',
-          response: {
-            ...response,
-            menu: this.getMenuForCSP(csp || 'aws', true),
-          },
-        },
-      };
+    // "add sg-123" keeps the groups already attached; "remove" drops just that one
+    const listMode: ListChangeMode = /\b(add|attach)\b/i.test(query)
+      ? 'add'
+      : /\b(remove|detach)\b/i.test(query)
+        ? 'remove'
+        : 'replace';
+    const formData = applyFieldChanges(
+      changeable,
+      deployment.formData,
+      requested,
+      listMode,
+    );
+    const errors = validateFormData(
+      toValidatableFields(resolveFields(service.requiredFields, formData)),
+      formData,
+    );
+    if (errors.length > 0) {
+      return this.reply(
+        'validation_failed',
+        `I can't make that change to ${deployment.serviceName}:\n${errors.map((e) => `- ${e.message}`).join('\n')}`,
+        { ...details, errors },
+      );
     }
 
-    // Check if we have a custom message from processAction
-    if (response && response.customMessage) {
-      console.log('Using custom message from processAction');
+    const changes = diffFormData(
+      service.requiredFields,
+      deployment.formData,
+      formData,
+    );
+    if (changes.length === 0) {
+      return this.reply(
+        'configure_service',
+        `${deployment.serviceName} (${deployment.id}) already has those settings, so there is nothing to change.`,
+        details,
+      );
+    }
+
+    const plan = this.createDeploymentPlan(
+      service,
+      deployment.serviceName,
+      formData,
+      deployment.userId,
+      cloudState.threadId,
+      deployment.csp,
+      { deploymentId: deployment.id, changes },
+    );
+    return this.reply('configuration_plan', this.describePlan(plan), {
+      ...details,
+      changes,
+      plan,
+    });
+  }
+
+  // Helper: the deployment a CONFIGURE or DESTROY request is about. A named
+  // deployment wins; otherwise the user's latest one of the named service
+  // among those in one of the given states.
+  private findUserDeployment(
+    cloudState: CloudState,
+    statuses: DeploymentStatus[],
+  ): DeploymentRecord | null {
+    const { action, userId, query } = cloudState;
+    const id = action?.payload.deploymentId || query.match(/\bdep-[\w-]+/)?.[0];
+    if (id) {
+      const deployment = this.deploymentRegistry.get(id);
+      return deployment?.userId === userId ? deployment : null;
+    }
+
+    const deployments = this.deploymentRegistry
+      .list({ userId })
+      .filter((d) => statuses.includes(d.status));
+    const subject = this.findServiceInContext(cloudState);
+    const match = deployments.find(
+      (d) =>
+        subject &&
+        this.findMatchingServiceByName(d.serviceName, d.csp) ===
+          subject.service,
+    );
+    // A service the user named has to match; one merely discussed earlier doesn't
+    return match || (action?.payload.service ? null : deployments[0] || null);
+  }
+
+  private async destroyNode(cloudState: CloudState): Promise<CloudStateUpdate> {
+    const deployment = this.findUserDeployment(cloudState, [
+      'succeeded',
+      'failed',
+    ]);
+    if (!deployment) {
+      return this.reply(
+        'destroy_not_available',
+        "I couldn't find a deployment of yours to remove. Name the deployment, for example 'destroy dep-...'.",
+      );
+    }
+
+    const lookup = await this.teardown.preview(
+      deployment.id,
+      cloudState.userId,
+    );
+    if (!lookup.ok) {
+      return this.reply('destroy_refused', lookup.message, {
+        deploymentId: deployment.id,
+        reason: lookup.reason,
+      });
+    }
+    // The next message has to be the resource name; see continueTeardown
+    return this.reply(
+      'destroy_confirmation',
+      this.describeTeardown(lookup.teardown),
+      {
+        deploymentId: deployment.id,
+        confirmName: lookup.teardown.confirmName,
+        resources: lookup.teardown.resources,
+        existing: lookup.teardown.existing,
+      },
+    );
+  }
+
+  private approvalsNode(): CloudStateUpdate {
+    const pending = this.approvals.list({ status: 'pending_approval' });
+    if (pending.length === 0) {
+      return this.reply('approvals', 'Nothing is waiting for approval.', {
+        approvals: [],
+      });
+    }
+
+    const lines = [
+      `${pending.length} deployment${pending.length === 1 ? ' is' : 's are'} waiting for approval:`,
+      '',
+      '| Request | Requested by | Service | Why | Monthly cost |',
+      '| --- | --- | --- | --- | --- |',
+      ...pending.map(
+        ({ id, requestedBy, plan, rules }) =>
+          `| ${id} | ${requestedBy} | ${plan.serviceName} on ${plan.csp.toUpperCase()}${plan.deploymentId ? ` (change to ${plan.deploymentId})` : ''} | ${rules.join(', ')} | ${plan.estimatedCost ? formatEstimate(plan.estimatedCost) : 'unknown'} |`,
+      ),
+      '',
+      "Reply 'approve <request>' or 'reject <request> because ...'.",
+    ];
+    return this.reply('approvals', lines.join('\n'), { approvals: pending });
+  }
+
+  private describeTeardown({
+    deployment,
+    confirmName,
+    resources,
+    existing,
+  }: TeardownPreview): string {
+    const lines = [
+      `This will permanently delete ${deployment.serviceName} **${confirmName}** on ${deployment.csp.toUpperCase()} (${deployment.id}).`,
+    ];
+    if (resources.length > 0) {
+      lines.push(
+        '',
+        '| Resource | Type |',
+        '| --- | --- |',
+        ...resources.map(
+          (resource) => `| ${resource.name} | ${resource.type} |`,
+        ),
+      );
+    }
+    if (existing.length > 0) {
+      lines.push(
+        '',
+        `In your account that is ${existing.map((resource) => `${resource.id} (${resource.region}, ${resource.state})`).join(', ')}.`,
+      );
+    }
+    lines.push(
+      '',
+      `Type **${confirmName}** to confirm. Anything else leaves it in place.`,
+    );
+    return lines.join('\n');
+  }
+
+  private describeConfiguration(
+    deployment: DeploymentRecord,
+    service: ServiceConfig,
+  ): string {
+    const rows = service.requiredFields
+      .filter((field) => !isEmpty(deployment.formData[field.fieldId]))
+      .map(
+        (field) =>
+          `| ${field.fieldName} | ${deployment.formData[field.fieldId]} | ${field.mutable ? 'yes' : 'no'} |`,
+      );
+    const changeable = mutableFields(service.requiredFields).map(
+      (field) => field.fieldName,
+    );
+    return [
+      `Here is the current configuration of ${deployment.serviceName} on ${deployment.csp.toUpperCase()} (${deployment.id}):`,
+      '',
+      '| Setting | Value | Can change |',
+      '| --- | --- | --- |',
+      ...rows,
+      '',
+      `Tell me what to change. You can change: ${changeable.join(', ')}.`,
+    ].join('\n');
+  }
+
+  private terraformExportNode(cloudState: CloudState): CloudStateUpdate {
+    const subject = this.findServiceInContext(cloudState);
+    if (!subject || !hasTerraformSupport(subject.service)) {
+      return this.reply(
+        'terraform_not_available',
+        "Which service would you like as Terraform? For example: 'Terraform for a virtual machine on AWS'.",
+      );
+    }
+
+    const terraform = generateTerraformModule(
+      subject.service,
+      subject.formData,
+    );
+    return this.reply(
+      'terraform_generated',
+      `Here is ${subject.service.name} on ${subject.service.cloud.toUpperCase()} as a Terraform module. Save the files into a directory and run \`terraform init\` followed by \`terraform apply\`.\n\n\`\`\`hcl\n${terraform.files['main.tf']}\`\`\``,
+      {
+        service: {
+          id: subject.service.id,
+          name: subject.service.name,
+          cloud: subject.service.cloud,
+        },
+        terraform,
+        download: `/services/${subject.service.id}/terraform`,
+      },
+    );
+  }
+
+  private costEstimateNode(cloudState: CloudState): CloudStateUpdate {
+    // Prices come from the pricing catalog, never from the LLM
+    const estimates = this.estimateCosts(cloudState);
+    if (estimates.length === 0) {
+      return this.reply(
+        'cost_estimate_unavailable',
+        "I don't have pricing for that yet. Which service and cloud provider would you like an estimate for? For example: 'How much does a virtual machine cost on AWS vs Azure?'",
+      );
+    }
+    return this.reply('cost_estimate', this.describeEstimates(estimates), {
+      estimates: estimates.map(({ service, estimate }) => ({
+        service: { id: service.id, name: service.name },
+        ...estimate,
+      })),
+    });
+  }
+
+  private translateServiceNode(cloudState: CloudState): CloudStateUpdate {
+    const subject = this.findServiceInContext(cloudState);
+    if (!subject) {
+      return this.reply(
+        'translation_not_available',
+        "Which service would you like to move, and to which cloud provider? For example: 'What is the Azure equivalent of an AWS virtual machine?'",
+      );
+    }
+
+    const { service, formData } = subject;
+    const targetCsp: unknown = cloudState.action?.payload?.targetCsp;
+    const cloud = typeof targetCsp === 'string' ? targetCsp.toLowerCase() : '';
+    if (!cloud || cloud === service.cloud) {
+      const { equivalents } = this.translator.equivalents(service);
+      return this.reply(
+        'service_equivalents',
+        equivalents.length
+          ? `${service.name} on ${service.cloud.toUpperCase()} is also offered as:\n${equivalents
+              .map(
+                (other) =>
+                  `- **${other.cloud.toUpperCase()}**: ${other.nativeName || other.name}`,
+              )
+              .join(
+                '\n',
+              )}\n\nWhich cloud provider would you like to move it to?`
+          : `${service.name} is only offered on ${service.cloud.toUpperCase()}.`,
+        { service: toServiceRef(service), equivalents },
+      );
+    }
+
+    const target = this.translator.equivalentOn(service, cloud);
+    if (!target) {
+      return this.reply(
+        'translation_not_available',
+        `There is no ${cloud.toUpperCase()} equivalent of ${service.name} in the catalog yet.`,
+      );
+    }
+
+    const translation = this.translator.translate(service, target, formData);
+    return this.reply(
+      'service_translated',
+      this.describeTranslation(translation, Object.keys(formData).length > 0),
+      {
+        // Lets follow-ups such as "deploy it" or "as Terraform" pick it up
+        service: { id: target.id, name: target.name, cloud: target.cloud },
+        formData: translation.formData,
+        translation,
+      },
+    );
+  }
+
+  private describeTranslation(
+    translation: CrossCloudTranslation,
+    hasValues: boolean,
+  ): string {
+    const { source, target } = translation;
+    const lines = [
+      `The ${target.cloud.toUpperCase()} equivalent of ${source.nativeName || source.name} is **${target.nativeName || target.name}**.`,
+    ];
+    if (!hasValues) {
+      lines.push(
+        `Tell me the settings you use on ${source.cloud.toUpperCase()} and I can translate them.`,
+      );
+      return lines.join('\n\n');
+    }
+
+    const status = {
+      mapped: 'Mapped',
+      approximate: 'Check',
+      manual: 'Enter by hand',
+    };
+    lines.push(
+      [
+        '| Field | Value | Status |',
+        '| --- | --- | --- |',
+        ...translation.fields.map(
+          (field) =>
+            `| ${field.fieldName} | ${field.value ?? '-'} | ${status[field.status]}${field.note ? `: ${field.note}` : ''} |`,
+        ),
+      ].join('\n'),
+    );
+    if (translation.dropped.length) {
+      lines.push(
+        `Not carried over:\n${translation.dropped
+          .map(
+            (field) =>
+              `- ${field.fieldId} (${String(field.value)}): ${field.note}`,
+          )
+          .join('\n')}`,
+      );
+    }
+    lines.push(
+      ...translation.warnings.map((warning) => `**Note:** ${warning}`),
+    );
+    return lines.join('\n\n');
+  }
+
+  private cspOptionsNode(): CloudStateUpdate {
+    const cspOptions = ['AWS', 'Azure', 'GCP', 'Oracle Cloud'];
+    const availableServicesPerCsp = {};
+
+    cspOptions.forEach((cspOption) => {
+      const cspLower = cspOption.toLowerCase().replace(' cloud', '');
+      availableServicesPerCsp[cspOption] = this.catalog
+        .getAvailable()
+        .filter((s) => s.cloud === cspLower)
+        .map((s) => s.name);
+    });
+
+    return this.reply(
+      'csp_options_shown',
+      'Here are the available cloud service providers:',
+      { cspOptions, availableServicesPerCsp },
+    );
+  }
+
+  // Helper method to find a service by name
+  private findMatchingServiceByName(
+    serviceName: string,
+    csp: string | null,
+  ): ServiceConfig | null {
+    // Only a clear winner counts; close calls are left to the caller to clarify
+    return resolveService(
+      this.catalog.getAvailable(),
+      serviceName,
+      csp?.trim() || 'aws',
+    ).match;
+  }
+
+  // Helper: work out which service "this" refers to in a follow-up request,
+  // along with any values the user already entered for it
+  private findServiceInContext(
+    cloudState: CloudState,
+  ): { service: ServiceConfig; formData: Record<string, unknown> } | null {
+    const { action, csp, conversationHistory } = cloudState;
+    const named = action?.payload?.service
+      ? this.findMatchingServiceByName(
+          action.payload.service,
+          action.payload.csp || csp,
+        )
+      : null;
+
+    for (const entry of [...conversationHistory].reverse()) {
+      const response = entry.role === 'assistant' && entry.content?.response;
+      if (!response) continue;
+
+      // Deployments and plans both name the service and the values entered
+      const deployment = response.deploymentId
+        ? this.deploymentRegistry.get(response.deploymentId)
+        : (response.plan as DeploymentPlan | undefined);
+      const service = deployment
+        ? this.findMatchingServiceByName(deployment.serviceName, deployment.csp)
+        : response.service?.name && response.service?.cloud
+          ? this.findMatchingServiceByName(
+              response.service.name,
+              response.service.cloud,
+            )
+          : null;
+      if (!service || (named && service !== named)) continue;
+
+      return {
+        service,
+        formData: deployment?.formData || response.formData || {},
+      };
+    }
+
+    return named ? { service: named, formData: {} } : null;
+  }
+
+  // Helper: price the requested service on each provider the user asked about.
+  // Values already entered for the service under discussion are taken into account.
+  private estimateCosts(
+    cloudState: CloudState,
+  ): Array<{ service: ServiceConfig; estimate: CostEstimate }> {
+    const { action, csp } = cloudState;
+    const subject = this.findServiceInContext(cloudState);
+    const serviceName = action?.payload?.service || subject?.service.name;
+    if (!serviceName) return [];
+
+    const requested: string[] = Array.isArray(action?.payload?.csps)
+      ? action.payload.csps
+      : [];
+    const clouds = requested.length
+      ? requested
+      : [action?.payload?.csp || subject?.service.cloud || csp || 'aws'];
+
+    return [...new Set(clouds.map((cloud) => cloud.toLowerCase()))].flatMap(
+      (cloud) => {
+        const service = this.findMatchingServiceByName(serviceName, cloud);
+        const formData =
+          subject && subject.service === service ? subject.formData : {};
+        const estimate = service
+          ? this.costEstimator.estimate(service, formData)
+          : null;
+        return service && estimate ? [{ service, estimate }] : [];
+      },
+    );
+  }
+
+  private describeEstimates(
+    estimates: Array<{ service: ServiceConfig; estimate: CostEstimate }>,
+  ): string {
+    const money = (amount: number | null, currency: string) =>
+      amount === null
+        ? 'n/a'
+        : new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+          }).format(amount);
+
+    if (estimates.length === 1) {
+      const [{ service, estimate }] = estimates;
+      const rows = estimate.lineItems.map(
+        (item) =>
+          `| ${item.name} | ${item.sku} | ${item.quantity}${item.unit === 'gb-month' ? ' GB' : ''} | ${money(item.monthly, estimate.currency)} |`,
+      );
+      return [
+        `**${service.name} on ${service.cloud.toUpperCase()}** is estimated at **${formatEstimate(estimate)}**.`,
+        '',
+        '| Item | SKU | Quantity | Monthly |',
+        '| --- | --- | --- | --- |',
+        ...rows,
+        ...estimate.warnings.map((warning) => `\n_${warning}_`),
+      ].join('\n');
+    }
+
+    const sorted = [...estimates].sort(
+      (a, b) => a.estimate.monthly - b.estimate.monthly,
+    );
+    const rows = sorted.map(
+      ({ service, estimate }) =>
+        `| ${service.cloud.toUpperCase()} | ${service.name} | ${estimate.region} | ${estimate.lineItems.map((item) => item.sku).join(', ') || '-'} | ${money(estimate.monthly, estimate.currency)} |`,
+    );
+    return [
+      `Estimated monthly cost of **${sorted[0].service.name}** with the default sizes:`,
+      '',
+      '| Cloud | Service | Region | SKUs | Monthly |',
+      '| --- | --- | --- | --- | --- |',
+      ...rows,
+      '',
+      `**${sorted[0].service.cloud.toUpperCase()}** is the cheapest option.`,
+    ].join('\n');
+  }
+
+  private async generateUnifiedResponse(
+    cloudState: CloudState,
+    emit?: AgentEventEmitter,
+  ): Promise<CloudState> {
+    const { action, response, query, conversationHistory, csp } = cloudState;
+
+    // History questions were routed through the summary node, which set the action
+    const isConversationHistoryQuery = action?.type === 'CONVERSATION_SUMMARY';
+
+    // If we already have a processed response for conversation summary, just return it
+    if (
+      action &&
+      action.type === 'CONVERSATION_SUMMARY' &&
+      response &&
+      (response.previousQuestions || response.questionCount)
+    ) {
+      return {
+        ...cloudState,
+        finalResponse: {
+          role: 'assistant',
+          workflow: 'conversationSummary',
+          response: {
+            message: response.message,
+            ...response,
+            menu: this.getMenuForCSP(csp || 'aws', true),
+          },
+        },
+      };
+    }
+
+    // Check if we have a custom message from the action node
+    if (response && response.customMessage) {
       return {
         ...cloudState,
         finalResponse: {
@@ -767,15 +1582,16 @@ export class AgentService {
 
     // Check if we have a service configuration response
     if (response && response.status === 'service_found') {
-      console.log('Using service_found response');
       return {
         ...cloudState,
         finalResponse: {
           role: 'assistant',
           workflow: 'serviceConfiguration',
           response: {
-            message: `To provision ${response.service.name} on ${response.service.cloud.toUpperCase()}, please provide the following information:`,
+            message: `To provision ${response.service.name} on ${response.service.cloud.toUpperCase()}, please provide the following information.${response.question ? ` ${response.question}` : ''}`,
             service: response.service,
+            collected: response.collected,
+            nextField: response.nextField,
             details: response.details,
             menu: this.getMenuForCSP(csp || 'aws', true),
           },
@@ -848,20 +1664,17 @@ export class AgentService {
       new HumanMessage(String(query)),
     ];
 
-    console.log('Sending payload to LLM for unified response');
     try {
-      console.log(`Processing query for unified response: "${query}"`);
-      const llmResponse = await this.llm.invoke(messagePayload);
+      const responseContent =
+        emit && !isConversationHistoryQuery
+          ? await this.streamAnswer(messagePayload, emit)
+          : await this.llm.invoke(messagePayload);
 
       try {
-        const responseContent = String(llmResponse.content);
-        console.log('Raw LLM response:', responseContent);
-
         let parsedResponse;
         try {
           // Try to parse the response as JSON
           parsedResponse = JSON.parse(responseContent);
-          console.log('Parsed response:', parsedResponse);
 
           // For conversation history queries, handle structured responses
           if (
@@ -878,9 +1691,6 @@ export class AgentService {
               );
             }
 
-            console.log(
-              'Using structured conversation summary response from LLM',
-            );
             return {
               ...cloudState,
               finalResponse: parsedResponse,
@@ -903,7 +1713,6 @@ export class AgentService {
               );
             }
 
-            console.log('Using structured response directly');
             return {
               ...cloudState,
               finalResponse: parsedResponse,
@@ -944,33 +1753,7 @@ export class AgentService {
         }
 
         // Create appropriate workflow type based on action
-        let workflowType = 'generalResponse';
-        if (isConversationHistoryQuery) {
-          workflowType = 'conversationSummary';
-        } else if (action) {
-          switch (action.type) {
-            case 'GENERAL_RESPONSE':
-              workflowType = 'generalResponse';
-              break;
-            case 'DEPLOY':
-              workflowType = 'deployService';
-              break;
-            case 'CONFIGURE':
-              workflowType = 'configureService';
-              break;
-            case 'LIST_RESOURCES':
-              workflowType = 'listResources';
-              break;
-            case 'VIEW_CSP_OPTIONS':
-              workflowType = 'viewCspOptions';
-              break;
-            case 'SELECT_CSP':
-              workflowType = 'selectCsp';
-              break;
-            default:
-              workflowType = 'generalResponse';
-          }
-        }
+        const workflowType = this.workflowForAction(action?.type);
 
         // Extract details from the action payload or response
         let msgCsp = csp;
@@ -1035,6 +1818,21 @@ export class AgentService {
     }
   }
 
+  // Helper: stream the LLM response, forwarding the "answer" text as tokens
+  private async streamAnswer(
+    messagePayload: BaseMessage[],
+    emit: AgentEventEmitter,
+  ): Promise<string> {
+    const answerStream = new JsonStringFieldStream('answer');
+    for await (const chunk of this.llm.stream(messagePayload)) {
+      const text = answerStream.push(chunk);
+      if (text) {
+        emit({ type: 'token', data: { text } });
+      }
+    }
+    return answerStream.raw;
+  }
+
   // Helper method to create error responses
   private createErrorResponse(
     cloudState: CloudState,
@@ -1055,9 +1853,10 @@ export class AgentService {
 
   // Helper: Generate menu for a given CSP
   private getMenuForCSP(csp: string, friendly = false): string[] {
-    if (!this.servicesData) return ['No services data available.'];
     const cspLower = csp.toLowerCase();
-    const services = this.servicesData.list.filter((s) => s.cloud === cspLower);
+    const services = this.catalog
+      .getAvailable()
+      .filter((s) => s.cloud === cspLower);
     let menu: string[] = [];
     if (friendly) {
       menu = services.map((service) => `Provision or manage a ${service.name}`);
@@ -1090,115 +1889,152 @@ export class AgentService {
     return menu;
   }
 
-  // Helper: List AWS security groups
-  private async listAWSSecurityGroups(): Promise<string> {
-    // You may want to configure credentials/region here or use environment variables
-    const ec2 = new AWS.EC2();
-    try {
-      const result = await ec2.describeSecurityGroups().promise();
-      if (!result.SecurityGroups || result.SecurityGroups.length === 0) {
-        return 'No security groups found.';
+  // Helper: Load one of a user's conversation threads, or start it
+  private async loadUserConversation(
+    userId: string,
+    threadId: string,
+    csp: string,
+  ): Promise<Conversation> {
+    return (
+      (await this.conversationStore.get(userId, threadId)) || {
+        csp,
+        history: [],
       }
-      let output = 'Here are your AWS security groups:\n';
-      result.SecurityGroups.forEach((sg, idx) => {
-        output += `${idx + 1}. ${sg.GroupName} (ID: ${sg.GroupId})\n`;
-      });
-      return output;
-    } catch (err) {
-      return `Error retrieving security groups: ${err}`;
-    }
+    );
   }
 
-  // Helper: Load all conversations from file
-  private loadAllConversationsFromFile(): Record<string, any> {
-    try {
-      if (conversationFs.existsSync(this.conversationFilePath)) {
-        const content = conversationFs.readFileSync(
-          this.conversationFilePath,
-          'utf8',
-        );
-        return JSON.parse(content);
-      }
-    } catch (e) {
-      console.error('Error loading conversation.json:', e);
+  // Helper: Persist the entries added to a conversation during this turn,
+  // titling the thread after its first message
+  private async saveUserConversation(
+    userId: string,
+    threadId: string,
+    conversation: Conversation,
+    persistedLength: number,
+  ) {
+    const patch: ConversationPatch = { csp: conversation.csp };
+    if (conversation.draft !== undefined) patch.draft = conversation.draft;
+    const first = conversation.history.find(
+      (entry) => entry.role === 'human' && typeof entry.content === 'string',
+    );
+    if (!conversation.title && first) {
+      patch.title = titleFromMessage(first.content);
     }
-    return {};
-  }
 
-  // Helper: Save all conversations to file
-  private saveAllConversationsToFile(conversations: Record<string, any>) {
     try {
-      // Ensure the file exists before writing
-      if (!conversationFs.existsSync(this.conversationFilePath)) {
-        conversationFs.writeFileSync(this.conversationFilePath, '{}', 'utf8');
-      }
-      conversationFs.writeFileSync(
-        this.conversationFilePath,
-        JSON.stringify(conversations, null, 2),
-        'utf8',
+      await this.conversationStore.append(
+        userId,
+        conversation.history.slice(persistedLength),
+        patch,
+        threadId,
       );
     } catch (e) {
-      console.error('Error saving conversations.json:', e);
-    }
-  }
-
-  // Helper: Save/update a single user's conversation
-  private saveUserConversation(userId: string, conversation: any) {
-    let allConversations: Record<string, any> = {};
-    try {
-      allConversations = this.loadAllConversationsFromFile();
-    } catch (e) {
-      allConversations = {};
+      console.error(`Error saving conversation for ${userId}:`, e);
     }
-    // Always overwrite the user's conversation with the in-memory version
-    allConversations[userId] = conversation;
-    this.saveAllConversationsToFile(allConversations);
   }
 
-  private getISTTimestamp(): string {
-    const now = new Date();
-    return new Intl.DateTimeFormat('en-IN', {
-      timeZone: 'Asia/Kolkata',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true,
-    }).format(now);
+  /**
+   * Streaming variant of processMessage: emits node progress and answer tokens
+   * while the workflow runs, then the final response envelope.
+   */
+  streamMessage(
+    message: string,
+    user: Principal | string,
+    csp?: string,
+    fields?: any,
+    threadId: string = DEFAULT_THREAD_ID,
+  ): Observable<AgentStreamEvent> {
+    return new Observable<AgentStreamEvent>((subscriber) => {
+      this.processMessage(
+        message,
+        user,
+        csp,
+        fields,
+        (event) => subscriber.next(event),
+        threadId,
+      )
+        .then((finalResponse) => {
+          subscriber.next({ type: 'final', data: finalResponse });
+          subscriber.complete();
+        })
+        .catch((error: Error) => {
+          subscriber.next({ type: 'error', data: { message: error.message } });
+          subscriber.complete();
+        });
+    });
   }
 
   async processMessage(
     message: string,
-    userId: string,
+    user: Principal | string,
     csp?: string,
     fields?: any,
-  ) {
-    if (!userId) {
+    emit?: AgentEventEmitter,
+    threadId: string = DEFAULT_THREAD_ID,
+  ): Promise<AgentReply> {
+    const principal = toPrincipal(user);
+    if (!principal.userId) {
       throw new Error('User ID is required');
     }
 
-    console.log('Processing message:', message);
-    console.log('Fields:', fields);
+    // Over the request rate nothing else runs, not even a plan confirmation
+    const rate = this.usage.checkRequest(principal.userId);
+    if (!rate.ok) {
+      return this.limitResponse(principal, rate, csp);
+    }
+    // LLM calls made during the turn are charged to the caller
+    return this.usage.runAs(principal.userId, () =>
+      this.handleMessage(message, principal, csp, fields, emit, threadId),
+    );
+  }
+
+  private async handleMessage(
+    message: string,
+    principal: Principal,
+    csp: string | undefined,
+    fields: any,
+    emit: AgentEventEmitter | undefined,
+    threadId: string,
+  ): Promise<AgentReply> {
+    const { userId } = principal;
+
+    // --- Handle an approver's decision on a held deployment ---
+    const approvalId = message.match(/\bapr-[0-9a-f-]{36}\b/i)?.[0];
+    if (approvalId && /\b(approve|reject|deny|decline)/i.test(message)) {
+      return this.replyToApproval(
+        message,
+        principal,
+        threadId,
+        approvalId,
+        csp,
+      );
+    }
+
+    // --- Handle replies to a deployment plan ---
+    const planToken: string | undefined =
+      fields?.planToken || message.match(/\bplan-[0-9a-f-]{36}\b/i)?.[0];
+    if (planToken) {
+      return this.replyToDeploymentPlan(
+        message,
+        principal,
+        threadId,
+        planToken,
+        csp,
+      );
+    }
 
     // --- Handle Deployment Requests with Form Data ---
     if (fields && fields.formData) {
-      console.log('Detected form data for deployment');
-
       // Initialize or get user conversation
-      if (!this.conversations.has(userId)) {
-        this.conversations.set(userId, {
-          csp: csp?.toLowerCase() || 'aws',
-          history: [],
-        });
-      }
-
-      const userConversation = this.conversations.get(userId);
+      const userConversation = await this.loadUserConversation(
+        userId,
+        threadId,
+        csp?.toLowerCase() || 'aws',
+      );
+      const persistedLength = userConversation.history.length;
       userConversation.history.push({
         role: 'human',
         content: message,
-        timestamp: this.getISTTimestamp(),
+        timestamp: new Date().toISOString(),
       });
 
       // Get the service name from the action
@@ -1210,7 +2046,8 @@ export class AgentService {
           /deploy\s+(?:a|an)?\s*([a-zA-Z0-9\s]+)(?:\s+in|\s+on)?\s+([a-zA-Z0-9]+)?/i,
         );
         if (deployMatches && deployMatches.length > 1) {
-          serviceName = deployMatches[1].trim();
+          // The service group also swallows the "on"/"in" before the CSP
+          serviceName = deployMatches[1].trim().replace(/\s+(?:in|on)$/i, '');
           // If no csp provided in fields but mentioned in message, use it
           if (!csp && deployMatches.length > 2 && deployMatches[2]) {
             csp = deployMatches[2].trim().toLowerCase();
@@ -1224,46 +2061,160 @@ export class AgentService {
       }
 
       const currentCSP = csp || userConversation.csp || 'aws';
-      console.log(`Attempting to deploy ${serviceName} on ${currentCSP}`);
 
-      // Look up the service config in our services.json
+      // Look up the service config in the catalog
       const matchingService = this.findMatchingServiceByName(
         serviceName,
         currentCSP,
       );
 
-      let template = fields.template;
-      // If a template wasn't provided, try to create one based on the service
-      if (!template && matchingService) {
-        try {
-          template = this.generateTemplateForService(
-            matchingService,
-            fields.formData,
-          );
-        } catch (templateError) {
-          console.error('Error generating template:', templateError);
-        }
+      // Only catalog services that are enabled can be planned
+      if (!matchingService) {
+        const notFoundResponse = {
+          role: 'assistant',
+          workflow: 'service_not_found',
+          response: {
+            message: `Sorry, the ${serviceName} service is currently not available to provision in ${currentCSP.toUpperCase()}. Please select from the available services.`,
+            availableServices: this.catalog
+              .getAvailable()
+              .filter((s) => s.cloud === currentCSP.toLowerCase())
+              .map((s) => s.name),
+            menu: this.getMenuForCSP(currentCSP, true),
+          },
+        };
+        userConversation.history.push({
+          role: 'assistant',
+          content: notFoundResponse,
+          timestamp: new Date().toISOString(),
+        });
+        await this.saveUserConversation(
+          userId,
+          threadId,
+          userConversation,
+          persistedLength,
+        );
+        this.auditTurn(principal, 'SUBMIT_FORM', notFoundResponse, {
+          service: serviceName,
+          csp: currentCSP,
+        });
+        return notFoundResponse;
       }
 
-      // Call deployment tool
-      const deploymentResult = await this.deployTool.deployService({
-        serviceName: matchingService ? matchingService.name : serviceName,
-        csp: currentCSP,
-        userId,
-        formData: fields.formData,
-        template: template,
-      });
+      // Reject the submission before deploying if any field breaks its validation rules
+      const validationErrors = validateFormData(
+        toValidatableFields(
+          resolveFields(matchingService.requiredFields, fields.formData),
+        ),
+        fields.formData,
+      );
+      if (validationErrors.length > 0) {
+        const validationResponse = {
+          role: 'assistant',
+          workflow: 'validation_failed',
+          response: {
+            message: `Please fix the following fields before deploying ${matchingService.name}:`,
+            errors: validationErrors,
+            service: {
+              name: matchingService.name,
+              cloud: matchingService.cloud,
+            },
+            formData: fields.formData,
+            menu: this.getMenuForCSP(currentCSP, true),
+          },
+        };
+
+        userConversation.history.push({
+          role: 'assistant',
+          content: validationResponse,
+          timestamp: new Date().toISOString(),
+        });
+        await this.saveUserConversation(
+          userId,
+          threadId,
+          userConversation,
+          persistedLength,
+        );
+        this.auditTurn(principal, 'SUBMIT_FORM', validationResponse, {
+          service: matchingService.name,
+          csp: currentCSP,
+        });
+        return validationResponse;
+      }
+
+      if (!hasRole(principal, 'deployer')) {
+        const forbiddenResponse = {
+          role: 'assistant',
+          workflow: 'forbidden',
+          response: {
+            message: ROLE_REQUIRED.deployer,
+            menu: this.getMenuForCSP(currentCSP, true),
+          },
+        };
+        userConversation.history.push({
+          role: 'assistant',
+          content: forbiddenResponse,
+          timestamp: new Date().toISOString(),
+        });
+        await this.saveUserConversation(
+          userId,
+          threadId,
+          userConversation,
+          persistedLength,
+        );
+        this.auditTurn(principal, 'SUBMIT_FORM', forbiddenResponse, {
+          service: matchingService.name,
+          csp: currentCSP,
+        });
+        return forbiddenResponse;
+      }
+
+      // Nothing is deployed yet: the user reviews the plan and confirms its token
+      let plan: DeploymentPlan;
+      try {
+        plan = this.createDeploymentPlan(
+          matchingService,
+          matchingService.name,
+          fields.formData,
+          userId,
+          threadId,
+          currentCSP,
+        );
+      } catch (error) {
+        console.error('Error creating deployment plan:', error);
+        const failedResponse = {
+          role: 'assistant',
+          workflow: 'plan_failed',
+          response: {
+            message: `I couldn't render the ${matchingService.name} template, so there is no plan to confirm. Please try again later.`,
+            menu: this.getMenuForCSP(currentCSP, true),
+          },
+        };
+        userConversation.history.push({
+          role: 'assistant',
+          content: failedResponse,
+          timestamp: new Date().toISOString(),
+        });
+        await this.saveUserConversation(
+          userId,
+          threadId,
+          userConversation,
+          persistedLength,
+        );
+        this.auditTurn(principal, 'SUBMIT_FORM', failedResponse, {
+          service: matchingService.name,
+          csp: currentCSP,
+        });
+        return failedResponse;
+      }
+      // A submitted form replaces any fields still being collected in chat
+      userConversation.draft = null;
 
-      // Create response object
       const responseObj = {
         role: 'assistant',
-        workflow: 'deployment',
+        workflow: 'deployment_plan',
         response: {
-          message: deploymentResult.success
-            ? `Deployment of ${serviceName} has been initiated successfully.`
-            : `Failed to deploy ${serviceName}: ${deploymentResult.message}`,
-          details: deploymentResult.details,
-          deploymentId: deploymentResult.deploymentId,
+          message: this.describePlan(plan),
+          plan,
           menu: this.getMenuForCSP(currentCSP, true),
         },
       };
@@ -1272,15 +2223,36 @@ export class AgentService {
       userConversation.history.push({
         role: 'assistant',
         content: responseObj,
-        timestamp: this.getISTTimestamp(),
+        timestamp: new Date().toISOString(),
       });
 
       // Save updated conversation
-      this.saveUserConversation(userId, userConversation);
+      await this.saveUserConversation(
+        userId,
+        threadId,
+        userConversation,
+        persistedLength,
+      );
+      this.auditTurn(principal, 'SUBMIT_FORM', responseObj, {
+        service: plan.serviceName,
+        csp: plan.csp,
+        planToken: plan.token,
+      });
       return responseObj;
     }
 
-    // --- Determine CSP: message CSP > request body CSP > conversation CSP > default ---
+    // Everything from here on goes through the LLM
+    const budget = this.usage.checkLlmTokens(userId);
+    if (!budget.ok) {
+      return this.limitResponse(principal, budget, csp);
+    }
+
+    const existingConversation = await this.conversationStore.get(
+      userId,
+      threadId,
+    );
+
+    // --- Determine CSP: message CSP > request body CSP > conversation CSP > default ---
     let userCSP = csp;
     // Check if message explicitly mentions a CSP
     const cspRegex = /(aws|azure|gcp|oracle)/i;
@@ -1289,8 +2261,8 @@ export class AgentService {
       userCSP = cspInMessage;
     } else if (csp) {
       userCSP = csp.toLowerCase();
-    } else if (this.conversations.has(userId)) {
-      userCSP = this.conversations.get(userId).csp || userCSP;
+    } else if (existingConversation) {
+      userCSP = existingConversation.csp || userCSP;
     } else {
       userCSP = 'aws';
     }
@@ -1299,38 +2271,84 @@ export class AgentService {
     if (!userCSP) userCSP = 'aws';
 
     // Initialize or get user conversation
-    if (!this.conversations.has(userId)) {
-      this.conversations.set(userId, {
-        csp: userCSP,
-        history: [],
-      });
-    }
-
-    const userConversation = this.conversations.get(userId);
+    const userConversation = existingConversation || {
+      csp: userCSP,
+      history: [],
+    };
+    const persistedLength = userConversation.history.length;
     userConversation.history.push({
       role: 'human',
       content: message,
-      timestamp: this.getISTTimestamp(),
+      timestamp: new Date().toISOString(),
     });
 
+    // --- Confirm a teardown, or continue collecting fields for a deployment in progress ---
+    const teardownResponse = await this.continueTeardown(
+      userConversation,
+      message,
+      principal,
+    );
+    const pendingResponse =
+      teardownResponse ||
+      (userConversation.draft
+        ? await this.continueDraft(userConversation, message, userId, threadId)
+        : null);
+    if (pendingResponse) {
+      userConversation.history.push({
+        role: 'assistant',
+        content: pendingResponse,
+        timestamp: new Date().toISOString(),
+      });
+      await this.saveUserConversation(
+        userId,
+        threadId,
+        userConversation,
+        persistedLength,
+      );
+      this.auditTurn(
+        principal,
+        teardownResponse ? 'DESTROY' : 'DEPLOY',
+        pendingResponse,
+        {
+          csp: userConversation.csp,
+          deploymentId: teardownResponse?.response.deploymentId,
+        },
+      );
+      return pendingResponse;
+    }
+
     // Pass the full conversation history to the cloudState for context-aware responses
     let cloudState: CloudState = {
+      userId,
+      threadId,
+      roles: principal.roles,
       conversationHistory: userConversation.history,
       query: message,
       action: null,
       csp: userCSP,
       response: null,
+      finalResponse: null,
+      event: undefined,
+      draft: undefined,
     };
 
     try {
       // Use the compiled workflow for processing - no more analyzeInput
-      cloudState = await this.workflow.invoke(cloudState);
+      cloudState = await this.workflow.invoke(cloudState, {
+        configurable: { emit },
+      });
 
       // Get the final response
       const finalResponse = cloudState.finalResponse;
+      if (!finalResponse) {
+        throw new Error('The workflow finished without a response');
+      }
+      if (cloudState.draft !== undefined) {
+        userConversation.draft = cloudState.draft;
+      }
 
       // Always add menu to the response if it exists
-      if (finalResponse && finalResponse.response) {
+      if (finalResponse.response) {
         finalResponse.response.menu = this.getMenuForCSP(
           cloudState.csp || 'aws',
           true,
@@ -1341,11 +2359,21 @@ export class AgentService {
       userConversation.history.push({
         role: 'assistant',
         content: finalResponse,
-        timestamp: this.getISTTimestamp(),
+        timestamp: new Date().toISOString(),
       });
 
-      // After updating userConversation.history, persist to file
-      this.saveUserConversation(userId, userConversation);
+      // After updating userConversation.history, persist this turn
+      await this.saveUserConversation(
+        userId,
+        threadId,
+        userConversation,
+        persistedLength,
+      );
+      const service = finalResponse.response?.service;
+      this.auditTurn(principal, cloudState.action?.type, finalResponse, {
+        service: typeof service === 'string' ? service : service?.name,
+        csp: cloudState.csp || undefined,
+      });
 
       return finalResponse;
     } catch (error) {
@@ -1363,98 +2391,990 @@ export class AgentService {
       userConversation.history.push({
         role: 'assistant',
         content: errorResponse,
-        timestamp: this.getISTTimestamp(),
+        timestamp: new Date().toISOString(),
       });
 
-      this.saveUserConversation(userId, userConversation);
+      await this.saveUserConversation(
+        userId,
+        threadId,
+        userConversation,
+        persistedLength,
+      );
+      this.auditTurn(principal, cloudState.action?.type, errorResponse, {
+        csp: userCSP,
+      });
       return errorResponse;
     }
   }
 
+  // Confirms (deploying it) or cancels a plan created by an earlier form submission
+  private async replyToDeploymentPlan(
+    message: string,
+    principal: Principal,
+    threadId: string,
+    planToken: string,
+    csp?: string,
+  ) {
+    const { userId } = principal;
+    const userConversation = await this.loadUserConversation(
+      userId,
+      threadId,
+      csp?.toLowerCase() || 'aws',
+    );
+    const persistedLength = userConversation.history.length;
+    userConversation.history.push({
+      role: 'human',
+      content: message,
+      timestamp: new Date().toISOString(),
+    });
+    const currentCSP = csp || userConversation.csp || 'aws';
+
+    const cancelling = /\b(cancel|discard|abort|reject)\b/i.test(message);
+    // Checked before the lookup so a refused confirmation leaves the plan pending
+    const allowed = cancelling || hasRole(principal, 'deployer');
+    // Changes to an existing deployment don't count towards the deployment quota
+    const quota =
+      cancelling || this.deploymentPlans.get(planToken)?.deploymentId
+        ? null
+        : this.usage.checkDeployment(userId);
+    const lookup = cancelling
+      ? this.deploymentPlans.cancel(planToken, userId)
+      : allowed && quota?.ok !== false
+        ? this.deploymentPlans.confirm(planToken, userId)
+        : null;
+
+    let responseObj;
+    if (quota && !quota.ok && allowed) {
+      responseObj = {
+        role: 'assistant',
+        workflow: quota.reason,
+        response: {
+          message: quota.message,
+          scope: quota.scope,
+          limit: quota.limit,
+          retryAfterSeconds: quota.retryAfterSeconds,
+          planToken,
+          menu: this.getMenuForCSP(currentCSP, true),
+        },
+      };
+    } else if (!lookup) {
+      responseObj = {
+        role: 'assistant',
+        workflow: 'forbidden',
+        response: {
+          message: ROLE_REQUIRED.deployer,
+          planToken,
+          menu: this.getMenuForCSP(currentCSP, true),
+        },
+      };
+    } else if (!lookup.ok) {
+      responseObj = {
+        role: 'assistant',
+        workflow: 'deployment_plan_rejected',
+        response: {
+          message: this.describePlanRejection(planToken, lookup),
+          reason: lookup.reason,
+          planToken,
+          menu: this.getMenuForCSP(currentCSP, true),
+        },
+      };
+    } else if (cancelling) {
+      responseObj = {
+        role: 'assistant',
+        workflow: 'deployment_plan_cancelled',
+        response: {
+          message: lookup.plan.deploymentId
+            ? `The changes to ${lookup.plan.serviceName} (${lookup.plan.deploymentId}) have been cancelled. Nothing was changed.`
+            : `The plan to deploy ${lookup.plan.serviceName} has been cancelled. Nothing was deployed.`,
+          planToken,
+          menu: this.getMenuForCSP(currentCSP, true),
+        },
+      };
+    } else {
+      const { plan } = lookup;
+      const rules = this.approvals.rulesFor(plan);
+      if (rules.length > 0) {
+        // Held until an approver decides; see decideApproval
+        const approval = await this.approvals.request(plan, userId, rules);
+        this.audit.record({
+          type: 'approval.requested',
+          actor: this.auditActor(principal),
+          service: plan.serviceName,
+          csp: plan.csp,
+          planToken,
+          approvalId: approval.id,
+          deploymentId: plan.deploymentId,
+          outcome: approval.status,
+          message: `Held by ${approval.rules.join(', ')}`,
+        });
+        responseObj = {
+          role: 'assistant',
+          workflow: 'pending_approval',
+          response: {
+            message: `${plan.deploymentId ? `The changes to ${plan.serviceName} (${plan.deploymentId})` : `Deploying ${plan.serviceName}`} needs approval (${rules.map((rule) => rule.description || rule.name).join('; ')}). I've asked an approver to review request ${approval.id} and will let you know here once they decide.`,
+            approvalId: approval.id,
+            rules: approval.rules,
+            estimatedCost: plan.estimatedCost,
+            planToken,
+            menu: this.getMenuForCSP(plan.csp, true),
+          },
+        };
+      } else {
+        const executed = await this.executePlan(plan, principal);
+        responseObj = {
+          ...executed,
+          response: {
+            ...executed.response,
+            planToken,
+            menu: this.getMenuForCSP(plan.csp, true),
+          },
+        };
+      }
+    }
+
+    userConversation.history.push({
+      role: 'assistant',
+      content: responseObj,
+      timestamp: new Date().toISOString(),
+    });
+    await this.saveUserConversation(
+      userId,
+      threadId,
+      userConversation,
+      persistedLength,
+    );
+    this.auditTurn(
+      principal,
+      cancelling ? 'CANCEL_PLAN' : 'CONFIRM_PLAN',
+      responseObj,
+      {
+        service: lookup?.plan?.serviceName,
+        csp: lookup?.plan?.csp || currentCSP,
+        planToken,
+        deploymentId: lookup?.plan?.deploymentId,
+      },
+    );
+    return responseObj;
+  }
+
+  // Deploys a confirmed plan, or applies its changes to the deployment it edits.
+  // It runs as whoever confirmed it, even when an approver released it.
+  private async executePlan(
+    plan: DeploymentPlan,
+    principal: Principal,
+    approvalId?: string,
+  ) {
+    if (plan.deploymentId) {
+      const updateResult = await this.deployTool.updateDeployment({
+        deploymentId: plan.deploymentId,
+        formData: plan.formData,
+        template: plan.template,
+        changes: plan.changes || [],
+      });
+      this.auditDeployment(
+        'deployment.updated',
+        plan,
+        principal,
+        updateResult,
+        approvalId,
+      );
+
+      return {
+        role: 'assistant',
+        workflow: 'configuration_update',
+        response: {
+          message: updateResult.success
+            ? `The changes to ${plan.serviceName} (${plan.deploymentId}) have been submitted.`
+            : `Failed to change ${plan.serviceName}: ${updateResult.message}`,
+          changes: plan.changes,
+          deploymentId: updateResult.deploymentId,
+          status: updateResult.status,
+          estimatedCost: plan.estimatedCost,
+        },
+      };
+    }
+
+    const deploymentResult = await this.deployTool.deployService({
+      serviceName: plan.serviceName,
+      csp: plan.csp,
+      userId: plan.userId,
+      formData: plan.formData,
+      template: plan.template,
+    });
+    this.auditDeployment(
+      'deployment.submitted',
+      plan,
+      principal,
+      deploymentResult,
+      approvalId,
+    );
+    if (deploymentResult.success) {
+      this.usage.recordDeployment(plan.userId);
+    }
+
+    return {
+      role: 'assistant',
+      workflow: 'deployment',
+      response: {
+        message: deploymentResult.success
+          ? `Deployment of ${plan.serviceName} has been initiated successfully.`
+          : `Failed to deploy ${plan.serviceName}: ${deploymentResult.message}`,
+        details: deploymentResult.details,
+        deploymentId: deploymentResult.deploymentId,
+        status: deploymentResult.status,
+        estimatedCost: plan.estimatedCost,
+      },
+    };
+  }
+
+  // Helper: the reply to a turn refused by a rate limit or quota. It isn't
+  // added to the conversation, so a burst of refusals can't flood the history.
+  private limitResponse(
+    principal: Principal,
+    check: Extract<UsageCheck, { ok: false }>,
+    csp?: string,
+  ) {
+    const response = {
+      role: 'assistant',
+      workflow: check.reason,
+      response: {
+        message: check.message,
+        scope: check.scope,
+        limit: check.limit,
+        retryAfterSeconds: check.retryAfterSeconds,
+        menu: this.getMenuForCSP(csp || 'aws', true),
+      },
+    };
+    this.auditTurn(principal, undefined, response, { csp });
+    return response;
+  }
+
+  // Helper: record a chat turn: who asked, what the agent made of it and how it answered
+  private auditTurn(
+    principal: Principal,
+    action: string | undefined,
+    response: { workflow?: string } | null,
+    details: Pick<
+      AuditEvent,
+      'service' | 'csp' | 'planToken' | 'approvalId' | 'deploymentId'
+    > = {},
+  ) {
+    this.audit.record({
+      type: 'agent.action',
+      actor: this.auditActor(principal),
+      action,
+      ...details,
+      outcome: response?.workflow,
+    });
+  }
+
+  // Helper: record what was sent to the deployment backend and how it went
+  private auditDeployment(
+    type: 'deployment.submitted' | 'deployment.updated',
+    plan: DeploymentPlan,
+    principal: Principal,
+    result: { success: boolean; message: string; deploymentId?: string },
+    approvalId?: string,
+  ) {
+    const service = this.findMatchingServiceByName(plan.serviceName, plan.csp);
+    this.audit.record({
+      type,
+      actor: this.auditActor(principal),
+      service: plan.serviceName,
+      csp: plan.csp,
+      planToken: plan.token,
+      approvalId,
+      deploymentId: result.deploymentId || plan.deploymentId,
+      formData: redactFormData(plan.formData, service?.requiredFields),
+      templateHash: plan.template ? sha256(plan.template) : undefined,
+      outcome: result.success ? 'submitted' : 'failed',
+      message: result.success ? undefined : result.message,
+    });
+  }
+
+  private auditActor({ userId, roles, provider }: Principal) {
+    return { userId, roles, provider };
+  }
+
+  private describePlanRejection(
+    planToken: string,
+    lookup: Extract<DeploymentPlanLookup, { ok: false }>,
+  ): string {
+    switch (lookup.reason) {
+      case 'expired':
+        return `Plan ${planToken} expired at ${lookup.plan?.expiresAt}. Please submit the form again to get a fresh plan.`;
+      case 'superseded':
+        return `Plan ${planToken} was replaced by a newer plan. Please confirm the latest plan instead.`;
+      case 'confirmed':
+        return `Plan ${planToken} has already been confirmed and deployed.`;
+      case 'cancelled':
+        return `Plan ${planToken} was cancelled. Please submit the form again to get a new plan.`;
+      case 'invalid':
+        return `Plan ${planToken} has fields that fail validation, so it can't be deployed. Please fix them and submit the form again.`;
+      default:
+        return `I couldn't find deployment plan ${planToken}. Please submit the form again to get a new plan.`;
+    }
+  }
+
+  /**
+   * Approves (running the plan as the requester) or rejects a held deployment,
+   * then tells the requester in their conversation. Approvers can't decide on
+   * their own requests; the approver is audited on the decision, the
+   * requester on the deployment it releases.
+   */
+  async decideApproval(
+    approvalId: string,
+    approver: Principal | string,
+    approved: boolean,
+    reason?: string,
+  ) {
+    const principal = toPrincipal(approver);
+    const { userId } = principal;
+    const lookup = await this.approvals.decide(
+      approvalId,
+      approved,
+      userId,
+      reason,
+    );
+    if (!lookup.ok) return lookup;
+
+    let approval = lookup.approval;
+    const { plan } = approval;
+    this.audit.record({
+      type: 'approval.decided',
+      actor: this.auditActor(principal),
+      service: plan.serviceName,
+      csp: plan.csp,
+      approvalId: approval.id,
+      deploymentId: plan.deploymentId,
+      outcome: approval.status,
+      message: reason,
+    });
+    const subject = plan.deploymentId
+      ? `the changes to ${plan.serviceName} (${plan.deploymentId})`
+      : `deploying ${plan.serviceName} on ${plan.csp.toUpperCase()}`;
+    let followUp;
+    if (approved) {
+      const executed = await this.executePlan(
+        plan,
+        toPrincipal(approval.requestedBy),
+        approval.id,
+      );
+      const deploymentId: string | undefined = executed.response.deploymentId;
+      if (deploymentId) {
+        approval =
+          this.approvals.setDeployment(approval.id, deploymentId) || approval;
+      }
+      followUp = {
+        ...executed,
+        workflow: 'approval_decision',
+        response: {
+          ...executed.response,
+          message: `${userId} approved ${subject}. ${executed.response.message}`,
+          approvalId: approval.id,
+          decision: approval.status,
+          result: executed.workflow,
+          menu: this.getMenuForCSP(plan.csp, true),
+        },
+      };
+    } else {
+      followUp = {
+        role: 'assistant',
+        workflow: 'approval_decision',
+        response: {
+          message: `${userId} rejected ${subject}${reason ? `: ${reason}` : '.'} Nothing was changed.`,
+          approvalId: approval.id,
+          decision: approval.status,
+          reason,
+          menu: this.getMenuForCSP(plan.csp, true),
+        },
+      };
+    }
+
+    // Back to the thread the deployment was requested in, if it's still there
+    const requester = approval.requestedBy;
+    const threadId = (await this.conversationStore.get(
+      requester,
+      plan.threadId,
+    ))
+      ? plan.threadId
+      : DEFAULT_THREAD_ID;
+    try {
+      await this.conversationStore.append(
+        requester,
+        [
+          {
+            role: 'assistant',
+            content: followUp,
+            timestamp: new Date().toISOString(),
+          },
+        ],
+        undefined,
+        threadId,
+      );
+    } catch (e) {
+      console.error(
+        `Error sending the approval decision to ${approval.requestedBy}:`,
+        e,
+      );
+    }
+    return { ok: true as const, approval, followUp };
+  }
+
+  // An approver approving or rejecting a request in chat
+  private async replyToApproval(
+    message: string,
+    principal: Principal,
+    threadId: string,
+    approvalId: string,
+    csp?: string,
+  ) {
+    const { userId } = principal;
+    const userConversation = await this.loadUserConversation(
+      userId,
+      threadId,
+      csp?.toLowerCase() || 'aws',
+    );
+    const persistedLength = userConversation.history.length;
+    userConversation.history.push({
+      role: 'human',
+      content: message,
+      timestamp: new Date().toISOString(),
+    });
+    const menu = this.getMenuForCSP(csp || userConversation.csp || 'aws', true);
+    const approved = !/\b(reject|deny|decline)/i.test(message);
+
+    let responseObj;
+    if (!hasRole(principal, 'admin')) {
+      responseObj = {
+        role: 'assistant',
+        workflow: 'forbidden',
+        response: { message: ROLE_REQUIRED.admin, approvalId, menu },
+      };
+    } else {
+      const reason = message
+        .match(/\b(?:because|reason:?)\s+(.+)$/i)?.[1]
+        ?.trim();
+      const result = await this.decideApproval(
+        approvalId,
+        principal,
+        approved,
+        reason,
+      );
+      responseObj = result.ok
+        ? {
+            role: 'assistant',
+            workflow: 'approval_decided',
+            response: {
+              message: `${approved ? 'Approved' : 'Rejected'} ${result.approval.id} for ${result.approval.requestedBy}. ${result.followUp.response.message}`,
+              approval: result.approval,
+              menu,
+            },
+          }
+        : {
+            role: 'assistant',
+            workflow: 'approval_refused',
+            response: {
+              message: this.describeApprovalRefusal(approvalId, result),
+              reason: result.reason,
+              approvalId,
+              menu,
+            },
+          };
+    }
+
+    userConversation.history.push({
+      role: 'assistant',
+      content: responseObj,
+      timestamp: new Date().toISOString(),
+    });
+    await this.saveUserConversation(
+      userId,
+      threadId,
+      userConversation,
+      persistedLength,
+    );
+    this.auditTurn(principal, approved ? 'APPROVE' : 'REJECT', responseObj, {
+      approvalId,
+    });
+    return responseObj;
+  }
+
+  private describeApprovalRefusal(
+    approvalId: string,
+    lookup: { reason: string; approval?: ApprovalRequest },
+  ): string {
+    switch (lookup.reason) {
+      case 'decided':
+        return `Request ${approvalId} was already ${lookup.approval?.status} by ${lookup.approval?.decidedBy}.`;
+      case 'own_request':
+        return `You can't approve or reject your own request ${approvalId}. Another approver has to decide on it.`;
+      default:
+        return `I couldn't find approval request ${approvalId}.`;
+    }
+  }
+
   /**
    * Returns all user IDs that have conversation history.
    */
-  getAllUserIds(): string[] {
-    const allConversations = this.loadAllConversationsFromFile();
-    return Object.keys(allConversations);
+  getAllUserIds(): Promise<string[]> {
+    return this.conversationStore.listUserIds();
+  }
+
+  // Starts an empty thread; it's titled after its first message unless named here
+  async createThread(
+    userId: string,
+    options: { title?: string; csp?: string } = {},
+  ): Promise<ConversationThread> {
+    const threadId = `thr-${randomUUID()}`;
+    const patch: ConversationPatch = {
+      csp: options.csp?.toLowerCase() || 'aws',
+      createdAt: new Date().toISOString(),
+    };
+    if (options.title?.trim()) patch.title = options.title.trim();
+    const conversation = await this.conversationStore.append(
+      userId,
+      [],
+      patch,
+      threadId,
+    );
+    return summarizeThread(threadId, conversation);
+  }
+
+  // Most recently active first; archived threads only when asked for
+  async listThreads(
+    userId: string,
+    includeArchived = false,
+  ): Promise<ConversationThread[]> {
+    const threads = await this.conversationStore.listThreads(userId);
+    return includeArchived
+      ? threads
+      : threads.filter((thread) => !thread.archived);
+  }
+
+  async getThread(
+    userId: string,
+    threadId: string,
+  ): Promise<ConversationThread | null> {
+    const conversation = await this.conversationStore.get(userId, threadId);
+    return conversation ? summarizeThread(threadId, conversation) : null;
+  }
+
+  // Renames or (un)archives a thread; null when the user has no such thread
+  async updateThread(
+    userId: string,
+    threadId: string,
+    changes: { title?: string; archived?: boolean },
+  ): Promise<ConversationThread | null> {
+    if (!(await this.conversationStore.get(userId, threadId))) return null;
+    const patch: ConversationPatch = {};
+    if (changes.title?.trim()) patch.title = changes.title.trim();
+    if (changes.archived !== undefined) patch.archived = changes.archived;
+    const conversation = await this.conversationStore.append(
+      userId,
+      [],
+      patch,
+      threadId,
+    );
+    return summarizeThread(threadId, conversation);
+  }
+
+  deleteThread(userId: string, threadId: string): Promise<boolean> {
+    return this.conversationStore.delete(userId, threadId);
   }
 
   /**
    * Returns the conversation history for a specific userId, or null if not found.
+   * Timestamps stay ISO UTC; with display preferences every entry also gets
+   * its time formatted for the reader.
    */
-  getConversationByUserId(userId: string): any {
-    const allConversations = this.loadAllConversationsFromFile();
-    return allConversations[userId] || null;
+  async getConversationByUserId(
+    userId: string,
+    display?: DisplayPreferences,
+    threadId: string = DEFAULT_THREAD_ID,
+  ) {
+    const conversation = await this.conversationStore.get(userId, threadId);
+    if (!conversation || !display) return conversation;
+    return {
+      ...conversation,
+      display,
+      history: conversation.history.map((entry) => ({
+        ...entry,
+        localTime: formatTimestamp(entry.timestamp, display),
+      })),
+    };
   }
 
-  // Helper method to generate a template based on service and form data
-  private generateTemplateForService(
+  // Helper: destroy the deployment shown in the previous turn once the user
+  // types its name. Anything else is handled as a normal turn.
+  private async continueTeardown(
+    conversation: Conversation,
+    message: string,
+    principal: Principal,
+  ) {
+    const previous = [...conversation.history]
+      .reverse()
+      .find((entry) => entry.role === 'assistant');
+    const pending =
+      previous?.content?.workflow === 'destroy_confirmation'
+        ? previous.content.response
+        : null;
+    if (!pending || message.trim() !== pending.confirmName) return null;
+
+    const menu = this.getMenuForCSP(conversation.csp || 'aws', true);
+    if (!hasRole(principal, 'deployer')) {
+      return {
+        role: 'assistant',
+        workflow: 'forbidden',
+        response: { message: ROLE_REQUIRED.deployer, menu },
+      };
+    }
+
+    const result = await this.teardown.destroy(
+      pending.deploymentId,
+      principal,
+      message,
+    );
+    if (!result.ok) {
+      return {
+        role: 'assistant',
+        workflow: 'destroy_refused',
+        response: {
+          message: result.message,
+          deploymentId: pending.deploymentId,
+          reason: result.reason,
+          menu,
+        },
+      };
+    }
+
+    const { deployment, confirmName } = result.teardown;
+    return {
+      role: 'assistant',
+      workflow: 'deployment_destroyed',
+      response: {
+        message:
+          deployment.status === 'destroyed'
+            ? `${deployment.serviceName} ${confirmName} (${deployment.id}) has been deleted.`
+            : `Deleting ${deployment.serviceName} ${confirmName} (${deployment.id}). Ask me for its status to follow along.`,
+        deploymentId: deployment.id,
+        status: deployment.status,
+        menu,
+      },
+    };
+  }
+
+  // Helper: fill the draft from a follow-up message. Returns null when the
+  // message isn't about the draft, so it is handled as a normal turn.
+  private async continueDraft(
+    conversation: Conversation,
+    message: string,
+    userId: string,
+    threadId: string,
+  ) {
+    const draft = conversation.draft as DeploymentDraft;
+    const service = this.catalog.getById(draft.serviceId);
+    if (!service?.available) {
+      conversation.draft = null;
+      return null;
+    }
+
+    if (/^\s*(cancel|stop|never ?mind|forget it)\b/i.test(message)) {
+      conversation.draft = null;
+      return {
+        role: 'assistant',
+        workflow: 'draft_cancelled',
+        response: {
+          message: `OK, I've dropped the ${service.name} deployment on ${service.cloud.toUpperCase()}.`,
+          menu: this.getMenuForCSP(draft.cloud, true),
+        },
+      };
+    }
+    // Asking for something new (another deployment, a question) leaves the draft alone
+    if (/\b(deploy|provision|launch|spin up)\b/i.test(message)) return null;
+
+    const values = await this.extractServiceFieldValues(
+      service,
+      message,
+      draft.pendingFieldId,
+    );
+    // A bare answer that didn't validate is still an answer: say why and re-ask
+    const answer = message.trim();
+    if (
+      Object.keys(values).length === 0 &&
+      draft.pendingFieldId &&
+      /^[^\s?]+$/.test(answer)
+    ) {
+      values[draft.pendingFieldId] = answer;
+    }
+    if (Object.keys(values).length === 0) return null;
+
+    const step = this.advanceDraft(
+      service,
+      { ...draft.formData, ...values },
+      userId,
+      threadId,
+      draft.cloud,
+      values,
+    );
+    conversation.draft = step.draft;
+
+    return {
+      role: 'assistant',
+      workflow: step.plan ? 'deployment_plan' : 'collecting_fields',
+      response: {
+        message: step.message,
+        ...(step.plan
+          ? { plan: step.plan }
+          : {
+              service: { name: service.name, cloud: service.cloud },
+              collected: step.draft?.formData,
+              nextField: step.draft?.pendingFieldId,
+            }),
+        menu: this.getMenuForCSP(draft.cloud, true),
+      },
+    };
+  }
+
+  // Helper: validate the collected values, then either ask for the next
+  // missing field or, once everything is filled in, plan the deployment
+  private advanceDraft(
     service: ServiceConfig,
-    formData: any,
-  ): string {
+    formData: Record<string, string>,
+    userId: string,
+    threadId: string,
+    csp: string,
+    captured: Record<string, string> = {},
+  ): { draft: DeploymentDraft | null; message: string; plan?: DeploymentPlan } {
+    const errors = validateFormData(
+      toValidatableFields(resolveFields(service.requiredFields, formData)),
+      formData,
+    ).filter((error) => !isEmpty(formData[error.fieldId]));
+
+    // Values that no longer fit (e.g. after a parent field changed) are asked for again
+    const kept = { ...formData };
+    errors.forEach((error) => delete kept[error.fieldId]);
+
+    const notes: string[] = [];
+    const accepted = Object.keys(captured).filter((id) => id in kept);
+    if (accepted.length > 0) {
+      const names = accepted.map((id) => {
+        const field = service.requiredFields.find((f) => f.fieldId === id);
+        return `${field?.fieldName || id}: ${kept[id]}`;
+      });
+      notes.push(`Got it: ${names.join(', ')}.`);
+    }
+    notes.push(...errors.map((error) => `${error.message}.`));
+
+    const resolution = resolveFields(service.requiredFields, kept);
+    const next =
+      resolution.nextFields.find((field) =>
+        resolution.missing.includes(field.fieldId),
+      ) ||
+      resolution.fields.find((field) =>
+        resolution.missing.includes(field.fieldId),
+      );
+
+    if (!next) {
+      const plan = this.createDeploymentPlan(
+        service,
+        service.name,
+        kept,
+        userId,
+        threadId,
+        csp,
+      );
+      return {
+        draft: null,
+        plan,
+        message: [...notes, this.describePlan(plan)].join(' '),
+      };
+    }
+
+    return {
+      draft: {
+        serviceId: service.id,
+        serviceName: service.name,
+        cloud: service.cloud,
+        formData: kept,
+        pendingFieldId: next.fieldId,
+        updatedAt: new Date().toISOString(),
+      },
+      message: [...notes, this.askForField(next)].join(' '),
+    };
+  }
+
+  private askForField(field: ResolvedField): string {
+    const options = field.allowedValues || field.validation?.options;
+    if (options?.length) {
+      return `Which ${field.fieldName} would you like? Options: ${options.join(', ')}.`;
+    }
+    switch (field.fieldTypeValue) {
+      case 'Number':
+        return `How much ${field.fieldName} do you need?`;
+      case 'List':
+        return `Which ${field.fieldName} should I use? You can list several, separated by commas.`;
+      default:
+        return `What should the ${field.fieldName} be?`;
+    }
+  }
+
+  // Helper: pull field values out of a chat message. Values matched from the
+  // catalog's own formats win; the LLM fills in what they can't recognise.
+  private async extractServiceFieldValues(
+    service: ServiceConfig,
+    text: string,
+    pendingFieldId?: string,
+  ): Promise<Record<string, string>> {
+    const values = extractFieldValues(
+      service.requiredFields,
+      text,
+      pendingFieldId,
+    );
+
+    const fields = service.requiredFields.map(
+      ({ fieldId, fieldName, fieldTypeValue, validation, dependency }) => ({
+        fieldId,
+        fieldName,
+        fieldTypeValue,
+        validation,
+        dependency,
+      }),
+    );
+    const promptText = `Extract values for the following cloud service configuration fields from the user's message.
+
+    Service: ${service.name}
+    Cloud Provider: ${service.cloud.toUpperCase()}
+    Fields: ${JSON.stringify(fields)}
+    ${pendingFieldId ? `The user was just asked for: ${pendingFieldId}` : ''}
+
+    Rules:
+    - Only include values the user actually stated. Never invent values or use examples
+    - Leave out fields the message doesn't mention
+    - Values must satisfy the field's validation rules
+
+    Return JSON only:
+    {
+      "values": { "fieldId": "value" }
+    }`;
+
     try {
-      // This is a simplified template generator - expand based on your needs
-      if (service.cloud.toLowerCase() === 'aws') {
+      const responseText = await this.llm.invoke([
+        new SystemMessage(promptText),
+        new HumanMessage(text),
+      ]);
+      const parsed = JSON.parse(this.cleanJsonResponse(responseText));
+      for (const [fieldId, value] of Object.entries(parsed?.values || {})) {
+        const field = service.requiredFields.find((f) => f.fieldId === fieldId);
         if (
-          service.name.toLowerCase().includes('virtual machine') ||
-          service.name.toLowerCase().includes('ec2')
+          field &&
+          values[fieldId] === undefined &&
+          (typeof value === 'string' || typeof value === 'number') &&
+          isValidFieldValue(field, String(value))
         ) {
-          return `
-{
-  "AWSTemplateFormatVersion": "2010-09-09",
-  "Resources": {
-    "EC2Instance": {
-      "Type": "AWS::EC2::Instance",
-      "Properties": {
-        "InstanceType": "${formData.instanceType || 't2.micro'}",
-        "ImageId": "${formData.amiId || 'ami-0c55b159cbfafe1f0'}",
-        "KeyName": "${formData.keyName || ''}",
-        "Tags": [
-          {
-            "Key": "Name",
-            "Value": "${formData.instanceName || 'EC2 Instance'}"
-          }
-        ]
+          values[fieldId] = String(value);
+        }
       }
+    } catch (e) {
+      console.error('Error extracting field values:', e);
     }
+    return values;
   }
-}`;
-        } else if (
-          service.name.toLowerCase().includes('s3') ||
-          service.name.toLowerCase().includes('bucket')
-        ) {
-          return `
-{
-  "AWSTemplateFormatVersion": "2010-09-09",
-  "Resources": {
-    "S3Bucket": {
-      "Type": "AWS::S3::Bucket",
-      "Properties": {
-        "BucketName": "${formData.bucketName || ''}",
-        "AccessControl": "${formData.accessControl || 'Private'}"
-      }
+
+  // Helper: render the template and price the deployment without running it.
+  // Throws when the template fails to render, so no empty plan can be confirmed.
+  private createDeploymentPlan(
+    service: ServiceConfig,
+    serviceName: string,
+    formData: Record<string, any>,
+    userId: string,
+    threadId: string,
+    csp: string,
+    change?: { deploymentId: string; changes: FieldChange[] },
+  ): DeploymentPlan {
+    const errors = validateFormData(
+      toValidatableFields(resolveFields(service.requiredFields, formData)),
+      formData,
+    );
+    // Always rendered here from the catalog's template, never taken from the client
+    const content = this.generateTemplateForService(service, formData);
+
+    const plan = this.deploymentPlans.create({
+      serviceName,
+      csp,
+      userId,
+      threadId,
+      formData,
+      template: content,
+      resources: this.planResources(service, formData),
+      estimatedCost: this.costEstimator.estimate(service, formData),
+      validation: { valid: errors.length === 0, errors },
+      ...change,
+    });
+    this.audit.record({
+      type: 'deployment.planned',
+      actor: { userId },
+      service: service.name,
+      csp,
+      planToken: plan.token,
+      deploymentId: plan.deploymentId,
+      formData: redactFormData(formData, service.requiredFields),
+      templateHash: plan.template ? sha256(plan.template) : undefined,
+    });
+    return plan;
+  }
+
+  private describePlan(plan: DeploymentPlan): string {
+    if (plan.deploymentId) {
+      return [
+        `Here are the changes to ${plan.serviceName} on ${plan.csp.toUpperCase()} (${plan.deploymentId}):`,
+        '',
+        '| Setting | Current | New |',
+        '| --- | --- | --- |',
+        ...(plan.changes || []).map(
+          (change) =>
+            `| ${change.fieldName} | ${change.from ?? '-'} | ${change.to ?? '-'} |`,
+        ),
+        '',
+        `${plan.estimatedCost ? `With these changes it is estimated at ${formatEstimate(plan.estimatedCost)}. ` : ''}Reply "confirm ${plan.token}" to apply them or "cancel ${plan.token}" to discard them. The plan expires at ${plan.expiresAt}.`,
+      ].join('\n');
     }
+    return `Here is the plan for deploying ${plan.serviceName} on ${plan.csp.toUpperCase()}${plan.estimatedCost ? `, estimated at ${formatEstimate(plan.estimatedCost)}` : ''}. Reply "confirm ${plan.token}" to deploy it or "cancel ${plan.token}" to discard it. The plan expires at ${plan.expiresAt}.`;
   }
-}`;
-        }
-      }
 
-      // Return a basic template if we can't determine the service type
-      return JSON.stringify(
-        {
-          service: service.name,
-          cloud: service.cloud,
-          properties: formData,
-        },
-        null,
-        2,
-      );
+  // Helper: the resources the service's template would create
+  private planResources(
+    service: ServiceConfig,
+    formData: Record<string, unknown>,
+  ): PlannedResource[] {
+    try {
+      return this.templateEngine.hasTemplate(service)
+        ? summarizeResources(this.templateEngine.render(service, formData))
+        : [];
     } catch (error) {
-      console.error('Error generating template:', error);
-      return JSON.stringify({
-        error: 'Failed to generate template',
-        formData: formData,
-      });
+      console.error('Error summarizing template resources:', error);
+      return [];
+    }
+  }
+
+  // Helper method to generate a template based on service and form data
+  private generateTemplateForService(
+    service: ServiceConfig,
+    formData: any,
+  ): string {
+    if (this.templateEngine.hasTemplate(service)) {
+      return this.templateEngine.render(service, formData).content;
     }
+
+    // Return a basic template if there is no template for this service
+    return JSON.stringify(
+      {
+        service: service.name,
+        cloud: service.cloud,
+        properties: formData,
+      },
+      null,
+      2,
+    );
   }
 }
@@ -0,0 +1,69 @@
+import { Annotation, CompiledStateGraph } from '@langchain/langgraph';
+import {
+  ConversationMessage,
+  DeploymentDraft,
+} from '../conversations/conversation.store';
+import { AgentEventEmitter, AgentReply } from './types';
+import { Role } from '../auth/types';
+
+// What findAction decided the user wants, e.g. { type: 'DEPLOY', payload: { service, csp } }
+export interface AgentAction {
+  type: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * State passed between the nodes of the agent workflow. Every channel keeps
+ * the last value written to it, so nodes only return the keys they change.
+ */
+export const CloudStateAnnotation = Annotation.Root({
+  userId: Annotation<string>,
+  // The conversation thread this turn belongs to
+  threadId: Annotation<string>,
+  roles: Annotation<Role[]>,
+  conversationHistory: Annotation<ConversationMessage[]>,
+  query: Annotation<string>,
+  action: Annotation<AgentAction | null>,
+  csp: Annotation<string | null>,
+  // The action node's result; a customMessage is sent to the user as is
+  response: Annotation<Record<string, any> | null>,
+  // The reply generateUnifiedResponse builds for the client
+  finalResponse: Annotation<AgentReply | null>,
+  event: Annotation<string | undefined>,
+  // Set when this turn starts, advances or replaces a deployment draft
+  draft: Annotation<DeploymentDraft | null | undefined>,
+});
+
+export type CloudState = typeof CloudStateAnnotation.State;
+export type CloudStateUpdate = typeof CloudStateAnnotation.Update;
+
+// The compiled workflow; its node names depend on the action nodes registered
+export type CloudWorkflow = CompiledStateGraph<
+  CloudState,
+  CloudStateUpdate,
+  string,
+  typeof CloudStateAnnotation.spec,
+  typeof CloudStateAnnotation.spec
+>;
+
+export interface ActionRoute {
+  // Action type findAction may return, e.g. 'DEPLOY'
+  type: string;
+  // Workflow name reported to the client for this action
+  workflow: string;
+  // Shown to the LLM in the list of available actions
+  description: string;
+}
+
+/**
+ * A workflow node that handles one or more action types. Nodes run between
+ * findAction and generateUnifiedResponse; registering one with
+ * AgentService.registerActionNode is enough to route its actions to it.
+ */
+export interface ActionNode {
+  name: string;
+  actions: ActionRoute[];
+  // The least role the user needs; others are told so instead of the node running
+  requiredRole?: Role;
+  run(state: CloudState, emit?: AgentEventEmitter): Promise<CloudStateUpdate>;
+}
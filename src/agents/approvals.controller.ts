@@ -0,0 +1,102 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AgentService } from './agent.service';
+import { CurrentUser, RequireRole } from '../auth/auth.decorators';
+import { assertSelfOrAdmin } from '../auth/auth.guard';
+import { Principal } from '../auth/types';
+import { DeploymentApprovals } from '../approvals/deployment.approvals';
+import { ApprovalRejection, ApprovalRequest } from '../approvals/types';
+
+interface DecisionRequestBody {
+  reason?: string;
+}
+
+const APPROVAL_ERRORS: Record<
+  ApprovalRejection,
+  new (message: string) => HttpException
+> = {
+  not_found: NotFoundException,
+  decided: ConflictException,
+  own_request: ForbiddenException,
+};
+
+const APPROVAL_MESSAGES: Record<ApprovalRejection, string> = {
+  not_found: 'Approval request not found',
+  decided: 'The approval request has already been decided',
+  own_request: "Approvers can't decide on their own requests",
+};
+
+// Approvers review held deployments here; requesters can look up their own
+@Controller('agent/approvals')
+export class ApprovalsController {
+  constructor(
+    private readonly agentService: AgentService,
+    private readonly approvals: DeploymentApprovals,
+  ) {}
+
+  @Get()
+  @RequireRole('admin')
+  list(@Query('status') status?: string) {
+    return this.approvals.list({ status });
+  }
+
+  @Get(':id')
+  get(@CurrentUser() user: Principal, @Param('id') id: string) {
+    const approval = this.approvals.get(id);
+    if (!approval) {
+      throw new NotFoundException(APPROVAL_MESSAGES.not_found);
+    }
+    assertSelfOrAdmin(user, approval.requestedBy);
+    return approval;
+  }
+
+  @Post(':id/approve')
+  @RequireRole('admin')
+  approve(
+    @CurrentUser() user: Principal,
+    @Param('id') id: string,
+    @Body() body: DecisionRequestBody,
+  ) {
+    return this.decide(user, id, true, body?.reason);
+  }
+
+  @Post(':id/reject')
+  @RequireRole('admin')
+  reject(
+    @CurrentUser() user: Principal,
+    @Param('id') id: string,
+    @Body() body: DecisionRequestBody,
+  ) {
+    return this.decide(user, id, false, body?.reason);
+  }
+
+  private async decide(
+    user: Principal,
+    id: string,
+    approved: boolean,
+    reason?: string,
+  ): Promise<ApprovalRequest> {
+    const result = await this.agentService.decideApproval(
+      id,
+      user,
+      approved,
+      reason,
+    );
+    if (!result.ok) {
+      throw new APPROVAL_ERRORS[result.reason](
+        APPROVAL_MESSAGES[result.reason],
+      );
+    }
+    return result.approval;
+  }
+}
@@ -1,5 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import axios from 'axios';
+import { DeploymentRegistry } from '../deployments/deployment.registry';
+import { DeploymentRecord, DeploymentStatus } from '../deployments/types';
+import { FieldChange } from '../services/types';
 
 interface DeploymentRequest {
   serviceName: string;
@@ -9,45 +12,191 @@ interface DeploymentRequest {
   template: string;
 }
 
+interface DeploymentUpdateRequest {
+  deploymentId: string;
+  formData: Record<string, string>;
+  template: string;
+  changes: FieldChange[];
+}
+
 interface DeploymentResponse {
   success: boolean;
   deploymentId?: string;
+  status?: DeploymentStatus;
   message: string;
   details?: any;
 }
 
+// The deployment API's error body, when the failure came from it
+const errorBody = (error: unknown) =>
+  axios.isAxiosError<{ message?: string }>(error)
+    ? error.response?.data
+    : undefined;
+
 @Injectable()
 export class DeployTool {
-  private readonly deploymentApiUrl: string;
+  private readonly deploymentApiUrl?: string;
 
-  constructor() {
-    // You can configure this through environment variables
-    this.deploymentApiUrl = process.env.DEPLOYMENT_API_URL || 'http://your-deployment-api-url';
+  constructor(private readonly registry: DeploymentRegistry) {
+    // Without a deployment API configured, deployments are simulated and succeed immediately
+    this.deploymentApiUrl = process.env.DEPLOYMENT_API_URL;
   }
 
   async deployService(request: DeploymentRequest): Promise<DeploymentResponse> {
+    const deployment = this.registry.create(request);
+
     try {
-      // const response = await axios.post(`${this.deploymentApiUrl}/deploy`, {
-      //   service: request.serviceName,
-      //   cloudProvider: request.csp,
-      //   userId: request.userId,
-      //   template: request.template,
-      //   configuration: request.formData
-      // });
+      if (this.deploymentApiUrl) {
+        await axios.post(`${this.deploymentApiUrl}/deploy`, {
+          deploymentId: deployment.id,
+          service: request.serviceName,
+          cloudProvider: request.csp,
+          userId: request.userId,
+          template: request.template,
+          configuration: request.formData,
+        });
+        // The backend reports completion through POST /agent/deployments/:id/status
+        this.registry.updateStatus(deployment.id, 'in_progress');
+      } else {
+        this.registry.updateStatus(deployment.id, 'in_progress');
+        this.registry.updateStatus(
+          deployment.id,
+          'succeeded',
+          'Simulated deployment (DEPLOYMENT_API_URL is not set)',
+        );
+      }
 
+      const updated = this.registry.get(deployment.id);
       return {
         success: true,
-        deploymentId: "bydbsybd72ygww280-2wju2",
+        deploymentId: deployment.id,
+        status: updated?.status,
         message: 'Deployment initiated successfully',
-        details: request
+        details: request,
       };
     } catch (error) {
       console.error('Deployment failed:', error);
+      const details = errorBody(error);
+      const message = details?.message || 'Deployment failed';
+      this.registry.updateStatus(deployment.id, 'failed', message);
       return {
         success: false,
-        message: error.response?.data?.message || 'Deployment failed',
-        details: error.response?.data
+        deploymentId: deployment.id,
+        status: 'failed',
+        message,
+        details,
       };
     }
   }
-} 
\ No newline at end of file
+
+  // Submits a configuration change for a deployment that already succeeded
+  async updateDeployment(
+    request: DeploymentUpdateRequest,
+  ): Promise<DeploymentResponse> {
+    let deployment: DeploymentRecord;
+    try {
+      deployment = this.registry.reconfigure(
+        request.deploymentId,
+        request.formData,
+        request.template,
+        request.changes,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        deploymentId: request.deploymentId,
+        message: (error as Error).message,
+      };
+    }
+
+    try {
+      if (this.deploymentApiUrl) {
+        await axios.post(`${this.deploymentApiUrl}/update`, {
+          deploymentId: deployment.id,
+          service: deployment.serviceName,
+          cloudProvider: deployment.csp,
+          userId: deployment.userId,
+          template: request.template,
+          configuration: request.formData,
+          changes: request.changes,
+        });
+      } else {
+        this.registry.updateStatus(
+          deployment.id,
+          'succeeded',
+          'Simulated configuration change (DEPLOYMENT_API_URL is not set)',
+        );
+      }
+
+      return {
+        success: true,
+        deploymentId: deployment.id,
+        status: this.registry.get(deployment.id)?.status,
+        message: 'Configuration change submitted successfully',
+        details: request.changes,
+      };
+    } catch (error) {
+      console.error('Configuration change failed:', error);
+      const details = errorBody(error);
+      const message = details?.message || 'Configuration change failed';
+      this.registry.updateStatus(deployment.id, 'failed', message);
+      return {
+        success: false,
+        deploymentId: deployment.id,
+        status: 'failed',
+        message,
+        details,
+      };
+    }
+  }
+
+  // Asks the backend to delete everything a deployment created. The record
+  // stays "destroying" until the backend reports the teardown as finished.
+  async destroyDeployment(
+    deployment: DeploymentRecord,
+  ): Promise<DeploymentResponse> {
+    this.registry.updateStatus(
+      deployment.id,
+      'destroying',
+      'Teardown requested',
+    );
+
+    try {
+      if (this.deploymentApiUrl) {
+        await axios.post(`${this.deploymentApiUrl}/destroy`, {
+          deploymentId: deployment.id,
+          service: deployment.serviceName,
+          cloudProvider: deployment.csp,
+          userId: deployment.userId,
+          template: deployment.template,
+          configuration: deployment.formData,
+        });
+      } else {
+        this.registry.updateStatus(
+          deployment.id,
+          'destroyed',
+          'Simulated teardown (DEPLOYMENT_API_URL is not set)',
+        );
+      }
+
+      return {
+        success: true,
+        deploymentId: deployment.id,
+        status: this.registry.get(deployment.id)?.status,
+        message: 'Teardown submitted successfully',
+      };
+    } catch (error) {
+      console.error('Teardown failed:', error);
+      const details = errorBody(error);
+      const message = details?.message || 'Teardown failed';
+      this.registry.updateStatus(deployment.id, 'failed', message);
+      return {
+        success: false,
+        deploymentId: deployment.id,
+        status: 'failed',
+        message,
+        details,
+      };
+    }
+  }
+}
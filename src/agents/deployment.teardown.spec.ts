@@ -0,0 +1,152 @@
+import { DeploymentTeardown } from './deployment.teardown';
+import { DeployTool } from './deploy.tool';
+import { DeploymentRegistry } from '../deployments/deployment.registry';
+import { ServiceCatalog } from '../catalog/service.catalog';
+import { TemplateEngine } from '../templates/template.engine';
+import { ResourceInventory } from '../inventory/resource.inventory';
+import { FixtureInventoryProvider } from '../inventory/fixture.provider';
+import { ResourceInventoryProvider } from '../inventory/inventory.provider';
+import { AuditLog } from '../audit/audit.log';
+
+describe('DeploymentTeardown', () => {
+  const catalog = new ServiceCatalog();
+  const fixtures = FixtureInventoryProvider.load();
+  const inventory = new ResourceInventory([
+    new FixtureInventoryProvider('aws', fixtures),
+  ]);
+  let registry: DeploymentRegistry;
+  let teardown: DeploymentTeardown;
+  let audit: AuditLog;
+
+  const deploy = (instanceName: string, csp = 'aws') => {
+    const { id } = registry.create({
+      serviceName: 'Virtual Machine',
+      csp,
+      userId: 'user-1',
+      formData: {
+        instanceName,
+        amiId: 'ami-0c55b159cbfafe1f0',
+        instanceType: 't3.micro',
+        keyName: 'ops',
+      },
+      template: '{}',
+    });
+    registry.updateStatus(id, 'in_progress');
+    registry.updateStatus(id, 'succeeded');
+    return id;
+  };
+
+  beforeEach(() => {
+    registry = new DeploymentRegistry();
+    audit = new AuditLog();
+    teardown = new DeploymentTeardown(
+      registry,
+      new DeployTool(registry),
+      catalog,
+      new TemplateEngine(),
+      inventory,
+      audit,
+    );
+  });
+
+  it('previews what would be deleted and asks for the resource name', async () => {
+    const id = deploy('web-02');
+
+    const lookup = await teardown.preview(id, 'user-1');
+
+    expect(lookup.ok && lookup.teardown.confirmName).toBe('web-02');
+    expect(lookup.ok && lookup.teardown.resources).toEqual([
+      { type: 'AWS::EC2::Instance', name: 'EC2Instance' },
+    ]);
+    expect(await teardown.preview(id, 'user-2')).toMatchObject({
+      ok: false,
+      reason: 'not_found',
+    });
+  });
+
+  it('destroys only once the name is typed back', async () => {
+    const id = deploy('web-02');
+
+    expect(await teardown.destroy(id, 'user-1', 'web-2')).toMatchObject({
+      ok: false,
+      reason: 'confirmation_mismatch',
+    });
+    expect(registry.get(id)?.status).toBe('succeeded');
+
+    const destroyed = await teardown.destroy(id, 'user-1', ' web-02 ');
+    expect(destroyed.ok).toBe(true);
+    expect(registry.get(id)?.history.map((h) => h.status)).toEqual([
+      'pending',
+      'in_progress',
+      'succeeded',
+      'destroying',
+      'destroyed',
+    ]);
+    expect(await teardown.destroy(id, 'user-1', 'web-02')).toMatchObject({
+      reason: 'not_destroyable',
+    });
+  });
+
+  it('refuses protected deployments and ones it cannot check', async () => {
+    const id = deploy('web-01');
+    registry.setProtected(id, true);
+    expect(await teardown.destroy(id, 'user-1', 'web-01')).toMatchObject({
+      ok: false,
+      reason: 'protected',
+    });
+    expect(
+      await teardown.preview(deploy('web-03', 'azure'), 'user-1'),
+    ).toMatchObject({ ok: false, reason: 'protection_unknown' });
+  });
+
+  it('checks protected tags on the live resource, not on fixtures', async () => {
+    const live: ResourceInventoryProvider = {
+      name: 'aws',
+      cloud: 'aws',
+      list: () =>
+        Promise.resolve([
+          {
+            id: 'i-0123',
+            name: 'web-04',
+            type: 'vm',
+            cloud: 'aws',
+            region: 'us-east-1',
+            state: 'running',
+            tags: { Protected: 'Yes' },
+          },
+        ]),
+    };
+    const checked = new DeploymentTeardown(
+      registry,
+      new DeployTool(registry),
+      catalog,
+      new TemplateEngine(),
+      new ResourceInventory([live]),
+      audit,
+    );
+
+    expect(await checked.preview(deploy('web-04'), 'user-1')).toMatchObject({
+      ok: false,
+      reason: 'protected',
+    });
+    // Fixture data is canned, so it neither protects nor clears anything
+    const lookup = await teardown.preview(deploy('web-01'), 'user-1');
+    expect(lookup.ok && lookup.teardown.existing).toEqual([]);
+  });
+
+  it('records who tore a deployment down', async () => {
+    const owner = {
+      userId: 'user-1',
+      roles: ['admin' as const],
+      provider: 'jwt',
+    };
+
+    await teardown.destroy(deploy('web-02'), owner, 'web-02');
+
+    expect(audit.query({ type: 'deployment.destroyed' })[0].actor).toEqual({
+      userId: 'user-1',
+      roles: ['admin'],
+      provider: 'jwt',
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { Injectable } from '@nestjs/common';
+import { DeployTool } from './deploy.tool';
+import { DeploymentRegistry } from '../deployments/deployment.registry';
+import { DeploymentRecord, TeardownLookup } from '../deployments/types';
+import { ServiceCatalog } from '../catalog/service.catalog';
+import { resolveService } from '../services/service.resolver';
+import { ServiceConfig } from '../services/types';
+import { TemplateEngine } from '../templates/template.engine';
+import { summarizeResources } from '../templates/resource-summary';
+import { PlannedResource } from '../templates/types';
+import {
+  ResourceInventory,
+  parseResourceType,
+} from '../inventory/resource.inventory';
+import { InventoryResource } from '../inventory/types';
+import { AuditLog } from '../audit/audit.log';
+import { Principal, toPrincipal } from '../auth/types';
+
+// Deployments in these states have resources left to delete
+const DESTROYABLE = ['succeeded', 'failed'];
+
+// protected=true (any case) on a resource keeps the agent's hands off it
+const isProtected = (resource: InventoryResource) =>
+  Object.entries(resource.tags).some(
+    ([key, value]) =>
+      key.toLowerCase() === 'protected' && /^(true|yes|1)$/i.test(value),
+  );
+
+/**
+ * Tears down what a deployment created. The preview says exactly what would
+ * go; destroy only goes ahead when the caller types the resource's name back,
+ * and never for resources tagged as protected in the cloud inventory.
+ */
+@Injectable()
+export class DeploymentTeardown {
+  constructor(
+    private readonly registry: DeploymentRegistry,
+    private readonly deployTool: DeployTool,
+    private readonly catalog: ServiceCatalog,
+    private readonly templateEngine: TemplateEngine,
+    private readonly inventory: ResourceInventory,
+    private readonly audit: AuditLog,
+  ) {}
+
+  async preview(deploymentId: string, userId: string): Promise<TeardownLookup> {
+    const deployment = this.registry.get(deploymentId);
+    if (!deployment || deployment.userId !== userId) {
+      return {
+        ok: false,
+        reason: 'not_found',
+        message: `I couldn't find deployment ${deploymentId}.`,
+      };
+    }
+    if (!DESTROYABLE.includes(deployment.status)) {
+      return {
+        ok: false,
+        reason: 'not_destroyable',
+        message: `Deployment ${deployment.id} is ${deployment.status.replace('_', ' ')} and can't be removed${deployment.status === 'destroyed' ? ' again' : ' until it finishes'}.`,
+      };
+    }
+
+    const service = resolveService(
+      this.catalog.getAll(),
+      deployment.serviceName,
+      deployment.csp,
+    ).match;
+    const confirmName =
+      (service?.nameField && deployment.formData[service.nameField]) ||
+      deployment.id;
+    if (deployment.protected) {
+      return {
+        ok: false,
+        reason: 'protected',
+        message: `${confirmName} (${deployment.id}) is marked as protected and can't be removed. Clear its protection first if it really should go.`,
+      };
+    }
+
+    let existing: InventoryResource[] = [];
+    const type = parseResourceType(service?.name || deployment.serviceName);
+    // Resource groups, projects and compartments have no inventory to check,
+    // and canned fixture data says nothing about the real resource's tags
+    if (type && this.inventory.sourceFor(deployment.csp) !== 'fixture') {
+      try {
+        const listing = await this.inventory.list(deployment.csp, type);
+        existing = listing.resources.filter(
+          (resource) =>
+            resource.name === confirmName || resource.id === confirmName,
+        );
+      } catch (error) {
+        return {
+          ok: false,
+          reason: 'protection_unknown',
+          message: `I couldn't check whether ${confirmName} is protected (${(error as Error).message}), so I won't remove it.`,
+        };
+      }
+    }
+    if (existing.some(isProtected)) {
+      return {
+        ok: false,
+        reason: 'protected',
+        message: `${confirmName} is tagged as protected on ${deployment.csp.toUpperCase()} and can't be removed here. Remove the protected tag first if it really should go.`,
+      };
+    }
+
+    return {
+      ok: true,
+      teardown: {
+        deployment,
+        confirmName,
+        resources: this.resources(service, deployment),
+        existing,
+      },
+    };
+  }
+
+  async destroy(
+    deploymentId: string,
+    user: Principal | string,
+    confirmation: string,
+  ): Promise<TeardownLookup> {
+    const { userId, roles, provider } = toPrincipal(user);
+    // Checked again: the deployment or its tags may have changed since the preview
+    const lookup = await this.preview(deploymentId, userId);
+    if (!lookup.ok) return lookup;
+
+    const { deployment, confirmName } = lookup.teardown;
+    if (confirmation.trim() !== confirmName) {
+      return {
+        ok: false,
+        reason: 'confirmation_mismatch',
+        message: `To remove ${deployment.serviceName} ${deployment.id}, type its name exactly: ${confirmName}`,
+      };
+    }
+
+    const result = await this.deployTool.destroyDeployment(deployment);
+    this.audit.record({
+      type: 'deployment.destroyed',
+      actor: { userId, roles, provider },
+      service: deployment.serviceName,
+      csp: deployment.csp,
+      deploymentId: deployment.id,
+      outcome: result.success
+        ? this.registry.get(deployment.id)?.status
+        : 'failed',
+      message: result.message,
+    });
+    if (!result.success) {
+      return { ok: false, reason: 'failed', message: result.message };
+    }
+    return {
+      ok: true,
+      teardown: {
+        ...lookup.teardown,
+        deployment: this.registry.get(deployment.id) || deployment,
+      },
+    };
+  }
+
+  // The resources the deployment's template declared
+  private resources(
+    service: ServiceConfig | null,
+    deployment: DeploymentRecord,
+  ): PlannedResource[] {
+    try {
+      return service && this.templateEngine.hasTemplate(service)
+        ? summarizeResources(
+            this.templateEngine.render(service, deployment.formData),
+          )
+        : [];
+    } catch (error) {
+      console.error('Error summarizing template resources:', error);
+      return [];
+    }
+  }
+}
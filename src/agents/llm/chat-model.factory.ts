@@ -0,0 +1,37 @@
+import { ChatModelProvider } from './chat-model.provider';
+import { GeminiChatModelProvider } from './gemini.provider';
+import { OpenAICompatibleChatModelProvider } from './openai-compatible.provider';
+import { ScriptedChatModelProvider } from './scripted.provider';
+
+/**
+ * Picks the chat model from LLM_PROVIDER (gemini | openai | scripted). When
+ * no provider is configured we use Gemini if a key is present and fall back to
+ * the offline scripted provider otherwise, so the service always boots.
+ */
+export function createChatModelProvider(
+  env: NodeJS.ProcessEnv = process.env,
+): ChatModelProvider {
+  const provider = (
+    env.LLM_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'scripted')
+  ).toLowerCase();
+
+  switch (provider) {
+    case 'gemini':
+      return new GeminiChatModelProvider({
+        apiKey: env.GEMINI_API_KEY,
+        model: env.GEMINI_MODEL,
+      });
+    case 'openai':
+      return new OpenAICompatibleChatModelProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL,
+        model: env.OPENAI_MODEL,
+        jsonMode: env.OPENAI_JSON_MODE !== 'false',
+      });
+    case 'scripted':
+      console.warn('Using the offline scripted chat model provider');
+      return new ScriptedChatModelProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+}
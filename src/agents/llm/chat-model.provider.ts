@@ -0,0 +1,55 @@
+import { BaseMessage } from '@langchain/core/messages';
+
+export const CHAT_MODEL_PROVIDER = 'CHAT_MODEL_PROVIDER';
+
+/**
+ * Minimal contract the agent needs from a chat model. Every prompt the agent
+ * sends asks for JSON back, so providers return the raw text content and the
+ * caller does the parsing.
+ */
+export interface ChatModelProvider {
+  readonly name: string;
+  invoke(messages: BaseMessage[]): Promise<string>;
+  stream(messages: BaseMessage[]): AsyncIterable<string>;
+}
+
+// The subset of a LangChain chat model the adapters below rely on
+interface LangChainChatModel {
+  invoke(messages: BaseMessage[]): Promise<{ content: unknown }>;
+  stream(messages: BaseMessage[]): Promise<AsyncIterable<{ content: unknown }>>;
+}
+
+// Shared adapter for providers backed by a LangChain chat model
+export abstract class LangChainChatModelProvider implements ChatModelProvider {
+  abstract readonly name: string;
+
+  protected constructor(protected readonly model: LangChainChatModel) {}
+
+  async invoke(messages: BaseMessage[]): Promise<string> {
+    const result = await this.model.invoke(messages);
+    return contentToString(result.content);
+  }
+
+  async *stream(messages: BaseMessage[]): AsyncIterable<string> {
+    const chunks = await this.model.stream(messages);
+    for await (const chunk of chunks) {
+      const text = contentToString(chunk.content);
+      if (text) {
+        yield text;
+      }
+    }
+  }
+}
+
+// Flattens LangChain message content (a string or a list of parts) into text
+export function contentToString(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part: { text?: string } | string) =>
+        typeof part === 'string' ? part : part?.text || '',
+      )
+      .join('');
+  }
+  return content == null ? '' : JSON.stringify(content);
+}
@@ -0,0 +1,30 @@
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { LangChainChatModelProvider } from './chat-model.provider';
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export class GeminiChatModelProvider extends LangChainChatModelProvider {
+  readonly name = 'gemini';
+
+  constructor(options: GeminiProviderOptions = {}) {
+    const apiKey = options.apiKey;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is not set');
+    }
+
+    super(
+      new ChatGoogleGenerativeAI({
+        apiKey,
+        model: options.model || 'gemini-1.5-flash',
+        temperature: options.temperature ?? 0.2,
+        maxOutputTokens: options.maxOutputTokens ?? 2048,
+        json: true,
+      }),
+    );
+  }
+}
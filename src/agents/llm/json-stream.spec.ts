@@ -0,0 +1,29 @@
+import { JsonStringFieldStream } from './json-stream';
+
+describe('JsonStringFieldStream', () => {
+  it('emits the decoded answer as chunks arrive', () => {
+    const stream = new JsonStringFieldStream('answer');
+    const chunks = [
+      '{"ans',
+      'wer": "Hel',
+      'lo\\',
+      'n**world**',
+      '\\u00',
+      'e9"}',
+    ];
+
+    const deltas = chunks.map((chunk) => stream.push(chunk));
+
+    expect(deltas).toEqual(['', 'Hel', 'lo', '\n**world**', '', 'é']);
+    expect(deltas.join('')).toBe(
+      (JSON.parse(stream.raw) as { answer: string }).answer,
+    );
+  });
+
+  it('ignores other properties', () => {
+    const stream = new JsonStringFieldStream('answer');
+
+    expect(stream.push('{"role": "assistant", ')).toBe('');
+    expect(stream.push('"answer": "ok"}')).toBe('ok');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Incrementally extracts the value of a top-level string property (e.g.
+ * "answer") from a JSON document that is still being streamed, so the text can
+ * be forwarded to the client before the closing brace arrives.
+ */
+export class JsonStringFieldStream {
+  private buffer = '';
+  private emitted = 0;
+
+  constructor(private readonly key: string) {}
+
+  // Feeds the next raw chunk and returns the newly decoded text, if any
+  push(chunk: string): string {
+    this.buffer += chunk;
+    const value = this.decodePartialValue();
+    if (value === null || value.length <= this.emitted) return '';
+
+    const delta = value.slice(this.emitted);
+    this.emitted = value.length;
+    return delta;
+  }
+
+  get raw(): string {
+    return this.buffer;
+  }
+
+  private decodePartialValue(): string | null {
+    const start = new RegExp(`"${this.key}"\\s*:\\s*"`).exec(this.buffer);
+    if (!start) return null;
+
+    let value = '';
+    let i = start.index + start[0].length;
+    while (i < this.buffer.length) {
+      const char = this.buffer[i];
+      if (char === '"') break;
+      if (char !== '\\') {
+        value += char;
+        i += 1;
+        continue;
+      }
+
+      // Wait for the rest of an escape sequence before decoding it
+      const next = this.buffer[i + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = this.buffer.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      i += 2;
+    }
+    return value;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+};
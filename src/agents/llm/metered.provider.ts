@@ -0,0 +1,40 @@
+import { BaseMessage } from '@langchain/core/messages';
+import { ChatModelProvider, contentToString } from './chat-model.provider';
+import { UsageTracker, estimateTokens } from '../../usage/usage.tracker';
+
+// Charges the tokens of every prompt and answer to the user whose turn made the call
+export class MeteredChatModelProvider implements ChatModelProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: ChatModelProvider,
+    private readonly usage: UsageTracker,
+  ) {
+    this.name = inner.name;
+  }
+
+  async invoke(messages: BaseMessage[]): Promise<string> {
+    const answer = await this.inner.invoke(messages);
+    this.usage.recordLlmTokens(promptTokens(messages) + estimateTokens(answer));
+    return answer;
+  }
+
+  async *stream(messages: BaseMessage[]): AsyncIterable<string> {
+    let tokens = promptTokens(messages);
+    try {
+      for await (const chunk of this.inner.stream(messages)) {
+        tokens += estimateTokens(chunk);
+        yield chunk;
+      }
+    } finally {
+      this.usage.recordLlmTokens(tokens);
+    }
+  }
+}
+
+const promptTokens = (messages: BaseMessage[]) =>
+  messages.reduce(
+    (total, message) =>
+      total + estimateTokens(contentToString(message.content)),
+    0,
+  );
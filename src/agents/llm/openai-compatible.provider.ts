@@ -0,0 +1,41 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { LangChainChatModelProvider } from './chat-model.provider';
+
+export interface OpenAICompatibleProviderOptions {
+  apiKey?: string;
+  // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8000/v1 for vLLM
+  baseUrl?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+}
+
+export class OpenAICompatibleChatModelProvider extends LangChainChatModelProvider {
+  readonly name = 'openai';
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    if (!options.apiKey && !options.baseUrl) {
+      throw new Error(
+        'OPENAI_API_KEY or OPENAI_BASE_URL environment variable must be set',
+      );
+    }
+
+    super(
+      new ChatOpenAI({
+        // Local OpenAI-compatible servers usually ignore the key, but the client requires one
+        apiKey: options.apiKey || 'not-needed',
+        model: options.model || 'gpt-4o-mini',
+        temperature: options.temperature ?? 0.2,
+        maxTokens: options.maxTokens ?? 2048,
+        configuration: options.baseUrl
+          ? { baseURL: options.baseUrl }
+          : undefined,
+        modelKwargs:
+          options.jsonMode === false
+            ? undefined
+            : { response_format: { type: 'json_object' } },
+      }),
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { ScriptedChatModelProvider } from './scripted.provider';
+
+describe('ScriptedChatModelProvider', () => {
+  let provider: ScriptedChatModelProvider;
+
+  beforeEach(() => {
+    provider = new ScriptedChatModelProvider();
+  });
+
+  it('detects a deploy action from the user message', async () => {
+    const content = await provider.invoke([
+      new SystemMessage('You need to determine the appropriate action.'),
+      new HumanMessage('Deploy a virtual machine on azure'),
+    ]);
+
+    expect(JSON.parse(content)).toEqual({
+      action: {
+        type: 'DEPLOY',
+        payload: {
+          service: 'Virtual Machine',
+          csp: 'azure',
+          message: 'Deploy a virtual machine on azure',
+        },
+      },
+    });
+  });
+
+  it('generates example values for every field in the prompt', async () => {
+    const fields = [
+      { fieldId: 'subnets', fieldName: 'Subnets', fieldTypeValue: 'List' },
+      { fieldId: 'size', fieldName: 'Size', fieldTypeValue: 'Number' },
+    ];
+    const content = await provider.invoke([
+      new SystemMessage(
+        `Generate example values.\n    Fields: ${JSON.stringify(fields)}`,
+      ),
+    ]);
+
+    const parsed = JSON.parse(content) as {
+      fields: Array<{ exampleValue: string }>;
+    };
+    expect(parsed.fields.map((f) => f.exampleValue)).toEqual([
+      'subnets-1,subnets-2',
+      '20',
+    ]);
+  });
+
+  it('uses custom rules and falls back when nothing matches', async () => {
+    provider = new ScriptedChatModelProvider(
+      [{ name: 'ping', match: /ping/, respond: () => 'pong' }],
+      { answer: 'fallback' },
+    );
+
+    expect(await provider.invoke([new SystemMessage('ping')])).toBe('pong');
+    expect(await provider.invoke([new SystemMessage('other')])).toBe(
+      '{"answer":"fallback"}',
+    );
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('streams the same content it would return', async () => {
+    const messages = [
+      new SystemMessage('generate a helpful response'),
+      new HumanMessage('hello'),
+    ];
+    let streamed = '';
+    for await (const chunk of provider.stream(messages)) {
+      streamed += chunk;
+    }
+
+    expect(streamed).toBe(await provider.invoke(messages));
+  });
+});
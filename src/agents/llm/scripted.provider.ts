@@ -0,0 +1,63 @@
+import { BaseMessage } from '@langchain/core/messages';
+import { ChatModelProvider, contentToString } from './chat-model.provider';
+import { DEFAULT_SCRIPTED_RULES } from './scripted.rules';
+
+export interface ScriptedPromptContext {
+  system: string;
+  human: string;
+  messages: BaseMessage[];
+}
+
+export interface ScriptedRule {
+  name: string;
+  // Tested against the system prompt of the request
+  match: RegExp;
+  respond: (context: ScriptedPromptContext) => string | object;
+}
+
+/**
+ * Offline provider that answers from a list of canned rules instead of a
+ * model. The first rule whose pattern matches the system prompt wins, so the
+ * whole workflow is deterministic and needs no network access.
+ */
+export class ScriptedChatModelProvider implements ChatModelProvider {
+  readonly name = 'scripted';
+  readonly calls: ScriptedPromptContext[] = [];
+
+  constructor(
+    private readonly rules: ScriptedRule[] = DEFAULT_SCRIPTED_RULES,
+    private readonly fallback: string | object = {
+      answer: 'I am running in offline mode and cannot answer that right now.',
+    },
+  ) {}
+
+  invoke(messages: BaseMessage[]): Promise<string> {
+    return Promise.resolve(this.respond(messages));
+  }
+
+  async *stream(messages: BaseMessage[]): AsyncIterable<string> {
+    const text = await this.invoke(messages);
+    // Emit word-sized chunks so streaming consumers see incremental output
+    for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+      yield chunk;
+    }
+  }
+
+  private respond(messages: BaseMessage[]): string {
+    const context: ScriptedPromptContext = {
+      system: messages
+        .filter((m) => m.getType() === 'system')
+        .map((m) => contentToString(m.content))
+        .join('\n'),
+      human: contentToString(
+        [...messages].reverse().find((m) => m.getType() === 'human')?.content,
+      ),
+      messages,
+    };
+    this.calls.push(context);
+
+    const rule = this.rules.find((r) => r.match.test(context.system));
+    const result = rule ? rule.respond(context) : this.fallback;
+    return typeof result === 'string' ? result : JSON.stringify(result);
+  }
+}
@@ -0,0 +1,213 @@
+import { contentToString } from './chat-model.provider';
+import { extractFieldValues } from '../../services/field-extractor';
+import { ServiceField } from '../../services/types';
+import type { ScriptedPromptContext, ScriptedRule } from './scripted.provider';
+
+interface PromptField {
+  fieldId: string;
+  fieldName: string;
+  fieldTypeValue: string;
+}
+
+const CSP_PATTERN = /\b(aws|azure|gcp|oracle)\b/i;
+
+const SERVICE_KEYWORDS: Array<[RegExp, string]> = [
+  [/virtual machine|\bvms?\b|instance|server|ec2|compute/i, 'Virtual Machine'],
+  [/load ?balancer|\belb\b|\balb\b/i, 'Load Balancer'],
+  [/database|\bdb\b|\brds\b|\bsql\b/i, 'Database'],
+  [/\bvpc\b|network/i, 'VPC'],
+  [/resource group/i, 'Resource Group'],
+  [/project/i, 'Project'],
+  [/compartment/i, 'Compartment'],
+];
+
+function detectAction({ human: text, messages }: ScriptedPromptContext): {
+  type: string;
+  payload: any;
+} {
+  const csp = text.match(CSP_PATTERN)?.[1]?.toLowerCase();
+  const service = SERVICE_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1];
+  const message = text.trim();
+
+  if (/how many|previous questions|what.*asked|history|summar/i.test(text)) {
+    // The current query is repeated at the end of the history, count it once
+    const questionCount =
+      new Set(
+        messages
+          .filter((m) => m.getType() === 'human')
+          .map((m) => contentToString(m.content)),
+      ).size - 1;
+    return {
+      type: 'CONVERSATION_SUMMARY',
+      payload: {
+        message: `You have asked ${questionCount} questions so far.`,
+        questionCount,
+      },
+    };
+  }
+  if (/\bapprovals?\b|awaiting approval|pending approval/i.test(text)) {
+    return { type: 'APPROVALS', payload: { message } };
+  }
+  if (/status|progress/i.test(text) && /deploy/i.test(text)) {
+    const deploymentId = text.match(/\bdep-[\w-]+/)?.[0];
+    return { type: 'DEPLOYMENT_STATUS', payload: { deploymentId, message } };
+  }
+  if (
+    /\b(cost|price|pricing|how much|cheaper|cheapest|expensive)\b/i.test(text)
+  ) {
+    const csps = [
+      ...new Set(
+        [...text.matchAll(new RegExp(CSP_PATTERN, 'gi'))].map((match) =>
+          match[1].toLowerCase(),
+        ),
+      ),
+    ];
+    return { type: 'COST_ESTIMATE', payload: { service, csp, csps, message } };
+  }
+  if (
+    /equivalent|counterpart|translate|migrate|\bmove\b|\bport\b/i.test(text)
+  ) {
+    // "the Azure equivalent of this AWS VM", "move it to GCP"
+    const targetCsp = (
+      text.match(/\b(?:to|into|onto)\s+(aws|azure|gcp|oracle)\b/i)?.[1] ||
+      text.match(
+        /\b(aws|azure|gcp|oracle)\s+(?:equivalent|counterpart|version)/i,
+      )?.[1]
+    )?.toLowerCase();
+    const source = [...text.matchAll(new RegExp(CSP_PATTERN, 'gi'))]
+      .map((match) => match[1].toLowerCase())
+      .find((cloud) => cloud !== targetCsp);
+    return {
+      type: 'TRANSLATE_SERVICE',
+      payload: { service, csp: source, targetCsp, message },
+    };
+  }
+  if (/terraform|\bhcl\b/i.test(text)) {
+    return { type: 'TERRAFORM_EXPORT', payload: { service, csp, message } };
+  }
+  if (/\b(destroy|tear down|teardown|delete|decommission)\b/i.test(text)) {
+    const deploymentId = text.match(/\bdep-[\w-]+/)?.[0];
+    return {
+      type: 'DESTROY',
+      payload: { service, csp, deploymentId, message },
+    };
+  }
+  if (
+    /\b(configure|reconfigure|resize|modify|scale|change|increase)\b/i.test(
+      text,
+    ) ||
+    /\b(add|attach|remove|detach)\b.*security groups?/i.test(text)
+  ) {
+    const deploymentId = text.match(/\bdep-[\w-]+/)?.[0];
+    return {
+      type: 'CONFIGURE',
+      payload: { service, csp, deploymentId, message },
+    };
+  }
+  if (/deploy|provision|create|launch|spin up/i.test(text)) {
+    return { type: 'DEPLOY', payload: { service, csp, message } };
+  }
+  if (/security groups?|firewalls?|list|show my/i.test(text)) {
+    const resourceType = /security groups?|firewalls?/i.test(text)
+      ? 'security group'
+      : service;
+    return { type: 'LIST_RESOURCES', payload: { resourceType, csp, message } };
+  }
+  if (/options|providers|available services/i.test(text)) {
+    return { type: 'VIEW_CSP_OPTIONS', payload: { csp, message } };
+  }
+  if (csp && /prefer|select|choose|go with|use|switch/i.test(text)) {
+    return { type: 'SELECT_CSP', payload: { csp, message } };
+  }
+  return { type: 'GENERAL_RESPONSE', payload: { csp, message } };
+}
+
+function exampleValueFor(field: PromptField): string {
+  switch (String(field.fieldTypeValue).toLowerCase()) {
+    case 'number':
+      return '20';
+    case 'list':
+      return `${field.fieldId}-1,${field.fieldId}-2`;
+    default:
+      return `example-${field.fieldId.toLowerCase()}`;
+  }
+}
+
+function exampleValues({ system }: ScriptedPromptContext) {
+  let fields: PromptField[] = [];
+  const match = system.match(/Fields: (\[.*\])/);
+  if (match) {
+    try {
+      fields = JSON.parse(match[1]) as PromptField[];
+    } catch {
+      fields = [];
+    }
+  }
+  return {
+    fields: fields.map((field) => ({
+      fieldId: field.fieldId,
+      exampleValue: exampleValueFor(field),
+      explanation: `Example value for ${field.fieldName}.`,
+    })),
+  };
+}
+
+function fieldValues({ system, human }: ScriptedPromptContext) {
+  let fields: ServiceField[] = [];
+  try {
+    fields = JSON.parse(
+      system.match(/Fields: (\[.*\])/)?.[1] || '[]',
+    ) as ServiceField[];
+  } catch {
+    fields = [];
+  }
+  const pending = system.match(/just asked for: (\w+)/)?.[1];
+  return { values: extractFieldValues(fields, human, pending) };
+}
+
+function conversationSummary({ messages }: ScriptedPromptContext) {
+  const previousQuestions = messages
+    .filter((m) => m.getType() === 'human')
+    .map((m) => contentToString(m.content))
+    .slice(0, -1);
+  return {
+    role: 'assistant',
+    workflow: 'conversationSummary',
+    response: {
+      message: `You have asked ${previousQuestions.length} questions so far.`,
+      previousQuestions,
+      questionCount: previousQuestions.length,
+    },
+  };
+}
+
+// Canned answers for each prompt the agent sends, matched on the system prompt
+export const DEFAULT_SCRIPTED_RULES: ScriptedRule[] = [
+  {
+    name: 'findAction',
+    match: /determine the appropriate action/i,
+    respond: (context) => ({ action: detectAction(context) }),
+  },
+  {
+    name: 'generateExampleValues',
+    match: /Generate example values/i,
+    respond: exampleValues,
+  },
+  {
+    name: 'extractFieldValues',
+    match: /Extract values for the following/i,
+    respond: fieldValues,
+  },
+  {
+    name: 'conversationSummary',
+    match: /asking about their conversation history/i,
+    respond: conversationSummary,
+  },
+  {
+    name: 'generateUnifiedResponse',
+    match: /generate a helpful response/i,
+    respond: ({ human }) => ({
+      answer: `I'm running in offline mode, so I can't give a detailed answer to "${human.trim()}" right now. I can still help you deploy and manage cloud services.`,
+    }),
+  },
+];
@@ -0,0 +1,61 @@
+import { ApprovalRequest } from '../approvals/types';
+import { DeploymentPlan, DeploymentRecord } from '../deployments/types';
+import { InventoryResource } from '../inventory/types';
+import { CostEstimate } from '../pricing/types';
+import { PlannedResource } from '../templates/types';
+import { TerraformModule } from '../terraform/terraform.generator';
+import { CrossCloudTranslation } from '../translation/types';
+
+export type AgentStreamEventType =
+  | 'action'
+  | 'service'
+  | 'examples'
+  | 'token'
+  | 'final'
+  | 'error';
+
+export interface AgentStreamEvent {
+  type: AgentStreamEventType;
+  data: any;
+}
+
+export type AgentEventEmitter = (event: AgentStreamEvent) => void;
+
+// What a chat turn returns: the workflow that handled it and its response
+export interface AgentReply {
+  role: string;
+  workflow: string;
+  response: AgentReplyBody;
+}
+
+// The keys workflows commonly set; any workflow may add its own
+export interface AgentReplyBody {
+  message: string;
+  menu?: string[];
+  status?: string;
+  reason?: string;
+  plan?: DeploymentPlan;
+  deploymentId?: string;
+  approvalId?: string;
+  deployment?: DeploymentRecord;
+  // The catalog service a workflow found, or the name the LLM gave, if any
+  service?: AgentReplyService | string | null;
+  collected?: Record<string, string>;
+  nextField?: string;
+  candidates?: Array<{ id: string; name: string; cloud: string }>;
+  estimates?: Array<CostEstimate & { service: { id: string; name: string } }>;
+  translation?: CrossCloudTranslation;
+  terraform?: TerraformModule;
+  resources?: Array<InventoryResource | PlannedResource>;
+  approvals?: ApprovalRequest[];
+  rules?: string[];
+  retryAfterSeconds?: number;
+  [key: string]: unknown;
+}
+
+export interface AgentReplyService {
+  name: string;
+  cloud: string;
+  requiredFields?: Array<{ fieldId: string; exampleValue?: string }>;
+  [key: string]: unknown;
+}
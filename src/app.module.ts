@@ -2,9 +2,12 @@ import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ServicesModule } from './services/services.module';
+import { AgentModule } from './agents/agent.module';
+import { AuthModule } from './auth/auth.module';
+import { AuditModule } from './audit/audit.module';
 
 @Module({
-  imports: [ServicesModule],
+  imports: [AuthModule, AuditModule, ServicesModule, AgentModule],
   controllers: [AppController],
   providers: [AppService],
 })
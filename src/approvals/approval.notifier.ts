@@ -0,0 +1,68 @@
+import axios from 'axios';
+import { ApprovalEvent } from './types';
+
+export const APPROVAL_NOTIFIER = 'APPROVAL_NOTIFIER';
+
+// Tells approvers about new requests and requesters about decisions
+export interface ApprovalNotifier {
+  readonly name: string;
+  notify(event: ApprovalEvent): Promise<void>;
+}
+
+// One line of text for chat-style channels
+export function describeApprovalEvent({ type, approval }: ApprovalEvent) {
+  const { plan } = approval;
+  const subject = `${plan.serviceName} on ${plan.csp.toUpperCase()}${plan.deploymentId ? ` (change to ${plan.deploymentId})` : ''}`;
+  switch (type) {
+    case 'requested':
+      return `${approval.requestedBy} is waiting for approval of ${subject}, matched by ${approval.rules.join(', ')}. Approve or reject ${approval.id}.`;
+    case 'approved':
+      return `${approval.decidedBy} approved ${subject} for ${approval.requestedBy} (${approval.id}).`;
+    case 'rejected':
+      return `${approval.decidedBy} rejected ${subject} for ${approval.requestedBy} (${approval.id})${approval.reason ? `: ${approval.reason}` : ''}.`;
+  }
+}
+
+export class LogApprovalNotifier implements ApprovalNotifier {
+  readonly name = 'log';
+
+  notify(event: ApprovalEvent): Promise<void> {
+    console.log(`[approvals] ${describeApprovalEvent(event)}`);
+    return Promise.resolve();
+  }
+}
+
+// Posts { text, event } to a webhook, e.g. a Slack or Teams incoming webhook
+export class WebhookApprovalNotifier implements ApprovalNotifier {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string) {
+    if (!url) {
+      throw new Error('APPROVAL_WEBHOOK_URL must be set');
+    }
+  }
+
+  async notify(event: ApprovalEvent): Promise<void> {
+    await axios.post(this.url, {
+      text: describeApprovalEvent(event),
+      event: event.type,
+      approval: event.approval,
+    });
+  }
+}
+
+// Picks the notifier from APPROVAL_NOTIFIER (log | webhook), defaulting to log
+export function createApprovalNotifier(
+  env: NodeJS.ProcessEnv = process.env,
+): ApprovalNotifier {
+  const notifier = (env.APPROVAL_NOTIFIER || 'log').toLowerCase();
+
+  switch (notifier) {
+    case 'log':
+      return new LogApprovalNotifier();
+    case 'webhook':
+      return new WebhookApprovalNotifier(env.APPROVAL_WEBHOOK_URL || '');
+    default:
+      throw new Error(`Unknown APPROVAL_NOTIFIER "${notifier}"`);
+  }
+}
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApprovalPolicy } from './approval.policy';
+import { ApprovalStore } from './approval.store';
+import { DeploymentPlan } from '../deployments/types';
+import { CostEstimator } from '../pricing/cost.estimator';
+
+describe('ApprovalPolicy', () => {
+  const plan = (overrides: Partial<DeploymentPlan> = {}): DeploymentPlan => ({
+    token: 'plan-1',
+    status: 'confirmed',
+    serviceName: 'Database',
+    csp: 'aws',
+    userId: 'user-1',
+    threadId: 'default',
+    formData: {},
+    template: '{}',
+    resources: [],
+    estimatedCost: null,
+    validation: { valid: true, errors: [] },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    expiresAt: '2026-01-01T00:15:00.000Z',
+    ...overrides,
+  });
+  const cost = (monthly: number, complete = true) => ({
+    cloud: 'aws',
+    region: 'us-east-1',
+    currency: 'USD',
+    monthly,
+    lineItems: [],
+    complete,
+    warnings: [],
+  });
+
+  it('matches a rule only when all of its conditions hold', () => {
+    const policy = new ApprovalPolicy([
+      {
+        name: 'aws-prod-db',
+        csps: ['AWS'],
+        services: ['database'],
+        environments: ['production'],
+      },
+      { name: 'expensive', minMonthlyCost: 500 },
+    ]);
+
+    expect(policy.evaluate(plan({ estimatedCost: cost(12) }))).toEqual([]);
+    expect(
+      policy
+        .evaluate(
+          plan({
+            formData: { environment: 'Production' },
+            estimatedCost: cost(12),
+          }),
+        )
+        .map((rule) => rule.name),
+    ).toEqual(['aws-prod-db']);
+    expect(
+      policy.evaluate(
+        plan({
+          csp: 'azure',
+          formData: { environment: 'production' },
+          estimatedCost: cost(12),
+        }),
+      ),
+    ).toEqual([]);
+    expect(
+      policy
+        .evaluate(plan({ estimatedCost: cost(720) }))
+        .map((rule) => rule.name),
+    ).toEqual(['expensive']);
+    expect(policy.evaluate(plan({ estimatedCost: cost(12) }))).toEqual([]);
+  });
+
+  it('holds unpriced plans as expensive', () => {
+    const policy = new ApprovalPolicy([
+      { name: 'expensive', minMonthlyCost: 500 },
+    ]);
+
+    expect(
+      policy
+        .evaluate(plan({ estimatedCost: cost(11.5, false) }))
+        .map((rule) => rule.name),
+    ).toEqual(['expensive']);
+    // Without pricing data there is no estimate at all
+    expect(policy.evaluate(plan()).map((rule) => rule.name)).toEqual([
+      'expensive',
+    ]);
+
+    const database = { cloud: 'aws', template: 'database' };
+    const formData = {
+      dbInstanceIdentifier: 'orders',
+      dbEngine: 'postgres',
+      instanceClass: 'db.x2iedn.32xlarge',
+      allocatedStorage: '100',
+    };
+    const estimatedCost = new CostEstimator().estimate(database, formData);
+    expect(estimatedCost?.complete).toBe(false);
+    expect(policy.evaluate(plan({ formData, estimatedCost }))).toHaveLength(1);
+  });
+
+  it('reads the environment from the names in the plan', () => {
+    const policy = ApprovalPolicy.load();
+    const rules = (formData: Record<string, string>) =>
+      policy
+        .evaluate(plan({ formData, estimatedCost: cost(12) }))
+        .map((rule) => rule.name);
+
+    expect(rules({ dbInstanceIdentifier: 'orders-prod-db' })).toEqual([
+      'production',
+    ]);
+    expect(rules({ resourceGroup: 'rg-Production' })).toEqual(['production']);
+    expect(rules({ dbInstanceIdentifier: 'product-catalog' })).toEqual([]);
+  });
+});
+
+describe('ApprovalStore', () => {
+  it('records one decision per request and replays it from the log', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+    const filePath = path.join(dir, 'approvals.jsonl');
+    const store = new ApprovalStore(filePath);
+    const { id } = store.create({} as DeploymentPlan, 'user-1', ['production']);
+
+    expect(store.decide(id, true, 'user-1')).toMatchObject({
+      ok: false,
+      reason: 'own_request',
+    });
+    expect(store.decide(id, false, 'ops-1', 'Not this week')).toMatchObject({
+      ok: true,
+      approval: { status: 'rejected', decidedBy: 'ops-1' },
+    });
+    expect(store.decide(id, true, 'ops-2')).toMatchObject({
+      ok: false,
+      reason: 'decided',
+    });
+    expect(store.decide('apr-missing', true, 'ops-1').ok).toBe(false);
+
+    const replayed = new ApprovalStore(filePath);
+    expect(replayed.get(id)).toMatchObject({
+      status: 'rejected',
+      reason: 'Not this week',
+    });
+    expect(replayed.list({ status: 'pending_approval' })).toEqual([]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
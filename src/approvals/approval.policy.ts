@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeploymentPlan } from '../deployments/types';
+import { ApprovalRule, ApprovalRules } from './types';
+
+export const DEFAULT_APPROVAL_RULES_PATH = path.join(
+  process.cwd(),
+  'approval-rules.json',
+);
+
+const lower = (values?: string[]) =>
+  values?.map((value) => value.toLowerCase());
+
+// The catalog has no environment field, so it's read from what the plan names:
+// "web-prod-01", "rg-production" and an explicit environment value all count
+const nameTokens = (formData: Record<string, unknown>) =>
+  new Set(
+    Object.values(formData)
+      .filter((value): value is string => typeof value === 'string')
+      .flatMap((value) => value.toLowerCase().split(/[^a-z0-9]+/)),
+  );
+
+/**
+ * Decides which confirmed plans need an approver's sign-off, from the rules
+ * in approval-rules.json.
+ */
+export class ApprovalPolicy {
+  constructor(private readonly rules: ApprovalRule[]) {
+    rules.forEach((rule, index) => {
+      if (!rule?.name) {
+        throw new Error(`Approval rule ${index} has no name`);
+      }
+      if (
+        rule.minMonthlyCost !== undefined &&
+        typeof rule.minMonthlyCost !== 'number'
+      ) {
+        throw new Error(
+          `Approval rule ${rule.name}: minMonthlyCost must be a number`,
+        );
+      }
+    });
+  }
+
+  static load(filePath = DEFAULT_APPROVAL_RULES_PATH): ApprovalPolicy {
+    try {
+      const { rules } = JSON.parse(
+        fs.readFileSync(filePath, 'utf8'),
+      ) as ApprovalRules;
+      return new ApprovalPolicy(rules || []);
+    } catch (error) {
+      throw new Error(
+        `Cannot read approval rules ${filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  // The rules the plan matches; none means it can run straight away
+  evaluate(plan: DeploymentPlan): ApprovalRule[] {
+    const tokens = nameTokens(plan.formData);
+    const estimate = plan.estimatedCost;
+
+    return this.rules.filter(
+      (rule) =>
+        (!rule.csps || lower(rule.csps)?.includes(plan.csp.toLowerCase())) &&
+        (!rule.services ||
+          lower(rule.services)?.includes(plan.serviceName.toLowerCase())) &&
+        (!rule.environments ||
+          !!lower(rule.environments)?.some((env) => tokens.has(env))) &&
+        // A missing estimate or an unpriced line item could cost anything,
+        // so either counts as over
+        (rule.minMonthlyCost === undefined ||
+          !estimate ||
+          !estimate.complete ||
+          estimate.monthly >= rule.minMonthlyCost),
+    );
+  }
+}
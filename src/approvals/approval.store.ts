@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { DeploymentPlan } from '../deployments/types';
+import { ApprovalLookup, ApprovalRequest } from './types';
+
+/**
+ * Approval requests, persisted like the deployment registry: every change is
+ * appended to a JSONL log as a full snapshot and the latest one per id wins
+ * on replay. Pass no path to keep them in memory only.
+ */
+export class ApprovalStore {
+  private readonly approvals = new Map<string, ApprovalRequest>();
+
+  constructor(private readonly filePath?: string) {
+    this.replay();
+  }
+
+  create(
+    plan: DeploymentPlan,
+    requestedBy: string,
+    rules: string[],
+  ): ApprovalRequest {
+    return this.save({
+      id: `apr-${randomUUID()}`,
+      status: 'pending_approval',
+      plan,
+      requestedBy,
+      rules,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  get(id: string): ApprovalRequest | null {
+    return this.approvals.get(id) || null;
+  }
+
+  list(
+    filter: { status?: string; requestedBy?: string } = {},
+  ): ApprovalRequest[] {
+    // Oldest first: the queue is worked through in the order requests came in
+    return [...this.approvals.values()]
+      .filter(
+        (a) =>
+          (!filter.status || a.status === filter.status) &&
+          (!filter.requestedBy || a.requestedBy === filter.requestedBy),
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Records an approver's decision. Requesters can't approve their own requests.
+  decide(
+    id: string,
+    approved: boolean,
+    decidedBy: string,
+    reason?: string,
+  ): ApprovalLookup {
+    const approval = this.approvals.get(id);
+    if (!approval) return { ok: false, reason: 'not_found' };
+    if (approval.status !== 'pending_approval') {
+      return { ok: false, reason: 'decided', approval };
+    }
+    if (approval.requestedBy === decidedBy) {
+      return { ok: false, reason: 'own_request', approval };
+    }
+
+    return {
+      ok: true,
+      approval: this.save({
+        ...approval,
+        status: approved ? 'approved' : 'rejected',
+        decidedBy,
+        decidedAt: new Date().toISOString(),
+        reason,
+      }),
+    };
+  }
+
+  setDeployment(id: string, deploymentId: string): ApprovalRequest | null {
+    const approval = this.approvals.get(id);
+    return approval ? this.save({ ...approval, deploymentId }) : null;
+  }
+
+  private save(approval: ApprovalRequest): ApprovalRequest {
+    if (this.filePath) {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(approval)}\n`, 'utf8');
+    }
+    this.approvals.set(approval.id, approval);
+    return approval;
+  }
+
+  private replay() {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const approval = JSON.parse(line) as ApprovalRequest;
+        this.approvals.set(approval.id, approval);
+      } catch (e) {
+        console.error(`Skipping unreadable line in ${this.filePath}:`, e);
+      }
+    }
+  }
+}
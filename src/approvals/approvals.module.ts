@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import * as path from 'path';
+import { ApprovalPolicy } from './approval.policy';
+import { ApprovalStore } from './approval.store';
+import { DeploymentApprovals } from './deployment.approvals';
+import { APPROVAL_NOTIFIER, createApprovalNotifier } from './approval.notifier';
+
+@Module({
+  providers: [
+    {
+      provide: ApprovalPolicy,
+      useFactory: () =>
+        ApprovalPolicy.load(process.env.APPROVAL_RULES_PATH || undefined),
+    },
+    {
+      provide: ApprovalStore,
+      useFactory: () =>
+        new ApprovalStore(
+          process.env.APPROVAL_LOG_PATH ||
+            path.join(process.cwd(), 'data', 'approvals.jsonl'),
+        ),
+    },
+    {
+      provide: APPROVAL_NOTIFIER,
+      useFactory: () => createApprovalNotifier(),
+    },
+    DeploymentApprovals,
+  ],
+  exports: [DeploymentApprovals],
+})
+export class ApprovalsModule {}
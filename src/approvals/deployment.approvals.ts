@@ -0,0 +1,80 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DeploymentPlan } from '../deployments/types';
+import { ApprovalPolicy } from './approval.policy';
+import { ApprovalStore } from './approval.store';
+import { APPROVAL_NOTIFIER, ApprovalNotifier } from './approval.notifier';
+import {
+  ApprovalEventType,
+  ApprovalLookup,
+  ApprovalRequest,
+  ApprovalRule,
+} from './types';
+
+/**
+ * Holds confirmed plans that match an approval rule until an approver decides
+ * on them, and tells the approvers' channel about every request and decision.
+ */
+@Injectable()
+export class DeploymentApprovals {
+  constructor(
+    private readonly policy: ApprovalPolicy,
+    private readonly store: ApprovalStore,
+    @Inject(APPROVAL_NOTIFIER) private readonly notifier: ApprovalNotifier,
+  ) {}
+
+  // The rules that hold the plan back; none means it can run straight away
+  rulesFor(plan: DeploymentPlan): ApprovalRule[] {
+    return this.policy.evaluate(plan);
+  }
+
+  async request(
+    plan: DeploymentPlan,
+    requestedBy: string,
+    rules: ApprovalRule[],
+  ): Promise<ApprovalRequest> {
+    const approval = this.store.create(
+      plan,
+      requestedBy,
+      rules.map((rule) => rule.name),
+    );
+    await this.notify('requested', approval);
+    return approval;
+  }
+
+  get(id: string): ApprovalRequest | null {
+    return this.store.get(id);
+  }
+
+  list(filter: { status?: string; requestedBy?: string } = {}) {
+    return this.store.list(filter);
+  }
+
+  async decide(
+    id: string,
+    approved: boolean,
+    decidedBy: string,
+    reason?: string,
+  ): Promise<ApprovalLookup> {
+    const lookup = this.store.decide(id, approved, decidedBy, reason);
+    if (lookup.ok) {
+      await this.notify(approved ? 'approved' : 'rejected', lookup.approval);
+    }
+    return lookup;
+  }
+
+  setDeployment(id: string, deploymentId: string) {
+    return this.store.setDeployment(id, deploymentId);
+  }
+
+  // A notifier outage mustn't lose the request or the decision itself
+  private async notify(type: ApprovalEventType, approval: ApprovalRequest) {
+    try {
+      await this.notifier.notify({ type, approval });
+    } catch (error) {
+      console.error(
+        `Error sending approval notification via ${this.notifier.name}:`,
+        error,
+      );
+    }
+  }
+}
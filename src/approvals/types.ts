@@ -0,0 +1,53 @@
+import { DeploymentPlan } from '../deployments/types';
+
+/**
+ * When a confirmed plan has to be approved before it runs. Every condition
+ * given must hold for the rule to match; a plan needs approval when any rule
+ * matches it.
+ */
+export interface ApprovalRule {
+  name: string;
+  description?: string;
+  csps?: string[];
+  // Catalog service names, e.g. "Database"
+  services?: string[];
+  // Compared with the plan's "environment" form value, e.g. "production"
+  environments?: string[];
+  // Plans without a price never match a cost threshold
+  minMonthlyCost?: number;
+}
+
+export interface ApprovalRules {
+  rules: ApprovalRule[];
+}
+
+export type ApprovalStatus = 'pending_approval' | 'approved' | 'rejected';
+
+export interface ApprovalRequest {
+  id: string;
+  status: ApprovalStatus;
+  plan: DeploymentPlan;
+  requestedBy: string;
+  // The names of the rules that matched the plan
+  rules: string[];
+  createdAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  reason?: string;
+  // Set once an approved plan has been handed to the deployment backend
+  deploymentId?: string;
+}
+
+export type ApprovalEventType = 'requested' | 'approved' | 'rejected';
+
+export interface ApprovalEvent {
+  type: ApprovalEventType;
+  approval: ApprovalRequest;
+}
+
+// Why a decision on an approval request was refused
+export type ApprovalRejection = 'not_found' | 'decided' | 'own_request';
+
+export type ApprovalLookup =
+  | { ok: true; approval: ApprovalRequest }
+  | { ok: false; reason: ApprovalRejection; approval?: ApprovalRequest };
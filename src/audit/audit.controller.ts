@@ -0,0 +1,35 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from '../auth/auth.decorators';
+import { AuditLog } from './audit.log';
+import { AuditQuery } from './types';
+
+type AuditQueryParams = Omit<AuditQuery, 'limit'> & { limit?: string };
+
+@Controller('audit')
+@RequireRole('admin')
+export class AuditController {
+  constructor(private readonly audit: AuditLog) {}
+
+  // e.g. /audit?userId=user-1&type=deployment.submitted&from=2026-01-01
+  @Get()
+  query(
+    @Query() query: AuditQueryParams,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    if (limit !== undefined && limit < 1) {
+      throw new BadRequestException('limit must be a positive integer');
+    }
+    return this.audit.query({ ...query, limit });
+  }
+
+  @Get('verify')
+  verify() {
+    return this.audit.verify();
+  }
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog, verifyAuditFile } from './audit.log';
+import { REDACTED, redactFormData } from './redact';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let filePath: string;
+
+  const writeEntries = () => {
+    const audit = new AuditLog(filePath);
+    ['user-1', 'user-2', 'user-1'].forEach((userId, index) =>
+      audit.record({
+        type: 'agent.action',
+        actor: { userId, roles: ['deployer'] },
+        action: index === 1 ? 'DESTROY' : 'DEPLOY',
+        outcome: 'deployment_plan',
+      }),
+    );
+    return audit;
+  };
+  const lines = () => fs.readFileSync(filePath, 'utf8').split('\n');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    filePath = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('chains entries and continues the chain after a restart', () => {
+    writeEntries();
+    const audit = new AuditLog(filePath);
+    const next = audit.record({
+      type: 'deployment.destroyed',
+      actor: { userId: 'user-2' },
+    });
+
+    expect(next.seq).toBe(4);
+    expect(audit.verify()).toEqual({ valid: true, entries: 4, problems: [] });
+    expect(audit.query({ userId: 'user-1' }).map((e) => e.seq)).toEqual([3, 1]);
+    expect(audit.query({ action: 'DESTROY', limit: 5 })).toHaveLength(1);
+  });
+
+  it('detects modified, removed and truncated entries', () => {
+    writeEntries();
+    const original = lines();
+
+    fs.writeFileSync(
+      filePath,
+      original.join('\n').replace('"user-2"', '"user-3"'),
+    );
+    expect(verifyAuditFile(filePath).problems).toEqual([
+      { line: 2, seq: 2, message: 'Modified since it was written' },
+    ]);
+
+    fs.writeFileSync(filePath, [original[0], ...original.slice(2)].join('\n'));
+    expect(
+      verifyAuditFile(filePath).problems.map((problem) => problem.line),
+    ).toEqual([2, 2]);
+
+    fs.writeFileSync(filePath, original.slice(0, 2).join('\n') + '\n');
+    const truncated = verifyAuditFile(filePath);
+    expect(truncated.valid).toBe(false);
+    expect(truncated.problems.map((problem) => problem.message)).toEqual([
+      'The log should end at entry 3; entries were removed from the end',
+    ]);
+  });
+
+  it('redacts secrets from form data', () => {
+    expect(
+      redactFormData(
+        {
+          instanceName: 'web-01',
+          adminPassword: 'hunter2',
+          keyName: 'ops',
+          dbUser: 'app',
+        },
+        [
+          {
+            fieldId: 'dbUser',
+            sensitive: true,
+          } as never,
+        ],
+      ),
+    ).toEqual({
+      instanceName: 'web-01',
+      adminPassword: REDACTED,
+      keyName: 'ops',
+      dbUser: REDACTED,
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import {
+  AuditEntry,
+  AuditEvent,
+  AuditProblem,
+  AuditQuery,
+  AuditVerification,
+} from './types';
+
+// The prevHash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+export const sha256 = (text: string) =>
+  createHash('sha256').update(text).digest('hex');
+
+// JSON with object keys sorted, so a hash doesn't depend on key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return sha256(canonicalJson(entry));
+}
+
+/**
+ * Checks that every entry follows on from the one before it and still hashes
+ * to what was recorded. The head, when given, is the last entry the log wrote,
+ * which catches entries removed from the end.
+ */
+export function verifyAuditChain(
+  lines: string[],
+  head?: { seq: number; hash: string } | null,
+): AuditVerification {
+  const problems: AuditProblem[] = [];
+  let previous: AuditEntry | null = null;
+  let entries = 0;
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    if (!text.trim()) return;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(text) as AuditEntry;
+    } catch {
+      problems.push({ line, message: 'Unreadable entry' });
+      return;
+    }
+    entries++;
+
+    const { hash, ...content } = entry;
+    const expectedSeq = (previous?.seq ?? 0) + 1;
+    if (entry.seq !== expectedSeq) {
+      problems.push({
+        line,
+        seq: entry.seq,
+        message: `Expected entry ${expectedSeq}; entries are missing or out of order`,
+      });
+    }
+    if (entry.prevHash !== (previous?.hash ?? GENESIS_HASH)) {
+      problems.push({
+        line,
+        seq: entry.seq,
+        message: "Doesn't follow on from the previous entry",
+      });
+    }
+    if (hashEntry(content) !== hash) {
+      problems.push({
+        line,
+        seq: entry.seq,
+        message: 'Modified since it was written',
+      });
+    }
+    previous = entry;
+  });
+
+  const last = previous as AuditEntry | null;
+  if (head && (last?.seq !== head.seq || last?.hash !== head.hash)) {
+    problems.push({
+      line: lines.length,
+      seq: last?.seq,
+      message: `The log should end at entry ${head.seq}; entries were removed from the end`,
+    });
+  }
+
+  return { valid: problems.length === 0, entries, problems };
+}
+
+/**
+ * Append-only record of who asked the agent for what and what it did. Entries
+ * are hash-chained JSONL; the hash of the newest entry is also kept in a
+ * `.head` file next to the log so truncation shows up in verify. Pass no path
+ * to keep the log in memory only.
+ */
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+
+  constructor(private readonly filePath?: string) {
+    this.replay();
+  }
+
+  record(event: AuditEvent): AuditEntry {
+    const last = this.entries[this.entries.length - 1];
+    const content = {
+      ...event,
+      seq: (last?.seq ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      prevHash: last?.hash ?? GENESIS_HASH,
+    };
+    const entry: AuditEntry = { ...content, hash: hashEntry(content) };
+
+    if (this.filePath) {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      fs.writeFileSync(
+        this.headPath,
+        JSON.stringify({ seq: entry.seq, hash: entry.hash }),
+        'utf8',
+      );
+    }
+    this.entries.push(entry);
+    return entry;
+  }
+
+  // Newest first
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const matches = (value: string | undefined, wanted?: string) =>
+      !wanted || value === wanted;
+
+    return this.entries
+      .filter(
+        (entry) =>
+          matches(entry.actor.userId, filter.userId) &&
+          matches(entry.type, filter.type) &&
+          matches(entry.action, filter.action) &&
+          matches(entry.service, filter.service) &&
+          matches(entry.csp, filter.csp) &&
+          matches(entry.deploymentId, filter.deploymentId) &&
+          matches(entry.outcome, filter.outcome) &&
+          (!filter.from || entry.timestamp >= filter.from) &&
+          (!filter.to || entry.timestamp <= filter.to),
+      )
+      .reverse()
+      .slice(0, filter.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  // Re-reads the log from disk, so changes made behind the service's back are caught
+  verify(): AuditVerification {
+    if (!this.filePath) {
+      return verifyAuditChain(
+        this.entries.map((entry) => JSON.stringify(entry)),
+      );
+    }
+    return verifyAuditFile(this.filePath);
+  }
+
+  private get headPath() {
+    return `${this.filePath}.head`;
+  }
+
+  private replay() {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.entries.push(JSON.parse(line) as AuditEntry);
+      } catch (e) {
+        console.error(`Skipping unreadable line in ${this.filePath}:`, e);
+      }
+    }
+  }
+}
+
+export function verifyAuditFile(filePath: string): AuditVerification {
+  const lines = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, 'utf8').replace(/\n$/, '').split('\n')
+    : [];
+  const headPath = `${filePath}.head`;
+  const head = fs.existsSync(headPath)
+    ? (JSON.parse(fs.readFileSync(headPath, 'utf8')) as {
+        seq: number;
+        hash: string;
+      })
+    : null;
+
+  const verification = verifyAuditChain(lines, head);
+  if (!head && verification.entries > 0) {
+    verification.problems.push({
+      line: lines.length,
+      message: `${headPath} is missing, so removed entries at the end can't be ruled out`,
+    });
+    verification.valid = false;
+  }
+  return verification;
+}
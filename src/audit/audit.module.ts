@@ -0,0 +1,24 @@
+import { Global, Module } from '@nestjs/common';
+import * as path from 'path';
+import { AuditLog } from './audit.log';
+import { AuditController } from './audit.controller';
+
+export const DEFAULT_AUDIT_LOG_PATH = path.join(
+  process.cwd(),
+  'data',
+  'audit.jsonl',
+);
+
+@Global()
+@Module({
+  controllers: [AuditController],
+  providers: [
+    {
+      provide: AuditLog,
+      useFactory: () =>
+        new AuditLog(process.env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH),
+    },
+  ],
+  exports: [AuditLog],
+})
+export class AuditModule {}
@@ -0,0 +1,23 @@
+import { ServiceField } from '../services/types';
+
+export const REDACTED = '[REDACTED]';
+
+// Field ids that hold credentials even when the catalog doesn't say so
+const SECRET_FIELD =
+  /password|passwd|secret|token|credential|private_?key|api_?key|access_?key|connection_?string/i;
+
+// formData with the values of sensitive fields replaced, for logs that outlive the request
+export function redactFormData(
+  formData: Record<string, unknown>,
+  fields: ServiceField[] = [],
+): Record<string, unknown> {
+  const sensitive = new Set(
+    fields.filter((field) => field.sensitive).map((field) => field.fieldId),
+  );
+  return Object.fromEntries(
+    Object.entries(formData).map(([fieldId, value]) => [
+      fieldId,
+      sensitive.has(fieldId) || SECRET_FIELD.test(fieldId) ? REDACTED : value,
+    ]),
+  );
+}
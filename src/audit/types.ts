@@ -0,0 +1,74 @@
+export type AuditEventType =
+  // A chat turn: what the caller asked for and how the agent answered
+  | 'agent.action'
+  | 'deployment.planned'
+  | 'deployment.submitted'
+  | 'deployment.updated'
+  | 'deployment.destroyed'
+  | 'approval.requested'
+  | 'approval.decided';
+
+export interface AuditActor {
+  userId: string;
+  roles?: string[];
+  // The auth provider that established the caller's identity
+  provider?: string;
+}
+
+export interface AuditEvent {
+  type: AuditEventType;
+  actor: AuditActor;
+  // The detected agent action, e.g. DEPLOY
+  action?: string;
+  service?: string;
+  csp?: string;
+  deploymentId?: string;
+  planToken?: string;
+  approvalId?: string;
+  // With secret values replaced; see redactFormData
+  formData?: Record<string, unknown>;
+  // sha256 of the rendered template
+  templateHash?: string;
+  // The response workflow, or how the deployment call went
+  outcome?: string;
+  message?: string;
+}
+
+/**
+ * One line of the audit log. Each entry's hash covers its content and the
+ * previous entry's hash, so editing or removing any entry breaks the chain
+ * from there on.
+ */
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  userId?: string;
+  type?: string;
+  action?: string;
+  service?: string;
+  csp?: string;
+  deploymentId?: string;
+  outcome?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface AuditProblem {
+  // The line in the log, counting from 1
+  line: number;
+  seq?: number;
+  message: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  problems: AuditProblem[];
+}
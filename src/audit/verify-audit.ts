@@ -0,0 +1,33 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { verifyAuditFile } from './audit.log';
+
+// Checks the audit log's hash chain: verify-audit [path]. Exits 1 when it's broken.
+function verify() {
+  dotenv.config();
+  const filePath =
+    process.argv[2] ||
+    process.env.AUDIT_LOG_PATH ||
+    path.join(process.cwd(), 'data', 'audit.jsonl');
+
+  const { valid, entries, problems } = verifyAuditFile(filePath);
+  console.log(`${filePath}: ${entries} entries`);
+  problems.forEach((problem) =>
+    console.log(
+      `  line ${problem.line}${problem.seq !== undefined ? ` (entry ${problem.seq})` : ''}: ${problem.message}`,
+    ),
+  );
+  console.log(
+    valid
+      ? 'The audit log is intact.'
+      : 'The audit log has been tampered with.',
+  );
+  if (!valid) process.exit(1);
+}
+
+try {
+  verify();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,68 @@
+import * as crypto from 'crypto';
+import { AuthProvider } from './auth.provider';
+import {
+  AuthenticationError,
+  Credentials,
+  Principal,
+  Role,
+  isRole,
+} from './types';
+
+export interface ApiKey {
+  // The service account the key belongs to
+  userId: string;
+  role: Role;
+  key: string;
+}
+
+const digest = (key: string) =>
+  crypto.createHash('sha256').update(key).digest();
+
+// Parses AUTH_API_KEYS: comma-separated "<userId>:<role>:<key>" entries
+export function parseApiKeys(spec: string): ApiKey[] {
+  return spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [userId, role, ...rest] = entry.split(':');
+      const key = rest.join(':');
+      if (!userId || !isRole(role) || !key) {
+        throw new Error(
+          `Invalid AUTH_API_KEYS entry for "${userId}": expected <userId>:<viewer|deployer|admin>:<key>`,
+        );
+      }
+      return { userId, role, key };
+    });
+}
+
+// Static keys for service accounts, sent in the X-API-Key header
+export class ApiKeyAuthProvider implements AuthProvider {
+  readonly name = 'api-key';
+  private readonly keys: Array<{ account: ApiKey; digest: Buffer }>;
+
+  constructor(keys: ApiKey[]) {
+    this.keys = keys.map((account) => ({
+      account,
+      digest: digest(account.key),
+    }));
+  }
+
+  authenticate({ apiKey }: Credentials): Principal | null {
+    if (!apiKey) return null;
+
+    // Compare digests in constant time so the key can't be guessed byte by byte
+    const presented = digest(apiKey);
+    const match = this.keys.find((entry) =>
+      crypto.timingSafeEqual(entry.digest, presented),
+    );
+    if (!match) {
+      throw new AuthenticationError('Unknown API key');
+    }
+    return {
+      userId: match.account.userId,
+      roles: [match.account.role],
+      provider: this.name,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { CurrentUser } from './auth.decorators';
+import { Principal } from './types';
+
+@Controller('auth')
+export class AuthController {
+  // Who the caller is authenticated as, and with which roles
+  @Get('me')
+  me(@CurrentUser() principal: Principal): Principal {
+    return principal;
+  }
+}
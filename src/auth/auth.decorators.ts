@@ -0,0 +1,21 @@
+import {
+  ExecutionContext,
+  SetMetadata,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Principal, Role } from './types';
+
+export const IS_PUBLIC = 'auth:public';
+export const REQUIRED_ROLE = 'auth:role';
+
+// Routes are authenticated by default; this opts one out
+export const Public = () => SetMetadata(IS_PUBLIC, true);
+
+// The least role a route needs; routes without one need viewer
+export const RequireRole = (role: Role) => SetMetadata(REQUIRED_ROLE, role);
+
+// The principal the AuthGuard established for the request
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): Principal =>
+    context.switchToHttp().getRequest<{ principal: Principal }>().principal,
+);
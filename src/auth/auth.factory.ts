@@ -0,0 +1,53 @@
+import { AuthProvider } from './auth.provider';
+import { JwtAuthProvider } from './jwt.provider';
+import { ApiKeyAuthProvider, parseApiKeys } from './api-key.provider';
+import { Credentials, Principal } from './types';
+
+// AUTH_DISABLED=true: trusts an X-User-Id header and makes everyone an admin
+class TrustedHeaderAuthProvider implements AuthProvider {
+  readonly name = 'trusted-header';
+
+  authenticate({ userId }: Credentials): Principal {
+    return {
+      userId: userId || 'anonymous',
+      roles: ['admin'],
+      provider: this.name,
+    };
+  }
+}
+
+/**
+ * Picks the auth providers from the environment: JWTs signed with
+ * AUTH_JWT_SECRET, and/or the service account keys in AUTH_API_KEYS. With
+ * neither configured the service refuses to start, unless AUTH_DISABLED=true
+ * says that nobody but the local developer can reach it.
+ */
+export function createAuthProviders(
+  env: NodeJS.ProcessEnv = process.env,
+): AuthProvider[] {
+  if (env.AUTH_DISABLED === 'true') {
+    console.warn(
+      'Authentication is disabled (AUTH_DISABLED=true); every request is trusted as an admin',
+    );
+    return [new TrustedHeaderAuthProvider()];
+  }
+
+  const providers: AuthProvider[] = [];
+  if (env.AUTH_JWT_SECRET) {
+    providers.push(
+      new JwtAuthProvider({
+        secret: env.AUTH_JWT_SECRET,
+        issuer: env.AUTH_JWT_ISSUER,
+      }),
+    );
+  }
+  if (env.AUTH_API_KEYS) {
+    providers.push(new ApiKeyAuthProvider(parseApiKeys(env.AUTH_API_KEYS)));
+  }
+  if (providers.length === 0) {
+    throw new Error(
+      'Set AUTH_JWT_SECRET and/or AUTH_API_KEYS, or AUTH_DISABLED=true for local development',
+    );
+  }
+  return providers;
+}
@@ -0,0 +1,85 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from './auth.guard';
+import { RequireRole } from './auth.decorators';
+import { JwtAuthProvider } from './jwt.provider';
+import { ApiKeyAuthProvider, parseApiKeys } from './api-key.provider';
+import { signJwt } from './jwt';
+import { Principal } from './types';
+
+describe('AuthGuard', () => {
+  const secret = 'test-signing-key';
+  const guard = new AuthGuard(new Reflector(), [
+    new JwtAuthProvider({ secret }),
+    new ApiKeyAuthProvider(parseApiKeys('deploy-bot:admin:k3y-123')),
+  ]);
+
+  class Routes {
+    chat() {}
+    @RequireRole('admin')
+    listConversations() {}
+  }
+
+  const run = (
+    headers: Record<string, string>,
+    handler: keyof Routes = 'chat',
+  ) => {
+    const request: {
+      headers: Record<string, string>;
+      query: object;
+      principal?: Principal;
+    } = { headers, query: {} };
+    const context = {
+      getHandler: () => Routes.prototype[handler],
+      getClass: () => Routes,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    guard.canActivate(context);
+    return request.principal;
+  };
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  it('takes the user and roles from a signed token', () => {
+    const token = signJwt({ sub: 'alice', roles: ['deployer'] }, secret, 60);
+
+    expect(run(bearer(token))).toEqual({
+      userId: 'alice',
+      roles: ['deployer'],
+      provider: 'jwt',
+    });
+    expect(() => run(bearer(token), 'listConversations')).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('rejects missing, tampered and expired tokens', () => {
+    const token = signJwt({ sub: 'alice', roles: ['viewer'] }, secret);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 'alice', roles: ['admin'] }),
+    ).toString('base64url');
+
+    expect(() => run({})).toThrow(UnauthorizedException);
+    expect(() => run(bearer(`${header}.${forged}.${signature}`))).toThrow(
+      'Invalid token signature',
+    );
+    expect(() =>
+      run(bearer(signJwt({ sub: 'alice' }, 'someone-elses-key'))),
+    ).toThrow('Invalid token signature');
+    expect(() =>
+      run(bearer(signJwt({ sub: 'alice', exp: 1 }, secret))),
+    ).toThrow('Token has expired');
+  });
+
+  it('authenticates service accounts by API key', () => {
+    expect(run({ 'x-api-key': 'k3y-123' }, 'listConversations')).toMatchObject({
+      userId: 'deploy-bot',
+      roles: ['admin'],
+    });
+    expect(() => run({ 'x-api-key': 'guess' })).toThrow('Unknown API key');
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AUTH_PROVIDERS, AuthProvider } from './auth.provider';
+import { IS_PUBLIC, REQUIRED_ROLE } from './auth.decorators';
+import {
+  AuthenticationError,
+  Credentials,
+  Principal,
+  Role,
+  hasRole,
+} from './types';
+
+type AuthenticatedRequest = Request & { principal?: Principal };
+
+const header = (request: Request, name: string) => {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+function credentialsFrom(request: AuthenticatedRequest): Credentials {
+  const authorization = header(request, 'authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  // EventSource can't set headers, so SSE clients pass the token in the query
+  const queryToken = request.query?.access_token;
+  return {
+    bearerToken:
+      bearer || (typeof queryToken === 'string' ? queryToken : undefined),
+    apiKey: header(request, 'x-api-key'),
+    userId: header(request, 'x-user-id'),
+  };
+}
+
+// Users may act on their own records; admins on anyone's
+export function assertSelfOrAdmin(principal: Principal, userId: string) {
+  if (principal.userId !== userId && !hasRole(principal, 'admin')) {
+    throw new ForbiddenException('You can only access your own records');
+  }
+}
+
+/**
+ * Authenticates every request with the configured providers (the first to
+ * recognise the credentials decides) and checks the role the route requires.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(AUTH_PROVIDERS) private readonly providers: AuthProvider[],
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const principal = this.authenticate(credentialsFrom(request));
+    if (!principal) {
+      throw new UnauthorizedException(
+        'Send a bearer token or an X-API-Key header',
+      );
+    }
+
+    const role =
+      this.reflector.getAllAndOverride<Role>(REQUIRED_ROLE, targets) ||
+      'viewer';
+    if (!hasRole(principal, role)) {
+      throw new ForbiddenException(`This requires the ${role} role`);
+    }
+
+    request.principal = principal;
+    return true;
+  }
+
+  private authenticate(credentials: Credentials): Principal | null {
+    try {
+      for (const provider of this.providers) {
+        const principal = provider.authenticate(credentials);
+        if (principal) return principal;
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw new UnauthorizedException(error.message);
+      }
+      throw error;
+    }
+  }
+}
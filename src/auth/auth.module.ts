@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { AUTH_PROVIDERS } from './auth.provider';
+import { createAuthProviders } from './auth.factory';
+import { AuthGuard } from './auth.guard';
+import { AuthController } from './auth.controller';
+
+@Global()
+@Module({
+  controllers: [AuthController],
+  providers: [
+    {
+      provide: AUTH_PROVIDERS,
+      useFactory: () => createAuthProviders(),
+    },
+    { provide: APP_GUARD, useClass: AuthGuard },
+  ],
+})
+export class AuthModule {}
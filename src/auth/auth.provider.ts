@@ -0,0 +1,13 @@
+import { Credentials, Principal } from './types';
+
+export const AUTH_PROVIDERS = 'AUTH_PROVIDERS';
+
+/**
+ * Turns the credentials on a request into a principal. Returns null when the
+ * request carries no credentials of the provider's kind, and throws an
+ * AuthenticationError when it does but they are not valid.
+ */
+export interface AuthProvider {
+  readonly name: string;
+  authenticate(credentials: Credentials): Principal | null;
+}
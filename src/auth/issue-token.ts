@@ -0,0 +1,37 @@
+import * as dotenv from 'dotenv';
+import { signJwt } from './jwt';
+import { isRole } from './types';
+
+// Prints a token signed with AUTH_JWT_SECRET: issue-token <userId> <role> [expiresInSeconds]
+function issue() {
+  dotenv.config();
+  const [userId, role, expiresIn] = process.argv.slice(2);
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (!secret) throw new Error('AUTH_JWT_SECRET must be set');
+  if (!userId || !isRole(role)) {
+    throw new Error(
+      'Usage: issue-token <userId> <viewer|deployer|admin> [expiresInSeconds]',
+    );
+  }
+
+  console.log(
+    signJwt(
+      {
+        sub: userId,
+        roles: [role],
+        ...(process.env.AUTH_JWT_ISSUER
+          ? { iss: process.env.AUTH_JWT_ISSUER }
+          : {}),
+      },
+      secret,
+      expiresIn ? Number(expiresIn) : 24 * 60 * 60,
+    ),
+  );
+}
+
+try {
+  issue();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
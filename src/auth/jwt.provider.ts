@@ -0,0 +1,43 @@
+import { AuthProvider } from './auth.provider';
+import { verifyJwt } from './jwt';
+import {
+  AuthenticationError,
+  Credentials,
+  Principal,
+  Role,
+  isRole,
+} from './types';
+
+export interface JwtAuthOptions {
+  secret: string;
+  // When set, tokens must carry this "iss" claim
+  issuer?: string;
+}
+
+// Bearer tokens signed with the local key; "sub" is the user, "roles" their roles
+export class JwtAuthProvider implements AuthProvider {
+  readonly name = 'jwt';
+
+  constructor(private readonly options: JwtAuthOptions) {
+    if (!options.secret) {
+      throw new Error('AUTH_JWT_SECRET must be set');
+    }
+  }
+
+  authenticate({ bearerToken }: Credentials): Principal | null {
+    if (!bearerToken) return null;
+
+    const claims = verifyJwt(bearerToken, this.options.secret);
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new AuthenticationError('Token was issued by someone else');
+    }
+    const roles: Role[] = Array.isArray(claims.roles)
+      ? claims.roles.filter(isRole)
+      : [];
+    return {
+      userId: claims.sub,
+      roles: roles.length ? roles : ['viewer'],
+      provider: this.name,
+    };
+  }
+}
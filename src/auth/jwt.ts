@@ -0,0 +1,80 @@
+import * as crypto from 'crypto';
+import { AuthenticationError } from './types';
+
+export interface JwtClaims {
+  sub: string;
+  roles?: unknown;
+  iss?: string;
+  iat?: number;
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+const base64url = (data: string | Buffer) =>
+  Buffer.from(data).toString('base64url');
+
+const hmac = (input: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(input).digest();
+
+// HS256 only: tokens are signed and checked with the same local key
+export function signJwt(
+  claims: JwtClaims,
+  secret: string,
+  expiresInSeconds?: number,
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    iat: now,
+    ...(expiresInSeconds ? { exp: now + expiresInSeconds } : {}),
+    ...claims,
+  };
+  const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}`;
+  return `${unsigned}.${base64url(hmac(unsigned, secret))}`;
+}
+
+export function verifyJwt(token: string, secret: string): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthenticationError('Malformed token');
+  }
+  const [header, payload, signature] = parts;
+
+  let decodedHeader: { alg?: string };
+  let claims: JwtClaims;
+  try {
+    decodedHeader = JSON.parse(
+      Buffer.from(header, 'base64url').toString('utf8'),
+    ) as { alg?: string };
+    claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    ) as JwtClaims;
+  } catch {
+    throw new AuthenticationError('Malformed token');
+  }
+  // Never let the token pick its own algorithm ("none", RS256 with our key, ...)
+  if (decodedHeader.alg !== 'HS256') {
+    throw new AuthenticationError('Unsupported token algorithm');
+  }
+
+  const expected = hmac(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    throw new AuthenticationError('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === 'number' && claims.exp <= now) {
+    throw new AuthenticationError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now) {
+    throw new AuthenticationError('Token is not valid yet');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new AuthenticationError('Token has no subject');
+  }
+  return claims;
+}
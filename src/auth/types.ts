@@ -0,0 +1,41 @@
+// Each role includes the ones before it: an admin can do anything a deployer can
+export const ROLES = ['viewer', 'deployer', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Who is making a request, as established by an auth provider
+export interface Principal {
+  userId: string;
+  roles: Role[];
+  // The auth provider that vouched for the user, e.g. "jwt" or "api-key"
+  provider: string;
+}
+
+// The credentials a request carries, taken from its headers
+export interface Credentials {
+  bearerToken?: string;
+  apiKey?: string;
+  // X-User-Id, only trusted while authentication is disabled
+  userId?: string;
+}
+
+export class AuthenticationError extends Error {}
+
+export function isRole(value: unknown): value is Role {
+  return (ROLES as readonly unknown[]).includes(value);
+}
+
+export function hasRole(
+  principal: Pick<Principal, 'roles'>,
+  role: Role,
+): boolean {
+  const needed = ROLES.indexOf(role);
+  return principal.roles.some((held) => ROLES.indexOf(held) >= needed);
+}
+
+// In-process callers (scripts, tests) may name a user instead of presenting
+// credentials; they act with the deployer role, as every caller did before auth
+export function toPrincipal(user: Principal | string): Principal {
+  return typeof user === 'string'
+    ? { userId: user, roles: ['deployer'], provider: 'internal' }
+    : user;
+}
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServiceConfig } from '../services/types';
+import { CatalogChangeAction, CatalogVersion } from './types';
+
+/**
+ * Version history of every catalog service. Each change is appended to a
+ * JSONL log with the full definition, so any version can be viewed or
+ * restored. Pass no path to keep the history in memory only.
+ */
+export class CatalogHistory {
+  private readonly versions = new Map<string, CatalogVersion[]>();
+
+  constructor(private readonly filePath?: string) {
+    this.replay();
+  }
+
+  record(
+    serviceId: string,
+    action: CatalogChangeAction,
+    definition: ServiceConfig | null,
+    changedBy: string,
+    restoredFrom?: number,
+  ): CatalogVersion {
+    const versions = this.versions.get(serviceId) || [];
+    const previous = versions[versions.length - 1];
+    const entry: CatalogVersion = {
+      serviceId,
+      version: (previous?.version || 0) + 1,
+      action,
+      changedBy,
+      changedAt: new Date().toISOString(),
+      changes: changedKeys(previous?.definition || null, definition),
+      definition,
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+    };
+
+    if (this.filePath) {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    }
+    this.versions.set(serviceId, [...versions, entry]);
+    return entry;
+  }
+
+  // Oldest first
+  list(serviceId: string): CatalogVersion[] {
+    return this.versions.get(serviceId) || [];
+  }
+
+  get(serviceId: string, version: number): CatalogVersion | null {
+    return this.list(serviceId).find((v) => v.version === version) || null;
+  }
+
+  private replay() {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as CatalogVersion;
+        this.versions.set(entry.serviceId, [
+          ...this.list(entry.serviceId),
+          entry,
+        ]);
+      } catch (e) {
+        console.error(`Skipping unreadable line in ${this.filePath}:`, e);
+      }
+    }
+  }
+}
+
+function changedKeys(
+  before: ServiceConfig | null,
+  after: ServiceConfig | null,
+): string[] {
+  const keys = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  return [...keys].filter(
+    (key) =>
+      JSON.stringify(before?.[key as keyof ServiceConfig]) !==
+      JSON.stringify(after?.[key as keyof ServiceConfig]),
+  );
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import * as path from 'path';
+import { ServiceCatalog } from './service.catalog';
+import { CatalogHistory } from './catalog.history';
+
+@Module({
+  providers: [
+    {
+      provide: ServiceCatalog,
+      useFactory: () =>
+        new ServiceCatalog(process.env.CATALOG_PATH || undefined, {
+          watch: process.env.CATALOG_WATCH !== 'false',
+        }),
+    },
+    {
+      provide: CatalogHistory,
+      useFactory: () =>
+        new CatalogHistory(
+          process.env.CATALOG_HISTORY_PATH ||
+            path.join(process.cwd(), 'data', 'catalog-history.jsonl'),
+        ),
+    },
+  ],
+  exports: [ServiceCatalog, CatalogHistory],
+})
+export class CatalogModule {}
@@ -0,0 +1,357 @@
+import { orderFields } from '../services/field-dependency.resolver';
+import { ServiceField } from '../services/types';
+
+export const CLOUDS = ['aws', 'azure', 'gcp', 'oracle'];
+export const FIELD_TYPES = ['String', 'Number', 'List'];
+
+const SERVICE_KEYS = [
+  'id',
+  'name',
+  'nativeName',
+  'aliases',
+  'description',
+  'template',
+  'price',
+  'cloud',
+  'available',
+  'nameField',
+  'requiredFields',
+];
+const FIELD_KEYS = [
+  'type',
+  'fieldId',
+  'fieldName',
+  'fieldValue',
+  'fieldTypeValue',
+  'dependent',
+  'dependentON',
+  'dependentFOR',
+  'mutable',
+  'sensitive',
+  'validation',
+  'dependency',
+];
+const VALIDATION_KEYS = [
+  'required',
+  'pattern',
+  'options',
+  'min',
+  'max',
+  'itemType',
+];
+const DEPENDENCY_KEYS = ['enabledWhen', 'requiredWhen', 'options'];
+const CONDITION_KEYS = ['fieldId', 'equals', 'in', 'matches'];
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const splitIds = (ids: string) =>
+  ids
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+/**
+ * Checks a parsed services.json against the catalog schema. Unknown keys are
+ * errors too, so typos like "dependentOn" don't silently do nothing. Returns
+ * one message per problem, each starting with the path it refers to, e.g.
+ * `list[2].requiredFields[0].validation.pattern: invalid regular expression`.
+ */
+export function validateCatalog(data: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(data))
+    return ['catalog: must be an object with a "list" array'];
+
+  checkKeys(data, ['list'], 'catalog', errors);
+  if (!Array.isArray(data.list)) {
+    errors.push('list: must be an array of services');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  data.list.forEach((service: unknown, index) => {
+    const at = `list[${index}]`;
+    if (!isObject(service)) {
+      errors.push(`${at}: must be an object`);
+      return;
+    }
+    const where =
+      typeof service.id === 'string' && service.id
+        ? `${at} (${service.id})`
+        : at;
+    checkKeys(service, SERVICE_KEYS, where, errors);
+
+    for (const key of ['id', 'name', 'template']) {
+      if (typeof service[key] !== 'string' || !service[key]) {
+        errors.push(`${where}.${key}: must be a non-empty string`);
+      }
+    }
+    if (typeof service.id === 'string') {
+      if (ids.has(service.id)) {
+        errors.push(`${where}.id: duplicates another service`);
+      }
+      ids.add(service.id);
+    }
+    for (const key of ['nativeName', 'description']) {
+      if (service[key] !== undefined && typeof service[key] !== 'string') {
+        errors.push(`${where}.${key}: must be a string`);
+      }
+    }
+    if (service.aliases !== undefined && !isStringArray(service.aliases)) {
+      errors.push(`${where}.aliases: must be an array of strings`);
+    }
+    if (typeof service.price !== 'number' || service.price < 0) {
+      errors.push(`${where}.price: must be a number of 0 or more`);
+    }
+    if (typeof service.cloud !== 'string' || !CLOUDS.includes(service.cloud)) {
+      errors.push(`${where}.cloud: must be one of ${CLOUDS.join(', ')}`);
+    }
+    if (typeof service.available !== 'boolean') {
+      errors.push(`${where}.available: must be true or false`);
+    }
+    if (!Array.isArray(service.requiredFields)) {
+      errors.push(`${where}.requiredFields: must be an array of fields`);
+      return;
+    }
+
+    errors.push(
+      ...validateFields(service.requiredFields, `${where}.requiredFields`),
+    );
+    if (
+      service.nameField !== undefined &&
+      !service.requiredFields.some(
+        (field) => isObject(field) && field.fieldId === service.nameField,
+      )
+    ) {
+      errors.push(
+        `${where}.nameField: refers to unknown field ${JSON.stringify(service.nameField)}`,
+      );
+    }
+  });
+
+  return errors;
+}
+
+function validateFields(fields: unknown[], at: string): string[] {
+  const errors: string[] = [];
+  const fieldIds = fields
+    .filter(isObject)
+    .map((field) => field.fieldId)
+    .filter((id): id is string => typeof id === 'string');
+  const seen = new Set<string>();
+
+  const checkReference = (id: unknown, where: string) => {
+    if (typeof id !== 'string' || !fieldIds.includes(id)) {
+      errors.push(`${where}: refers to unknown field ${JSON.stringify(id)}`);
+    }
+  };
+
+  fields.forEach((field, index) => {
+    const where = isObject(field)
+      ? `${at}[${index}] (${String(field.fieldId)})`
+      : `${at}[${index}]`;
+    if (!isObject(field)) {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    checkKeys(field, FIELD_KEYS, where, errors);
+
+    for (const key of ['fieldId', 'fieldName']) {
+      if (typeof field[key] !== 'string' || !field[key]) {
+        errors.push(`${where}.${key}: must be a non-empty string`);
+      }
+    }
+    if (typeof field.fieldId === 'string') {
+      if (seen.has(field.fieldId)) {
+        errors.push(`${where}.fieldId: duplicates another field`);
+      }
+      seen.add(field.fieldId);
+    }
+    for (const key of ['type', 'fieldValue', 'dependentON', 'dependentFOR']) {
+      if (typeof field[key] !== 'string') {
+        errors.push(`${where}.${key}: must be a string`);
+      }
+    }
+    if (
+      typeof field.fieldTypeValue !== 'string' ||
+      !FIELD_TYPES.includes(field.fieldTypeValue)
+    ) {
+      errors.push(
+        `${where}.fieldTypeValue: must be one of ${FIELD_TYPES.join(', ')}`,
+      );
+    }
+    if (typeof field.dependent !== 'boolean') {
+      errors.push(`${where}.dependent: must be true or false`);
+    }
+    for (const key of ['mutable', 'sensitive']) {
+      if (field[key] !== undefined && typeof field[key] !== 'boolean') {
+        errors.push(`${where}.${key}: must be true or false`);
+      }
+    }
+    for (const key of ['dependentON', 'dependentFOR']) {
+      if (typeof field[key] === 'string') {
+        splitIds(field[key]).forEach((id) =>
+          checkReference(id, `${where}.${key}`),
+        );
+      }
+    }
+    if (field.dependent === true && !field.dependentON) {
+      errors.push(`${where}.dependentON: required when dependent is true`);
+    }
+
+    if (field.validation !== undefined) {
+      validateRules(field.validation, `${where}.validation`, errors);
+    }
+    if (field.dependency !== undefined) {
+      validateDependency(
+        field.dependency,
+        `${where}.dependency`,
+        checkReference,
+        errors,
+      );
+    }
+  });
+
+  if (errors.length === 0) {
+    try {
+      orderFields(fields as ServiceField[]);
+    } catch (error) {
+      errors.push(`${at}: ${(error as Error).message}`);
+    }
+  }
+  return errors;
+}
+
+function validateRules(rules: unknown, at: string, errors: string[]) {
+  if (!isObject(rules)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+  checkKeys(rules, VALIDATION_KEYS, at, errors);
+
+  if (rules.required !== undefined && typeof rules.required !== 'boolean') {
+    errors.push(`${at}.required: must be true or false`);
+  }
+  if (rules.pattern !== undefined) {
+    checkPattern(rules.pattern, `${at}.pattern`, errors);
+  }
+  if (rules.options !== undefined && !isStringArray(rules.options)) {
+    errors.push(`${at}.options: must be an array of strings`);
+  }
+  for (const key of ['min', 'max']) {
+    if (rules[key] !== undefined && typeof rules[key] !== 'number') {
+      errors.push(`${at}.${key}: must be a number`);
+    }
+  }
+  if (
+    typeof rules.min === 'number' &&
+    typeof rules.max === 'number' &&
+    rules.min > rules.max
+  ) {
+    errors.push(`${at}: min (${rules.min}) is greater than max (${rules.max})`);
+  }
+  if (
+    rules.itemType !== undefined &&
+    rules.itemType !== 'String' &&
+    rules.itemType !== 'Number'
+  ) {
+    errors.push(`${at}.itemType: must be String or Number`);
+  }
+}
+
+function validateDependency(
+  dependency: unknown,
+  at: string,
+  checkReference: (id: unknown, where: string) => void,
+  errors: string[],
+) {
+  if (!isObject(dependency)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+  checkKeys(dependency, DEPENDENCY_KEYS, at, errors);
+
+  const checkConditions = (conditions: unknown, where: string) => {
+    if (!Array.isArray(conditions)) {
+      errors.push(`${where}: must be an array of conditions`);
+      return;
+    }
+    conditions.forEach((condition: unknown, index) => {
+      const path = `${where}[${index}]`;
+      if (!isObject(condition)) {
+        errors.push(`${path}: must be an object`);
+        return;
+      }
+      checkKeys(condition, CONDITION_KEYS, path, errors);
+      checkReference(condition.fieldId, `${path}.fieldId`);
+      if (
+        condition.equals !== undefined &&
+        typeof condition.equals !== 'string'
+      ) {
+        errors.push(`${path}.equals: must be a string`);
+      }
+      if (condition.in !== undefined && !isStringArray(condition.in)) {
+        errors.push(`${path}.in: must be an array of strings`);
+      }
+      if (condition.matches !== undefined) {
+        checkPattern(condition.matches, `${path}.matches`, errors);
+      }
+    });
+  };
+
+  for (const key of ['enabledWhen', 'requiredWhen']) {
+    if (dependency[key] !== undefined) {
+      checkConditions(dependency[key], `${at}.${key}`);
+    }
+  }
+  if (dependency.options !== undefined) {
+    if (!Array.isArray(dependency.options)) {
+      errors.push(`${at}.options: must be an array of rules`);
+      return;
+    }
+    dependency.options.forEach((rule: unknown, index) => {
+      const path = `${at}.options[${index}]`;
+      if (!isObject(rule)) {
+        errors.push(`${path}: must be an object`);
+        return;
+      }
+      checkKeys(rule, ['when', 'values'], path, errors);
+      checkConditions(rule.when, `${path}.when`);
+      if (!isStringArray(rule.values)) {
+        errors.push(`${path}.values: must be an array of strings`);
+      }
+    });
+  }
+}
+
+function checkKeys(
+  value: Json,
+  allowed: string[],
+  at: string,
+  errors: string[],
+) {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(
+        `${at}.${key}: unknown property (expected one of ${allowed.join(', ')})`,
+      );
+    }
+  }
+}
+
+function checkPattern(pattern: unknown, at: string, errors: string[]) {
+  if (typeof pattern !== 'string') {
+    errors.push(`${at}: must be a string`);
+    return;
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    errors.push(`${at}: invalid regular expression ${JSON.stringify(pattern)}`);
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CATALOG_PATH, ServiceCatalog } from './service.catalog';
+import { validateCatalog } from './catalog.schema';
+import { ServicesData } from '../services/types';
+
+describe('ServiceCatalog', () => {
+  const catalog = JSON.parse(
+    fs.readFileSync(DEFAULT_CATALOG_PATH, 'utf8'),
+  ) as ServicesData;
+  let dir: string;
+  let file: string;
+
+  const write = (data: unknown) =>
+    fs.writeFileSync(file, JSON.stringify(data, null, 2));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-'));
+    file = path.join(dir, 'services.json');
+    write(catalog);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts the shipped services.json', () => {
+    expect(validateCatalog(catalog)).toEqual([]);
+  });
+
+  it('reports every problem with the path it refers to', () => {
+    const broken = structuredClone(catalog);
+    broken.list[0].cloud = 'ibm';
+    Object.assign(broken.list[0].requiredFields[0], { dependentOn: 'amiId' });
+    broken.list[0].requiredFields[1].validation!.pattern = '^ami-(';
+    broken.list[1].id = broken.list[0].id;
+
+    expect(validateCatalog(broken)).toEqual([
+      'list[0] (virtual-machine-aws).cloud: must be one of aws, azure, gcp, oracle',
+      expect.stringMatching(
+        /^list\[0\] \(virtual-machine-aws\)\.requiredFields\[0\] \(instanceName\)\.dependentOn: unknown property/,
+      ),
+      'list[0] (virtual-machine-aws).requiredFields[1] (amiId).validation.pattern: invalid regular expression "^ami-("',
+      'list[1] (virtual-machine-aws).id: duplicates another service',
+    ]);
+  });
+
+  it('rejects dependencies on missing fields and dependency cycles', () => {
+    const broken = structuredClone(catalog);
+    const fields = broken.list[0].requiredFields;
+    fields[0].dependentFOR = 'imageId';
+    expect(validateCatalog(broken)).toEqual([
+      'list[0] (virtual-machine-aws).requiredFields[0] (instanceName).dependentFOR: refers to unknown field "imageId"',
+    ]);
+
+    fields[0].dependentFOR = 'amiId';
+    fields[1].dependentFOR = 'instanceName';
+    expect(validateCatalog(broken)).toEqual([
+      'list[0] (virtual-machine-aws).requiredFields: Circular field dependency between: instanceName, amiId',
+    ]);
+  });
+
+  it('refuses to start from an invalid file', () => {
+    write({ list: [{ ...catalog.list[0], price: 'free' }] });
+    expect(() => new ServiceCatalog(file)).toThrow(
+      /Invalid service catalog .*\n {2}- list\[0\] \(virtual-machine-aws\)\.price: must be a number/,
+    );
+  });
+
+  it('reloads changes and keeps the last good catalog when an edit is invalid', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const services = new ServiceCatalog(file);
+    const listener = jest.fn();
+    services.onChange(listener);
+
+    write({ list: catalog.list.slice(0, 2) });
+    expect(services.reload()).toBe(true);
+    expect(services.getAll()).toHaveLength(2);
+    expect(listener).toHaveBeenCalledWith(services.getAll());
+
+    fs.writeFileSync(file, '{ "list": [');
+    expect(services.reload()).toBe(false);
+    expect(services.getAll()).toHaveLength(2);
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('Keeping the previously loaded catalog'),
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
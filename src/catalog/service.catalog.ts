@@ -0,0 +1,127 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServiceConfig, ServicesData } from '../services/types';
+import { validateCatalog } from './catalog.schema';
+
+export const DEFAULT_CATALOG_PATH = path.join(process.cwd(), 'services.json');
+
+export type CatalogListener = (services: ServiceConfig[]) => void;
+
+/**
+ * The service catalog (services.json), shared by the REST API and the agent.
+ * The file is checked against the catalog schema whenever it is read: an
+ * invalid catalog fails startup, while an invalid edit picked up by the file
+ * watcher is reported and the last good catalog stays in use.
+ */
+export class ServiceCatalog implements OnModuleDestroy {
+  private services: ServiceConfig[];
+  private readonly listeners = new Set<CatalogListener>();
+  private watching = false;
+
+  constructor(
+    private readonly filePath = DEFAULT_CATALOG_PATH,
+    options: { watch?: boolean } = {},
+  ) {
+    this.services = ServiceCatalog.load(filePath);
+    if (options.watch) this.watch();
+  }
+
+  // Reads and validates a catalog file, throwing with every problem found
+  static load(filePath: string): ServiceConfig[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Cannot read service catalog ${filePath}: ${(error as Error).message}`,
+      );
+    }
+
+    assertValid(data, filePath);
+    return (data as ServicesData).list;
+  }
+
+  getAll(): ServiceConfig[] {
+    return this.services;
+  }
+
+  // Services users may deploy; unavailable ones stay listed in the REST API
+  getAvailable(): ServiceConfig[] {
+    return this.services.filter((service) => service.available);
+  }
+
+  getById(id: string): ServiceConfig | null {
+    return this.services.find((service) => service.id === id) || null;
+  }
+
+  // Validates and writes the whole catalog. The file is replaced in one go so
+  // the watcher never reads a half-written catalog.
+  save(services: ServiceConfig[]) {
+    const data: ServicesData = { list: services };
+    assertValid(data, this.filePath);
+
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 4), 'utf8');
+    fs.renameSync(tmpPath, this.filePath);
+    this.services = services;
+    this.listeners.forEach((listener) => listener(this.services));
+  }
+
+  // Called with the new list after every save or successful reload; returns an unsubscribe function
+  onChange(listener: CatalogListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Re-reads the file, keeping the current catalog if the new one is invalid
+  reload(): boolean {
+    try {
+      this.services = ServiceCatalog.load(this.filePath);
+    } catch (error) {
+      console.error(
+        `${(error as Error).message}\nKeeping the previously loaded catalog.`,
+      );
+      return false;
+    }
+    console.log(
+      `Reloaded service catalog ${this.filePath} (${this.services.length} services)`,
+    );
+    this.listeners.forEach((listener) => listener(this.services));
+    return true;
+  }
+
+  watch() {
+    if (this.watching) return;
+    this.watching = true;
+    // Polling copes with editors that save by replacing the file
+    fs.watchFile(
+      this.filePath,
+      { interval: 1000, persistent: false },
+      this.onFileChange,
+    );
+  }
+
+  close() {
+    if (!this.watching) return;
+    this.watching = false;
+    fs.unwatchFile(this.filePath, this.onFileChange);
+  }
+
+  onModuleDestroy() {
+    this.close();
+  }
+
+  private readonly onFileChange = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) this.reload();
+  };
+}
+
+function assertValid(data: unknown, filePath: string) {
+  const errors = validateCatalog(data);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid service catalog ${filePath}:\n${errors.map((error) => `  - ${error}`).join('\n')}`,
+    );
+  }
+}
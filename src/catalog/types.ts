@@ -0,0 +1,24 @@
+import { ServiceConfig } from '../services/types';
+
+export type CatalogChangeAction =
+  | 'import'
+  | 'create'
+  | 'replace'
+  | 'update'
+  | 'delete'
+  | 'rollback';
+
+// One version of a service definition and who produced it
+export interface CatalogVersion {
+  serviceId: string;
+  version: number;
+  action: CatalogChangeAction;
+  changedBy: string;
+  changedAt: string;
+  // Top-level properties that differ from the previous version
+  changes: string[];
+  // The definition as of this version; null once the service was deleted
+  definition: ServiceConfig | null;
+  // Set for rollbacks: the version that was restored
+  restoredFrom?: number;
+}
@@ -0,0 +1,28 @@
+import * as path from 'path';
+import { ConversationStore } from './conversation.store';
+import { InMemoryConversationStore } from './in-memory-conversation.store';
+import { JsonlConversationStore } from './jsonl-conversation.store';
+
+export const DEFAULT_CONVERSATION_LOG_PATH = path.join(
+  process.cwd(),
+  'data',
+  'conversations.jsonl',
+);
+
+// Picks the backend from CONVERSATION_STORE (jsonl | memory), defaulting to jsonl
+export function createConversationStore(
+  env: NodeJS.ProcessEnv = process.env,
+): ConversationStore {
+  const backend = (env.CONVERSATION_STORE || 'jsonl').toLowerCase();
+
+  switch (backend) {
+    case 'jsonl':
+      return new JsonlConversationStore(
+        env.CONVERSATION_LOG_PATH || DEFAULT_CONVERSATION_LOG_PATH,
+      );
+    case 'memory':
+      return new InMemoryConversationStore();
+    default:
+      throw new Error(`Unknown CONVERSATION_STORE "${backend}"`);
+  }
+}
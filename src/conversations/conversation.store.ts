@@ -0,0 +1,86 @@
+export const CONVERSATION_STORE = 'CONVERSATION_STORE';
+
+// The thread chat turns go to when no threadId is given, and where conversations
+// from before threads existed live
+export const DEFAULT_THREAD_ID = 'default';
+
+export const UNTITLED_THREAD = 'New conversation';
+
+export interface ConversationMessage {
+  role: 'human' | 'assistant';
+  content: any;
+  // ISO-8601 UTC; formatted for the reader when conversations are fetched
+  timestamp: string;
+}
+
+// A deployment whose field values are being collected over several turns
+export interface DeploymentDraft {
+  serviceId: string;
+  serviceName: string;
+  cloud: string;
+  formData: Record<string, string>;
+  // The field the agent asked about last
+  pendingFieldId?: string;
+  updatedAt: string;
+}
+
+export interface Conversation {
+  csp: string;
+  history: ConversationMessage[];
+  draft?: DeploymentDraft | null;
+  // Generated from the first message unless the user renames the thread
+  title?: string;
+  archived?: boolean;
+  createdAt?: string;
+}
+
+export type ConversationPatch = Partial<Omit<Conversation, 'history'>>;
+
+// A thread as listed, without its history
+export interface ConversationThread {
+  threadId: string;
+  title: string;
+  csp: string;
+  archived: boolean;
+  messageCount: number;
+  createdAt?: string;
+  lastActivity?: string;
+}
+
+/**
+ * Persistence for per-user conversation threads. Writes are scoped to a single
+ * thread and only ever append messages, so concurrent requests can't clobber
+ * each other's history the way rewriting one shared file did.
+ */
+export interface ConversationStore {
+  get(userId: string, threadId?: string): Promise<Conversation | null>;
+  listUserIds(): Promise<string[]>;
+  // Most recently active first
+  listThreads(userId: string): Promise<ConversationThread[]>;
+  // Creates the thread if needed, merges the patch and appends messages
+  append(
+    userId: string,
+    messages: ConversationMessage[],
+    patch?: ConversationPatch,
+    threadId?: string,
+  ): Promise<Conversation>;
+  // False when there was no such thread
+  delete(userId: string, threadId: string): Promise<boolean>;
+}
+
+export function summarizeThread(
+  threadId: string,
+  conversation: Conversation,
+): ConversationThread {
+  const { history } = conversation;
+  const createdAt = conversation.createdAt || history[0]?.timestamp;
+  return {
+    threadId,
+    title: conversation.title || UNTITLED_THREAD,
+    csp: conversation.csp,
+    archived: !!conversation.archived,
+    messageCount: history.length,
+    createdAt,
+    lastActivity: history[history.length - 1]?.timestamp || createdAt,
+  };
+}
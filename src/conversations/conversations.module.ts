@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CONVERSATION_STORE } from './conversation.store';
+import { createConversationStore } from './conversation-store.factory';
+
+@Module({
+  providers: [
+    {
+      provide: CONVERSATION_STORE,
+      useFactory: () => createConversationStore(),
+    },
+  ],
+  exports: [CONVERSATION_STORE],
+})
+export class ConversationsModule {}
@@ -0,0 +1,87 @@
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationPatch,
+  ConversationStore,
+  ConversationThread,
+  DEFAULT_THREAD_ID,
+  summarizeThread,
+} from './conversation.store';
+
+export class InMemoryConversationStore implements ConversationStore {
+  // userId -> threadId -> conversation
+  protected readonly conversations = new Map<
+    string,
+    Map<string, Conversation>
+  >();
+
+  get(
+    userId: string,
+    threadId = DEFAULT_THREAD_ID,
+  ): Promise<Conversation | null> {
+    const conversation = this.conversations.get(userId)?.get(threadId);
+    return Promise.resolve(conversation ? clone(conversation) : null);
+  }
+
+  listUserIds(): Promise<string[]> {
+    return Promise.resolve([...this.conversations.keys()]);
+  }
+
+  listThreads(userId: string): Promise<ConversationThread[]> {
+    const threads = [
+      ...(this.conversations.get(userId) || new Map<string, Conversation>()),
+    ].map(([threadId, conversation]) =>
+      summarizeThread(threadId, conversation),
+    );
+    return Promise.resolve(
+      threads.sort((a, b) =>
+        (b.lastActivity || '').localeCompare(a.lastActivity || ''),
+      ),
+    );
+  }
+
+  append(
+    userId: string,
+    messages: ConversationMessage[],
+    patch: ConversationPatch = {},
+    threadId = DEFAULT_THREAD_ID,
+  ): Promise<Conversation> {
+    return Promise.resolve(
+      clone(this.apply(userId, threadId, messages, patch)),
+    );
+  }
+
+  delete(userId: string, threadId: string): Promise<boolean> {
+    return Promise.resolve(this.remove(userId, threadId));
+  }
+
+  protected apply(
+    userId: string,
+    threadId: string,
+    messages: ConversationMessage[],
+    patch: ConversationPatch,
+  ): Conversation {
+    const threads =
+      this.conversations.get(userId) || new Map<string, Conversation>();
+    const conversation: Conversation = threads.get(threadId) || {
+      csp: 'aws',
+      history: [],
+    };
+    Object.assign(conversation, patch);
+    conversation.history.push(...messages);
+    threads.set(threadId, conversation);
+    this.conversations.set(userId, threads);
+    return conversation;
+  }
+
+  protected remove(userId: string, threadId: string): boolean {
+    const threads = this.conversations.get(userId);
+    if (!threads?.delete(threadId)) return false;
+    if (threads.size === 0) this.conversations.delete(userId);
+    return true;
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonlConversationStore } from './jsonl-conversation.store';
+import { importLegacyConversations } from './legacy-conversations';
+
+describe('JsonlConversationStore', () => {
+  let dir: string;
+  let logPath: string;
+
+  const message = (content: string) => ({
+    role: 'human' as const,
+    content,
+    timestamp: '2025-05-18T08:48:05.000Z',
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+    logPath = path.join(dir, 'conversations.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps every message when appends race', async () => {
+    const store = new JsonlConversationStore(logPath);
+
+    await Promise.all(
+      ['one', 'two', 'three'].map((content) =>
+        store.append('user-1', [message(content)]),
+      ),
+    );
+
+    const conversation = await store.get('user-1');
+    expect(conversation?.history.map((m) => m.content as string)).toEqual([
+      'one',
+      'two',
+      'three',
+    ]);
+  });
+
+  it('replays the log on startup and skips torn lines', async () => {
+    const store = new JsonlConversationStore(logPath);
+    await store.append('user-1', [message('hello')], { csp: 'azure' });
+    await store.append('user-2', [message('hi')]);
+    fs.appendFileSync(logPath, '{"userId":"user-1","mess');
+
+    const reloaded = new JsonlConversationStore(logPath);
+
+    expect(await reloaded.listUserIds()).toEqual(['user-1', 'user-2']);
+    expect(await reloaded.get('user-1')).toEqual({
+      csp: 'azure',
+      history: [message('hello')],
+    });
+  });
+
+  it('keeps threads apart and remembers deletions across restarts', async () => {
+    const store = new JsonlConversationStore(logPath);
+    await store.append('user-1', [message('default')]);
+    await store.append('user-1', [message('first')], { title: 'A' }, 'thr-a');
+    await store.append('user-1', [message('second')], { title: 'B' }, 'thr-b');
+    expect(await store.delete('user-1', 'thr-a')).toBe(true);
+
+    const reloaded = new JsonlConversationStore(logPath);
+
+    expect((await reloaded.get('user-1'))?.history).toEqual([
+      message('default'),
+    ]);
+    expect(await reloaded.get('user-1', 'thr-a')).toBeNull();
+    expect((await reloaded.listThreads('user-1')).map((t) => t.title)).toEqual(
+      expect.arrayContaining(['New conversation', 'B']),
+    );
+    expect(await reloaded.delete('user-1', 'thr-a')).toBe(false);
+  });
+
+  it('imports the legacy conversations.json format once', async () => {
+    const legacyPath = path.join(dir, 'conversations.json');
+    fs.writeFileSync(
+      legacyPath,
+      JSON.stringify({ legacy: { csp: 'gcp', history: [message('old')] } }),
+    );
+    const store = new JsonlConversationStore(logPath);
+
+    const first = await importLegacyConversations(store, legacyPath);
+    const second = await importLegacyConversations(store, legacyPath);
+
+    expect(first).toEqual({ imported: ['legacy'], skipped: [] });
+    expect(second).toEqual({ imported: [], skipped: ['legacy'] });
+    expect((await store.get('legacy'))?.history).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationPatch,
+  DEFAULT_THREAD_ID,
+} from './conversation.store';
+import { InMemoryConversationStore } from './in-memory-conversation.store';
+
+interface ConversationLogRecord {
+  userId: string;
+  // Absent in records written before threads existed
+  threadId?: string;
+  patch?: ConversationPatch;
+  messages?: ConversationMessage[];
+  // The thread was deleted; earlier records for it are ignored on replay
+  deleted?: boolean;
+}
+
+/**
+ * Append-only JSONL backend. Every append is a single line, written through
+ * one queue, and the log is replayed into memory at startup so reads never
+ * touch the disk.
+ */
+export class JsonlConversationStore extends InMemoryConversationStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.replay();
+  }
+
+  async append(
+    userId: string,
+    messages: ConversationMessage[],
+    patch: ConversationPatch = {},
+    threadId = DEFAULT_THREAD_ID,
+  ): Promise<Conversation> {
+    await this.write({ userId, threadId, patch, messages });
+    return super.append(userId, messages, patch, threadId);
+  }
+
+  async delete(userId: string, threadId: string): Promise<boolean> {
+    if (!(await this.get(userId, threadId))) return false;
+    await this.write({ userId, threadId, deleted: true });
+    return super.delete(userId, threadId);
+  }
+
+  private async write(record: ConversationLogRecord) {
+    const line = `${JSON.stringify(record)}\n`;
+    const write = this.writeQueue.then(() =>
+      fs.promises.appendFile(this.filePath, line, 'utf8'),
+    );
+    // Keep the queue alive even if a write fails
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+  }
+
+  private replay() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const record = JSON.parse(line) as ConversationLogRecord;
+        const threadId = record.threadId || DEFAULT_THREAD_ID;
+        if (record.deleted) {
+          this.remove(record.userId, threadId);
+        } else {
+          this.apply(
+            record.userId,
+            threadId,
+            record.messages || [],
+            record.patch || {},
+          );
+        }
+      } catch (e) {
+        // A torn final line from a crash mid-write should not lose the rest of the log
+        console.error(
+          `Skipping unreadable line ${index + 1} in ${this.filePath}:`,
+          e,
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import { Conversation, ConversationStore } from './conversation.store';
+import { toIsoTimestamp } from './timestamps';
+
+/**
+ * Imports the legacy conversations.json format ({ [userId]: { csp, history } })
+ * into a store. Users the store already knows about are skipped, so running
+ * the import twice is harmless.
+ */
+export async function importLegacyConversations(
+  store: ConversationStore,
+  filePath: string,
+): Promise<{ imported: string[]; skipped: string[] }> {
+  const result = { imported: [] as string[], skipped: [] as string[] };
+  if (!fs.existsSync(filePath)) return result;
+
+  const legacy = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<
+    string,
+    Conversation
+  >;
+  const existing = new Set(await store.listUserIds());
+
+  for (const [userId, conversation] of Object.entries(legacy)) {
+    if (existing.has(userId)) {
+      result.skipped.push(userId);
+      continue;
+    }
+    const history = (conversation.history || []).map((entry) => ({
+      ...entry,
+      timestamp: toIsoTimestamp(entry.timestamp) || entry.timestamp,
+    }));
+    await store.append(userId, history, {
+      csp: conversation.csp || 'aws',
+    });
+    result.imported.push(userId);
+  }
+  return result;
+}
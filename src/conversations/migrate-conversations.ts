@@ -0,0 +1,26 @@
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { createConversationStore } from './conversation-store.factory';
+import { importLegacyConversations } from './legacy-conversations';
+
+// One-shot import of conversations.json into the configured conversation store
+async function migrate() {
+  dotenv.config();
+  const legacyPath =
+    process.argv[2] || path.join(process.cwd(), 'conversations.json');
+
+  const store = createConversationStore();
+  const { imported, skipped } = await importLegacyConversations(
+    store,
+    legacyPath,
+  );
+
+  console.log(
+    `Imported ${imported.length} conversations from ${legacyPath} (${skipped.length} already present)`,
+  );
+}
+
+migrate().catch((error) => {
+  console.error('Conversation migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { DEFAULT_CONVERSATION_LOG_PATH } from './conversation-store.factory';
+import { migrateTimestampsFile } from './timestamps';
+
+// Converts stored conversation timestamps to ISO UTC: migrate-timestamps [file...]
+function migrate() {
+  dotenv.config();
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    files.push(
+      path.join(process.cwd(), 'conversations.json'),
+      process.env.CONVERSATION_LOG_PATH || DEFAULT_CONVERSATION_LOG_PATH,
+    );
+  }
+
+  for (const file of files) {
+    if (!fs.existsSync(file)) {
+      console.log(`${file}: not found, skipped`);
+      continue;
+    }
+    const { converted, unreadable } = migrateTimestampsFile(file);
+    console.log(
+      `${file}: converted ${converted} timestamps${unreadable ? `, ${unreadable} unreadable ones left as they were` : ''}${converted ? ` (original saved as ${file}.bak)` : ''}`,
+    );
+  }
+}
+
+try {
+  migrate();
+} catch (error) {
+  console.error('Timestamp migration failed:', error);
+  process.exit(1);
+}
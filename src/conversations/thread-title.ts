@@ -0,0 +1,19 @@
+import { UNTITLED_THREAD } from './conversation.store';
+
+const MAX_TITLE_LENGTH = 60;
+
+// A thread's title from its first message, tidied and cut at a word boundary
+export function titleFromMessage(message: string): string {
+  const text = message
+    // Plan tokens and approval ids say nothing about what the thread is for
+    .replace(/\b(?:plan|apr)-[0-9a-f-]{36}\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return UNTITLED_THREAD;
+
+  const title =
+    text.length <= MAX_TITLE_LENGTH
+      ? text
+      : `${text.slice(0, MAX_TITLE_LENGTH).replace(/\s+\S*$/, '')}…`;
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
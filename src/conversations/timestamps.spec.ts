@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  formatTimestamp,
+  migrateTimestampsFile,
+  toIsoTimestamp,
+} from './timestamps';
+
+describe('timestamps', () => {
+  it('reads the legacy India Standard Time format as UTC', () => {
+    expect(toIsoTimestamp('18/05/2025, 02:18:05 pm')).toBe(
+      '2025-05-18T08:48:05.000Z',
+    );
+    expect(toIsoTimestamp('01/01/2025, 12:10:00 am')).toBe(
+      '2024-12-31T18:40:00.000Z',
+    );
+    expect(toIsoTimestamp('2025-05-18T08:48:05.000Z')).toBe(
+      '2025-05-18T08:48:05.000Z',
+    );
+    expect(toIsoTimestamp('yesterday')).toBeNull();
+  });
+
+  it('formats times in the reader’s time zone and locale', () => {
+    const iso = '2025-05-18T08:48:05.000Z';
+
+    expect(
+      formatTimestamp(iso, { timeZone: 'America/New_York', locale: 'en-US' }),
+    ).toBe('May 18, 2025, 4:48:05 AM');
+    expect(
+      formatTimestamp('18/05/2025, 02:18:05 pm', {
+        timeZone: 'Europe/Berlin',
+        locale: 'de-DE',
+      }),
+    ).toBe('18.05.2025, 10:48:05');
+  });
+
+  it('migrates conversations.json and the JSONL log, keeping a backup', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timestamps-'));
+    const legacyPath = path.join(dir, 'conversations.json');
+    const logPath = path.join(dir, 'conversations.jsonl');
+    const legacy = {
+      'user-1': {
+        csp: 'aws',
+        history: [
+          {
+            role: 'human',
+            content: 'hi',
+            timestamp: '18/05/2025, 02:18:05 pm',
+          },
+          { role: 'assistant', content: {}, timestamp: 'garbled' },
+        ],
+      },
+    };
+    fs.writeFileSync(legacyPath, JSON.stringify(legacy));
+    fs.writeFileSync(
+      logPath,
+      `${JSON.stringify({ userId: 'user-1', messages: legacy['user-1'].history })}\n{"userId":`,
+    );
+
+    expect(migrateTimestampsFile(legacyPath)).toEqual({
+      converted: 1,
+      unreadable: 1,
+    });
+    expect(migrateTimestampsFile(logPath)).toEqual({
+      converted: 1,
+      unreadable: 1,
+    });
+    const migrated = JSON.parse(
+      fs.readFileSync(legacyPath, 'utf8'),
+    ) as typeof legacy;
+    expect(migrated['user-1'].history[0].timestamp).toBe(
+      '2025-05-18T08:48:05.000Z',
+    );
+    const [first, torn] = fs.readFileSync(logPath, 'utf8').split('\n');
+    const record = JSON.parse(first) as {
+      messages: Array<{ timestamp: string }>;
+    };
+    expect(record.messages[0].timestamp).toBe('2025-05-18T08:48:05.000Z');
+    expect(torn).toBe('{"userId":');
+    expect(fs.readFileSync(`${legacyPath}.bak`, 'utf8')).toBe(
+      JSON.stringify(legacy),
+    );
+    // Nothing left to convert the second time round
+    expect(migrateTimestampsFile(legacyPath).converted).toBe(0);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
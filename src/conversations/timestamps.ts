@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import { Conversation } from './conversation.store';
+
+// Timestamps used to be written as India Standard Time, which has no DST
+const LEGACY_UTC_OFFSET_MINUTES = 5 * 60 + 30;
+
+// e.g. "18/05/2025, 02:18:05 pm" (en-IN, Asia/Kolkata)
+const LEGACY_TIMESTAMP =
+  /^(\d{1,2})\/(\d{1,2})\/(\d{4}),?\s+(\d{1,2}):(\d{2}):(\d{2})\s*([ap]m)$/i;
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export interface DisplayPreferences {
+  timeZone: string;
+  locale: string;
+}
+
+// An ISO-8601 UTC timestamp for any timestamp we ever stored, or null if it isn't one
+export function toIsoTimestamp(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  if (ISO_TIMESTAMP.test(value)) return value;
+
+  const legacy = value.trim().match(LEGACY_TIMESTAMP);
+  if (!legacy) return null;
+  const [, day, month, year, hour, minute, second, meridiem] = legacy;
+  const hours = (Number(hour) % 12) + (/pm/i.test(meridiem) ? 12 : 0);
+  const utc =
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      hours,
+      Number(minute),
+      Number(second),
+    ) -
+    LEGACY_UTC_OFFSET_MINUTES * 60_000;
+  return new Date(utc).toISOString();
+}
+
+// The timestamp as the reader would write it, e.g. "18 May 2025, 10:48:05"
+export function formatTimestamp(
+  value: string,
+  { timeZone, locale }: DisplayPreferences,
+): string {
+  const iso = toIsoTimestamp(value);
+  if (!iso) return value;
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'medium',
+  }).format(new Date(iso));
+}
+
+// Throws a RangeError for time zones and locales Intl doesn't know
+export function assertDisplayPreferences(preferences: DisplayPreferences) {
+  Intl.getCanonicalLocales(preferences.locale);
+  new Intl.DateTimeFormat(preferences.locale, {
+    timeZone: preferences.timeZone,
+  });
+}
+
+export interface TimestampMigration {
+  converted: number;
+  // Timestamps that were neither ISO nor the legacy format, left as they were
+  unreadable: number;
+}
+
+function convertHistory(
+  history: Array<{ timestamp?: unknown }> = [],
+  result: TimestampMigration,
+) {
+  for (const entry of history) {
+    const iso = toIsoTimestamp(entry.timestamp);
+    if (!iso) {
+      result.unreadable++;
+    } else if (iso !== entry.timestamp) {
+      entry.timestamp = iso;
+      result.converted++;
+    }
+  }
+}
+
+/**
+ * Rewrites the timestamps in a legacy conversations.json or a JSONL
+ * conversation log as ISO-8601 UTC. The original is kept next to it as .bak.
+ */
+export function migrateTimestampsFile(filePath: string): TimestampMigration {
+  const result: TimestampMigration = { converted: 0, unreadable: 0 };
+  const content = fs.readFileSync(filePath, 'utf8');
+
+  let migrated: string;
+  if (filePath.endsWith('.jsonl')) {
+    migrated = content
+      .split('\n')
+      .map((line) => {
+        if (!line.trim()) return line;
+        try {
+          const record = JSON.parse(line) as {
+            messages?: Array<{ timestamp?: unknown }>;
+          };
+          convertHistory(record.messages, result);
+          return JSON.stringify(record);
+        } catch {
+          // A torn line is left for the store to skip, as it always has
+          return line;
+        }
+      })
+      .join('\n');
+  } else {
+    const legacy = JSON.parse(content) as Record<string, Conversation>;
+    Object.values(legacy).forEach((conversation) =>
+      convertHistory(conversation.history, result),
+    );
+    migrated = JSON.stringify(legacy, null, 2);
+  }
+
+  if (result.converted > 0) {
+    fs.copyFileSync(filePath, `${filePath}.bak`);
+    fs.writeFileSync(filePath, migrated, 'utf8');
+  }
+  return result;
+}
@@ -0,0 +1,87 @@
+import { DeploymentPlanStore } from './deployment-plan.store';
+import { CreateDeploymentPlanInput } from './types';
+
+describe('DeploymentPlanStore', () => {
+  const input: CreateDeploymentPlanInput = {
+    serviceName: 'Virtual Machine',
+    csp: 'aws',
+    userId: 'user-1',
+    threadId: 'default',
+    formData: { instanceName: 'web-01' },
+    template: '{}',
+    resources: [{ type: 'AWS::EC2::Instance', name: 'EC2Instance' }],
+    estimatedCost: null,
+    validation: { valid: true, errors: [] },
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('confirms a pending plan exactly once', () => {
+    const store = new DeploymentPlanStore();
+    const plan = store.create(input);
+
+    expect(plan.token).toMatch(/^plan-/);
+    expect(store.confirm(plan.token, 'user-1')).toMatchObject({
+      ok: true,
+      plan: { status: 'confirmed' },
+    });
+    expect(store.confirm(plan.token, 'user-1')).toMatchObject({
+      ok: false,
+      reason: 'confirmed',
+    });
+  });
+
+  it('refuses to issue plans that failed validation', () => {
+    const store = new DeploymentPlanStore();
+    const errors = [
+      { fieldId: 'amiId', fieldName: 'AMI ID', message: 'AMI ID is required' },
+    ];
+
+    expect(() =>
+      store.create({ ...input, validation: { valid: false, errors } }),
+    ).toThrow('AMI ID is required');
+  });
+
+  it('rejects plans past their expiry', () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    const store = new DeploymentPlanStore(60_000);
+    const plan = store.create(input);
+
+    expect(plan.expiresAt).toBe('2025-01-01T00:01:00.000Z');
+    jest.setSystemTime(new Date('2025-01-01T00:01:00Z'));
+    expect(store.confirm(plan.token, 'user-1')).toMatchObject({
+      ok: false,
+      reason: 'expired',
+    });
+  });
+
+  it('supersedes older plans and hides other users plans', () => {
+    const store = new DeploymentPlanStore();
+    const first = store.create(input);
+    const second = store.create(input);
+    const other = store.create({ ...input, userId: 'user-2' });
+
+    expect(store.confirm(first.token, 'user-1')).toMatchObject({
+      ok: false,
+      reason: 'superseded',
+    });
+    expect(store.confirm(second.token, 'user-2')).toEqual({
+      ok: false,
+      reason: 'not_found',
+    });
+    expect(store.get(other.token)?.status).toBe('pending');
+  });
+
+  it('only supersedes plans from the same conversation thread', () => {
+    const store = new DeploymentPlanStore();
+    const inA = store.create({ ...input, threadId: 'thr-a' });
+    const inB = store.create({ ...input, threadId: 'thr-b' });
+    const newerInB = store.create({ ...input, threadId: 'thr-b' });
+
+    expect(store.get(inB.token)?.status).toBe('superseded');
+    expect(store.confirm(inA.token, 'user-1').ok).toBe(true);
+    expect(store.confirm(newerInB.token, 'user-1').ok).toBe(true);
+  });
+});
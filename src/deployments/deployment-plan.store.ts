@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto';
+import {
+  CreateDeploymentPlanInput,
+  DeploymentPlan,
+  DeploymentPlanLookup,
+} from './types';
+
+export const DEFAULT_PLAN_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Holds deployment plans between the turn that produced them and the user's
+ * confirmation. Plans are short-lived, so they are kept in memory only: after a
+ * restart the user simply asks for a fresh plan.
+ */
+export class DeploymentPlanStore {
+  private readonly plans = new Map<string, DeploymentPlan>();
+
+  constructor(private readonly ttlMs = DEFAULT_PLAN_TTL_MS) {}
+
+  create(input: CreateDeploymentPlanInput): DeploymentPlan {
+    // Plans are only issued for values that passed validation
+    if (!input.validation.valid) {
+      throw new Error(
+        `Refusing to plan ${input.serviceName}: ${input.validation.errors.map((e) => e.message).join('; ')}`,
+      );
+    }
+    this.prune();
+
+    // A new plan replaces whatever the user still had open in the same thread
+    for (const plan of this.plans.values()) {
+      if (
+        plan.userId === input.userId &&
+        plan.threadId === input.threadId &&
+        plan.status === 'pending'
+      ) {
+        plan.status = 'superseded';
+      }
+    }
+
+    const now = Date.now();
+    const plan: DeploymentPlan = {
+      ...input,
+      token: `plan-${randomUUID()}`,
+      status: 'pending',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+    };
+    this.plans.set(plan.token, plan);
+    return { ...plan };
+  }
+
+  get(token: string): DeploymentPlan | null {
+    const plan = this.plans.get(token);
+    return plan ? { ...plan } : null;
+  }
+
+  // Marks the plan as confirmed; each plan can be confirmed exactly once
+  confirm(token: string, userId: string): DeploymentPlanLookup {
+    return this.settle(token, userId, 'confirmed');
+  }
+
+  cancel(token: string, userId: string): DeploymentPlanLookup {
+    return this.settle(token, userId, 'cancelled');
+  }
+
+  private settle(
+    token: string,
+    userId: string,
+    status: 'confirmed' | 'cancelled',
+  ): DeploymentPlanLookup {
+    const plan = this.plans.get(token);
+    // Someone else's token is reported the same as an unknown one
+    if (!plan || plan.userId !== userId) {
+      return { ok: false, reason: 'not_found' };
+    }
+    if (plan.status !== 'pending') {
+      return { ok: false, reason: plan.status, plan: { ...plan } };
+    }
+    if (Date.parse(plan.expiresAt) <= Date.now()) {
+      return { ok: false, reason: 'expired', plan: { ...plan } };
+    }
+    if (status === 'confirmed' && !plan.validation.valid) {
+      return { ok: false, reason: 'invalid', plan: { ...plan } };
+    }
+
+    plan.status = status;
+    return { ok: true, plan: { ...plan } };
+  }
+
+  // Forget plans once they are well past their expiry; until then a late
+  // confirmation still gets a precise "expired" answer
+  private prune() {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [token, plan] of this.plans) {
+      if (Date.parse(plan.expiresAt) < cutoff) {
+        this.plans.delete(token);
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeploymentRegistry } from './deployment.registry';
+
+describe('DeploymentRegistry', () => {
+  const input = {
+    serviceName: 'Virtual Machine',
+    csp: 'aws',
+    userId: 'user-1',
+    formData: { instanceName: 'web-01' },
+    template: '{}',
+  };
+
+  it('gives every deployment a unique id', () => {
+    const registry = new DeploymentRegistry();
+
+    const first = registry.create(input);
+    const second = registry.create(input);
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.status).toBe('pending');
+    expect(registry.latestForUser('user-1')?.id).toBe(second.id);
+  });
+
+  it('only allows valid state transitions', () => {
+    const registry = new DeploymentRegistry();
+    const { id } = registry.create(input);
+
+    registry.updateStatus(id, 'in_progress');
+    registry.updateStatus(id, 'succeeded', 'done');
+
+    expect(() => registry.updateStatus(id, 'pending')).toThrow(
+      'cannot move from succeeded to pending',
+    );
+    expect(registry.get(id)?.history.map((h) => h.status)).toEqual([
+      'pending',
+      'in_progress',
+      'succeeded',
+    ]);
+  });
+
+  it('reconfigures only deployments that succeeded', () => {
+    const registry = new DeploymentRegistry();
+    const { id } = registry.create(input);
+    const changes = [
+      {
+        fieldId: 'instanceType',
+        fieldName: 'Instance Type',
+        from: 't3.micro',
+        to: 't3.small',
+      },
+    ];
+    const formData = { instanceName: 'web-01', instanceType: 't3.small' };
+
+    expect(() => registry.reconfigure(id, formData, '{}', changes)).toThrow(
+      'is pending and cannot be reconfigured',
+    );
+
+    registry.updateStatus(id, 'in_progress');
+    registry.updateStatus(id, 'succeeded');
+    const record = registry.reconfigure(id, formData, '{}', changes);
+
+    expect(record).toMatchObject({
+      status: 'in_progress',
+      formData,
+      message: 'Configuration change: Instance Type',
+    });
+    expect(record.history.at(-1)?.changes).toEqual(changes);
+  });
+
+  it('restores the latest state of each deployment from its log', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'));
+    const logPath = path.join(dir, 'deployments.jsonl');
+    try {
+      const registry = new DeploymentRegistry(logPath);
+      const { id } = registry.create(input);
+      registry.updateStatus(id, 'failed', 'quota exceeded');
+
+      const reloaded = new DeploymentRegistry(logPath);
+
+      expect(reloaded.list()).toHaveLength(1);
+      expect(reloaded.get(id)).toMatchObject({
+        status: 'failed',
+        message: 'quota exceeded',
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  CreateDeploymentInput,
+  DeploymentRecord,
+  DeploymentStatus,
+} from './types';
+import { FieldChange } from '../services/types';
+
+// Which states a deployment may move to from each state
+const ALLOWED_TRANSITIONS: Record<DeploymentStatus, DeploymentStatus[]> = {
+  pending: ['in_progress', 'failed'],
+  in_progress: ['succeeded', 'failed'],
+  succeeded: ['destroying', 'destroyed'],
+  failed: ['destroying', 'destroyed'],
+  destroying: ['destroyed', 'failed'],
+  destroyed: [],
+};
+
+/**
+ * Tracks every deployment the agent starts. Each change is appended to a JSONL
+ * log as a full snapshot of the record, and the latest snapshot per id wins
+ * when the log is replayed at startup. Pass no path to keep it in memory only.
+ */
+export class DeploymentRegistry {
+  private readonly deployments = new Map<string, DeploymentRecord>();
+
+  constructor(private readonly filePath?: string) {
+    this.replay();
+  }
+
+  create(input: CreateDeploymentInput): DeploymentRecord {
+    const now = new Date().toISOString();
+    const record: DeploymentRecord = {
+      id: `dep-${randomUUID()}`,
+      ...input,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'pending', at: now }],
+    };
+    return this.save(record);
+  }
+
+  updateStatus(
+    id: string,
+    status: DeploymentStatus,
+    message?: string,
+  ): DeploymentRecord {
+    const record = this.deployments.get(id);
+    if (!record) {
+      throw new Error(`Deployment ${id} not found`);
+    }
+    if (!ALLOWED_TRANSITIONS[record.status].includes(status)) {
+      throw new Error(
+        `Deployment ${id} cannot move from ${record.status} to ${status}`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    return this.save({
+      ...record,
+      status,
+      message: message ?? record.message,
+      updatedAt: now,
+      history: [...record.history, { status, at: now, message }],
+    });
+  }
+
+  // Applies new settings to a live deployment. It goes back to in_progress
+  // until the backend reports the change as applied, as for a new deployment.
+  reconfigure(
+    id: string,
+    formData: Record<string, string>,
+    template: string,
+    changes: FieldChange[],
+  ): DeploymentRecord {
+    const record = this.deployments.get(id);
+    if (!record) {
+      throw new Error(`Deployment ${id} not found`);
+    }
+    if (record.status !== 'succeeded') {
+      throw new Error(
+        `Deployment ${id} is ${record.status} and cannot be reconfigured`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const message = `Configuration change: ${changes.map((change) => change.fieldName).join(', ')}`;
+    return this.save({
+      ...record,
+      formData,
+      template,
+      status: 'in_progress',
+      message,
+      updatedAt: now,
+      history: [
+        ...record.history,
+        { status: 'in_progress', at: now, message, changes },
+      ],
+    });
+  }
+
+  setProtected(id: string, isProtected: boolean): DeploymentRecord {
+    const record = this.deployments.get(id);
+    if (!record) {
+      throw new Error(`Deployment ${id} not found`);
+    }
+    return this.save({
+      ...record,
+      protected: isProtected,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  get(id: string): DeploymentRecord | null {
+    return this.deployments.get(id) || null;
+  }
+
+  list(filter: { userId?: string; status?: string } = {}): DeploymentRecord[] {
+    // Newest first; reversing insertion order breaks ties within the same millisecond
+    return [...this.deployments.values()]
+      .reverse()
+      .filter(
+        (d) =>
+          (!filter.userId || d.userId === filter.userId) &&
+          (!filter.status || d.status === filter.status),
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Most recent deployment started by the user, if any
+  latestForUser(userId: string): DeploymentRecord | null {
+    return this.list({ userId })[0] || null;
+  }
+
+  private save(record: DeploymentRecord): DeploymentRecord {
+    if (this.filePath) {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+    }
+    this.deployments.set(record.id, record);
+    return record;
+  }
+
+  private replay() {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as DeploymentRecord;
+        this.deployments.set(record.id, record);
+      } catch (e) {
+        console.error(`Skipping unreadable line in ${this.filePath}:`, e);
+      }
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { DeploymentRegistry } from './deployment.registry';
+import { DeploymentRecord, DeploymentStatus } from './types';
+import { CurrentUser, RequireRole } from '../auth/auth.decorators';
+import { assertSelfOrAdmin } from '../auth/auth.guard';
+import { Principal, hasRole } from '../auth/types';
+
+interface ProtectionBody {
+  protected: boolean;
+}
+
+interface StatusUpdateBody {
+  status: DeploymentStatus;
+  message?: string;
+}
+
+@Controller('agent/deployments')
+export class DeploymentsController {
+  constructor(private readonly registry: DeploymentRegistry) {}
+
+  @Get()
+  @RequireRole('admin')
+  listDeployments(@Query('status') status?: string): DeploymentRecord[] {
+    return this.registry.list({ status });
+  }
+
+  @Get('user/:userId')
+  listUserDeployments(
+    @CurrentUser() principal: Principal,
+    @Param('userId') userId: string,
+    @Query('status') status?: string,
+  ): DeploymentRecord[] {
+    assertSelfOrAdmin(principal, userId);
+    return this.registry.list({ userId, status });
+  }
+
+  @Get(':id')
+  getDeployment(
+    @CurrentUser() principal: Principal,
+    @Param('id') id: string,
+  ): DeploymentRecord {
+    const deployment = this.findDeployment(id);
+    assertSelfOrAdmin(principal, deployment.userId);
+    return deployment;
+  }
+
+  // Callback for the deployment backend to report progress. The backend
+  // authenticates as an admin service account (an AUTH_API_KEYS entry).
+  @Post(':id/status')
+  @RequireRole('admin')
+  updateStatus(
+    @Param('id') id: string,
+    @Body() body: StatusUpdateBody,
+  ): DeploymentRecord {
+    this.findDeployment(id);
+    try {
+      return this.registry.updateStatus(id, body.status, body.message);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  // Owners may protect their deployments; only admins can lift protection
+  @Put(':id/protection')
+  setProtection(
+    @CurrentUser() principal: Principal,
+    @Param('id') id: string,
+    @Body() body: ProtectionBody,
+  ): DeploymentRecord {
+    const deployment = this.findDeployment(id);
+    assertSelfOrAdmin(principal, deployment.userId);
+    if (typeof body?.protected !== 'boolean') {
+      throw new BadRequestException('protected must be true or false');
+    }
+    if (!body.protected && !hasRole(principal, 'admin')) {
+      throw new ForbiddenException(
+        'Only admins can remove protection from a deployment',
+      );
+    }
+    return this.registry.setProtected(id, body.protected);
+  }
+
+  private findDeployment(id: string): DeploymentRecord {
+    const deployment = this.registry.get(id);
+    if (!deployment) {
+      throw new NotFoundException(`Deployment ${id} not found`);
+    }
+    return deployment;
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import * as path from 'path';
+import { DeploymentRegistry } from './deployment.registry';
+import {
+  DEFAULT_PLAN_TTL_MS,
+  DeploymentPlanStore,
+} from './deployment-plan.store';
+import { DeploymentsController } from './deployments.controller';
+
+@Module({
+  controllers: [DeploymentsController],
+  providers: [
+    {
+      provide: DeploymentRegistry,
+      useFactory: () =>
+        new DeploymentRegistry(
+          process.env.DEPLOYMENT_LOG_PATH ||
+            path.join(process.cwd(), 'data', 'deployments.jsonl'),
+        ),
+    },
+    {
+      provide: DeploymentPlanStore,
+      useFactory: () =>
+        new DeploymentPlanStore(
+          process.env.DEPLOYMENT_PLAN_TTL_SECONDS
+            ? Number(process.env.DEPLOYMENT_PLAN_TTL_SECONDS) * 1000
+            : DEFAULT_PLAN_TTL_MS,
+        ),
+    },
+  ],
+  exports: [DeploymentRegistry, DeploymentPlanStore],
+})
+export class DeploymentsModule {}
@@ -0,0 +1,106 @@
+import { FieldChange, FieldValidationError } from '../services/types';
+import { PlannedResource } from '../templates/types';
+import { CostEstimate } from '../pricing/types';
+import { InventoryResource } from '../inventory/types';
+
+export type DeploymentStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'succeeded'
+  | 'failed'
+  | 'destroying'
+  | 'destroyed';
+
+export interface DeploymentStatusChange {
+  status: DeploymentStatus;
+  at: string;
+  message?: string;
+  // Set when the entry starts a configuration change
+  changes?: FieldChange[];
+}
+
+export interface DeploymentRecord {
+  id: string;
+  serviceName: string;
+  csp: string;
+  userId: string;
+  formData: Record<string, string>;
+  template: string;
+  status: DeploymentStatus;
+  message?: string;
+  // Protected deployments can't be torn down until the flag is cleared
+  protected?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  history: DeploymentStatusChange[];
+}
+
+export interface CreateDeploymentInput {
+  serviceName: string;
+  csp: string;
+  userId: string;
+  formData: Record<string, string>;
+  template: string;
+}
+
+export type DeploymentPlanStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'cancelled'
+  | 'superseded';
+
+export interface DeploymentPlan extends CreateDeploymentInput {
+  token: string;
+  // The conversation thread the plan was made in
+  threadId: string;
+  status: DeploymentPlanStatus;
+  resources: PlannedResource[];
+  estimatedCost: CostEstimate | null;
+  validation: { valid: boolean; errors: FieldValidationError[] };
+  // Set when the plan changes the configuration of an existing deployment
+  deploymentId?: string;
+  changes?: FieldChange[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type CreateDeploymentPlanInput = Omit<
+  DeploymentPlan,
+  'token' | 'status' | 'createdAt' | 'expiresAt'
+>;
+
+// Why a plan token could not be used
+export type DeploymentPlanRejection =
+  | 'not_found'
+  | 'expired'
+  | 'superseded'
+  | 'confirmed'
+  | 'cancelled'
+  | 'invalid';
+
+export type DeploymentPlanLookup =
+  | { ok: true; plan: DeploymentPlan }
+  | { ok: false; reason: DeploymentPlanRejection; plan?: DeploymentPlan };
+
+// What tearing a deployment down would delete
+export interface TeardownPreview {
+  deployment: DeploymentRecord;
+  // Typed back by the user to confirm: the resource's name, or the deployment id
+  confirmName: string;
+  resources: PlannedResource[];
+  // The matching resources found in the cloud inventory, if any
+  existing: InventoryResource[];
+}
+
+// Why a deployment was not (or could not be) torn down
+export type TeardownRejection =
+  | 'not_found'
+  | 'not_destroyable'
+  | 'protected'
+  | 'protection_unknown'
+  | 'confirmation_mismatch'
+  | 'failed';
+
+export type TeardownLookup =
+  | { ok: true; teardown: TeardownPreview }
+  | { ok: false; reason: TeardownRejection; message: string };
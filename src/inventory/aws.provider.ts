@@ -0,0 +1,120 @@
+import * as AWS from 'aws-sdk';
+import { ResourceInventoryProvider, tagMap } from './inventory.provider';
+import { InventoryQuery, InventoryResource, ResourceType } from './types';
+
+export interface AwsInventoryOptions {
+  // Used when the query names no region; credentials come from the SDK's usual chain
+  region?: string;
+}
+
+export class AwsInventoryProvider implements ResourceInventoryProvider {
+  readonly name = 'aws';
+  readonly cloud = 'aws';
+
+  constructor(private readonly options: AwsInventoryOptions = {}) {}
+
+  async list(
+    type: ResourceType,
+    query: InventoryQuery = {},
+  ): Promise<InventoryResource[]> {
+    const region = query.region || this.options.region || 'us-east-1';
+    const resource = (
+      fields: Omit<InventoryResource, 'type' | 'cloud' | 'region'>,
+    ): InventoryResource => ({ ...fields, type, cloud: 'aws', region });
+
+    switch (type) {
+      case 'vm': {
+        const { Reservations = [] } = await new AWS.EC2({ region })
+          .describeInstances()
+          .promise();
+        return Reservations.flatMap((reservation) =>
+          (reservation.Instances || []).map((instance) => {
+            const tags = tagMap(instance.Tags);
+            return resource({
+              id: instance.InstanceId || '',
+              name: tags.Name || instance.InstanceId || '',
+              state: instance.State?.Name || 'unknown',
+              tags,
+            });
+          }),
+        );
+      }
+      case 'database': {
+        const { DBInstances = [] } = await new AWS.RDS({ region })
+          .describeDBInstances()
+          .promise();
+        return DBInstances.map((db) =>
+          resource({
+            id: db.DBInstanceIdentifier || '',
+            name: db.DBInstanceIdentifier || '',
+            state: db.DBInstanceStatus || 'unknown',
+            tags: tagMap(db.TagList),
+          }),
+        );
+      }
+      case 'loadBalancer': {
+        const elb = new AWS.ELBv2({ region });
+        const { LoadBalancers = [] } = await elb
+          .describeLoadBalancers()
+          .promise();
+        const tags = await this.loadBalancerTags(
+          elb,
+          LoadBalancers.map((lb) => lb.LoadBalancerArn || ''),
+        );
+        return LoadBalancers.map((lb) =>
+          resource({
+            id: lb.LoadBalancerArn || '',
+            name: lb.LoadBalancerName || '',
+            state: lb.State?.Code || 'unknown',
+            tags: tags.get(lb.LoadBalancerArn || '') || {},
+          }),
+        );
+      }
+      case 'network': {
+        const { Vpcs = [] } = await new AWS.EC2({ region })
+          .describeVpcs()
+          .promise();
+        return Vpcs.map((vpc) => {
+          const tags = tagMap(vpc.Tags);
+          return resource({
+            id: vpc.VpcId || '',
+            name: tags.Name || (vpc.IsDefault ? 'default' : vpc.VpcId || ''),
+            state: vpc.State || 'unknown',
+            tags,
+          });
+        });
+      }
+      case 'securityGroup': {
+        const { SecurityGroups = [] } = await new AWS.EC2({ region })
+          .describeSecurityGroups()
+          .promise();
+        // Security groups have no lifecycle; existing ones are in use
+        return SecurityGroups.map((group) =>
+          resource({
+            id: group.GroupId || '',
+            name: group.GroupName || '',
+            state: 'active',
+            tags: tagMap(group.Tags),
+          }),
+        );
+      }
+    }
+  }
+
+  // Load balancer tags are fetched separately, at most 20 ARNs per call
+  private async loadBalancerTags(
+    elb: AWS.ELBv2,
+    arns: string[],
+  ): Promise<Map<string, Record<string, string>>> {
+    const tags = new Map<string, Record<string, string>>();
+    for (let i = 0; i < arns.length; i += 20) {
+      const { TagDescriptions = [] } = await elb
+        .describeTags({ ResourceArns: arns.slice(i, i + 20) })
+        .promise();
+      TagDescriptions.forEach((description) =>
+        tags.set(description.ResourceArn || '', tagMap(description.Tags)),
+      );
+    }
+    return tags;
+  }
+}
@@ -0,0 +1,115 @@
+import axios from 'axios';
+import { ResourceInventoryProvider, lastSegment } from './inventory.provider';
+import { InventoryQuery, InventoryResource, ResourceType } from './types';
+
+export interface AzureInventoryOptions {
+  subscriptionId: string;
+  // A ready-made ARM token, e.g. from `az account get-access-token`
+  accessToken?: string;
+  // Or a service principal to fetch tokens with
+  tenantId?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+interface ArmResource {
+  id: string;
+  name: string;
+  location: string;
+  tags?: Record<string, string>;
+  properties?: { provisioningState?: string; state?: string };
+}
+
+interface ArmPage {
+  value: ArmResource[];
+  nextLink?: string;
+}
+
+const ARM_URL = 'https://management.azure.com';
+
+// ARM resource provider path and API version for each type
+const ARM_TYPES: Record<ResourceType, [string, string]> = {
+  vm: ['Microsoft.Compute/virtualMachines', '2024-07-01'],
+  database: ['Microsoft.Sql/servers', '2021-11-01'],
+  loadBalancer: ['Microsoft.Network/loadBalancers', '2024-01-01'],
+  network: ['Microsoft.Network/virtualNetworks', '2024-01-01'],
+  securityGroup: ['Microsoft.Network/networkSecurityGroups', '2024-01-01'],
+};
+
+export class AzureInventoryProvider implements ResourceInventoryProvider {
+  readonly name = 'azure';
+  readonly cloud = 'azure';
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly options: AzureInventoryOptions) {
+    if (
+      !options.accessToken &&
+      !(options.tenantId && options.clientId && options.clientSecret)
+    ) {
+      throw new Error(
+        'AZURE_ACCESS_TOKEN or AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_CLIENT_SECRET must be set',
+      );
+    }
+  }
+
+  async list(
+    type: ResourceType,
+    query: InventoryQuery = {},
+  ): Promise<InventoryResource[]> {
+    const [resourceType, apiVersion] = ARM_TYPES[type];
+    const headers = { Authorization: `Bearer ${await this.accessToken()}` };
+    const resources: ArmResource[] = [];
+
+    // Results come in pages linked by nextLink
+    let url: string | undefined =
+      `${ARM_URL}/subscriptions/${this.options.subscriptionId}/providers/${resourceType}?api-version=${apiVersion}`;
+    while (url) {
+      const { data }: { data: ArmPage } = await axios.get<ArmPage>(url, {
+        headers,
+      });
+      resources.push(...data.value);
+      url = data.nextLink;
+    }
+
+    return resources
+      .filter((resource) => !query.region || resource.location === query.region)
+      .map((resource) => ({
+        id: resource.id,
+        name: resource.name || lastSegment(resource.id),
+        type,
+        cloud: 'azure',
+        region: resource.location,
+        state:
+          resource.properties?.state ||
+          resource.properties?.provisioningState ||
+          'unknown',
+        tags: resource.tags || {},
+      }));
+  }
+
+  private async accessToken(): Promise<string> {
+    if (this.options.accessToken) return this.options.accessToken;
+    if (this.token && this.token.expiresAt > Date.now() + 60_000) {
+      return this.token.value;
+    }
+
+    const { tenantId, clientId, clientSecret } = this.options;
+    const { data } = await axios.post<{
+      access_token: string;
+      expires_in: number;
+    }>(
+      `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`,
+      new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId || '',
+        client_secret: clientSecret || '',
+        scope: `${ARM_URL}/.default`,
+      }),
+    );
+    this.token = {
+      value: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    };
+    return this.token.value;
+  }
+}
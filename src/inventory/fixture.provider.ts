@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResourceInventoryProvider } from './inventory.provider';
+import { InventoryQuery, InventoryResource, ResourceType } from './types';
+
+export const DEFAULT_INVENTORY_FIXTURES_PATH = path.join(
+  process.cwd(),
+  'inventory-fixtures.json',
+);
+
+// cloud -> resource type -> resources, without the cloud and type repeated
+export type InventoryFixtures = Record<
+  string,
+  Partial<
+    Record<ResourceType, Array<Omit<InventoryResource, 'cloud' | 'type'>>>
+  >
+>;
+
+/**
+ * Serves a canned inventory from a JSON file, so listing resources can be
+ * developed and tested without cloud accounts.
+ */
+export class FixtureInventoryProvider implements ResourceInventoryProvider {
+  readonly name = 'fixture';
+
+  constructor(
+    readonly cloud: string,
+    private readonly fixtures: InventoryFixtures,
+  ) {}
+
+  static load(filePath = DEFAULT_INVENTORY_FIXTURES_PATH): InventoryFixtures {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as InventoryFixtures;
+    } catch (error) {
+      throw new Error(
+        `Cannot read inventory fixtures ${filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  list(
+    type: ResourceType,
+    query: InventoryQuery = {},
+  ): Promise<InventoryResource[]> {
+    const resources = (this.fixtures[this.cloud]?.[type] || [])
+      .filter((resource) => !query.region || resource.region === query.region)
+      .map((resource) => ({
+        ...resource,
+        cloud: this.cloud,
+        type,
+        tags: resource.tags || {},
+      }));
+    return Promise.resolve(resources);
+  }
+}
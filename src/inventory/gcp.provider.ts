@@ -0,0 +1,113 @@
+import axios from 'axios';
+import { ResourceInventoryProvider, lastSegment } from './inventory.provider';
+import { InventoryQuery, InventoryResource, ResourceType } from './types';
+
+export interface GcpInventoryOptions {
+  projectId: string;
+  // e.g. from `gcloud auth print-access-token`
+  accessToken: string;
+}
+
+// The fields we read from Compute Engine and Cloud SQL objects
+interface GcpResource {
+  id?: string;
+  name: string;
+  zone?: string;
+  region?: string;
+  status?: string;
+  state?: string;
+  disabled?: boolean;
+  labels?: Record<string, string>;
+  settings?: { userLabels?: Record<string, string> };
+}
+
+interface GcpPage {
+  // A list for global and Cloud SQL resources, keyed by zone or region for aggregated ones
+  items?: GcpResource[] | Record<string, Record<string, unknown>>;
+  nextPageToken?: string;
+}
+
+const COMPUTE_URL = 'https://compute.googleapis.com/compute/v1/projects';
+const SQL_URL = 'https://sqladmin.googleapis.com/v1/projects';
+
+export class GcpInventoryProvider implements ResourceInventoryProvider {
+  readonly name = 'gcp';
+  readonly cloud = 'gcp';
+
+  constructor(private readonly options: GcpInventoryOptions) {
+    if (!options.projectId || !options.accessToken) {
+      throw new Error('GCP_PROJECT_ID and GCP_ACCESS_TOKEN must be set');
+    }
+  }
+
+  async list(
+    type: ResourceType,
+    query: InventoryQuery = {},
+  ): Promise<InventoryResource[]> {
+    const project = this.options.projectId;
+    const urls: Record<ResourceType, string> = {
+      vm: `${COMPUTE_URL}/${project}/aggregated/instances`,
+      database: `${SQL_URL}/${project}/instances`,
+      loadBalancer: `${COMPUTE_URL}/${project}/aggregated/forwardingRules`,
+      network: `${COMPUTE_URL}/${project}/global/networks`,
+      securityGroup: `${COMPUTE_URL}/${project}/global/firewalls`,
+    };
+
+    const resources = await this.fetchAll(urls[type]);
+    return resources
+      .map((resource) => {
+        // Zones (us-central1-a) are more useful than their region for VMs
+        const region =
+          lastSegment(resource.zone) ||
+          lastSegment(resource.region) ||
+          'global';
+        return {
+          id: resource.id || resource.name,
+          name: resource.name,
+          type,
+          cloud: 'gcp',
+          region,
+          state:
+            resource.status ||
+            resource.state ||
+            (resource.disabled === undefined
+              ? 'active'
+              : resource.disabled
+                ? 'disabled'
+                : 'enabled'),
+          tags: resource.labels || resource.settings?.userLabels || {},
+        };
+      })
+      .filter(
+        (resource) =>
+          !query.region ||
+          resource.region === 'global' ||
+          resource.region.startsWith(query.region),
+      );
+  }
+
+  private async fetchAll(url: string): Promise<GcpResource[]> {
+    const headers = { Authorization: `Bearer ${this.options.accessToken}` };
+    const resources: GcpResource[] = [];
+    let pageToken: string | undefined;
+    do {
+      const { data } = await axios.get<GcpPage>(url, {
+        headers,
+        params: pageToken ? { pageToken } : undefined,
+      });
+      const items = data.items || [];
+      if (Array.isArray(items)) {
+        resources.push(...items);
+      } else {
+        // Aggregated lists: { "zones/us-central1-a": { instances: [...] } }
+        for (const scoped of Object.values(items)) {
+          Object.values(scoped).forEach((list) => {
+            if (Array.isArray(list)) resources.push(...(list as GcpResource[]));
+          });
+        }
+      }
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+    return resources;
+  }
+}
@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import { ResourceInventoryProvider } from './inventory.provider';
+import { AwsInventoryProvider } from './aws.provider';
+import { AzureInventoryProvider } from './azure.provider';
+import { GcpInventoryProvider } from './gcp.provider';
+import { OracleInventoryProvider } from './oracle.provider';
+import { FixtureInventoryProvider } from './fixture.provider';
+import { CLOUDS } from '../catalog/catalog.schema';
+
+/**
+ * Picks the inventory providers from INVENTORY_PROVIDER (cloud | fixture).
+ * The fixture inventory is the default so nothing reaches a cloud account by
+ * accident; with "cloud", AWS uses the SDK's credential chain and the other
+ * clouds are listed only when their credentials are configured.
+ */
+export function createInventoryProviders(
+  env: NodeJS.ProcessEnv = process.env,
+): ResourceInventoryProvider[] {
+  const mode = (env.INVENTORY_PROVIDER || 'fixture').toLowerCase();
+
+  switch (mode) {
+    case 'fixture': {
+      console.warn('Using the fixture resource inventory');
+      const fixtures = FixtureInventoryProvider.load(
+        env.INVENTORY_FIXTURES_PATH || undefined,
+      );
+      return CLOUDS.map(
+        (cloud) => new FixtureInventoryProvider(cloud, fixtures),
+      );
+    }
+    case 'cloud': {
+      const providers: ResourceInventoryProvider[] = [
+        new AwsInventoryProvider({ region: env.AWS_REGION }),
+      ];
+      if (env.AZURE_SUBSCRIPTION_ID) {
+        providers.push(
+          new AzureInventoryProvider({
+            subscriptionId: env.AZURE_SUBSCRIPTION_ID,
+            accessToken: env.AZURE_ACCESS_TOKEN,
+            tenantId: env.AZURE_TENANT_ID,
+            clientId: env.AZURE_CLIENT_ID,
+            clientSecret: env.AZURE_CLIENT_SECRET,
+          }),
+        );
+      }
+      if (env.GCP_PROJECT_ID) {
+        providers.push(
+          new GcpInventoryProvider({
+            projectId: env.GCP_PROJECT_ID,
+            accessToken: env.GCP_ACCESS_TOKEN || '',
+          }),
+        );
+      }
+      if (env.OCI_TENANCY_ID) {
+        providers.push(
+          new OracleInventoryProvider({
+            tenancyId: env.OCI_TENANCY_ID,
+            userId: env.OCI_USER_ID || '',
+            fingerprint: env.OCI_FINGERPRINT || '',
+            privateKey: env.OCI_PRIVATE_KEY_PATH
+              ? fs.readFileSync(env.OCI_PRIVATE_KEY_PATH, 'utf8')
+              : '',
+            region: env.OCI_REGION || '',
+            compartmentId: env.OCI_COMPARTMENT_ID,
+          }),
+        );
+      }
+      return providers;
+    }
+    default:
+      throw new Error(`Unknown INVENTORY_PROVIDER "${mode}"`);
+  }
+}
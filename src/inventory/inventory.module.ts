@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ResourceInventory } from './resource.inventory';
+import { createInventoryProviders } from './inventory.factory';
+
+@Module({
+  providers: [
+    {
+      provide: ResourceInventory,
+      useFactory: () => new ResourceInventory(createInventoryProviders()),
+    },
+  ],
+  exports: [ResourceInventory],
+})
+export class InventoryModule {}
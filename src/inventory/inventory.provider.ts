@@ -0,0 +1,29 @@
+import { InventoryQuery, InventoryResource, ResourceType } from './types';
+
+/**
+ * Lists the resources a user already has on one cloud. Implementations map
+ * the provider's own API objects onto InventoryResource; formatting is left
+ * to the caller.
+ */
+export interface ResourceInventoryProvider {
+  readonly name: string;
+  readonly cloud: string;
+  list(
+    type: ResourceType,
+    query?: InventoryQuery,
+  ): Promise<InventoryResource[]>;
+}
+
+// Turns [{ Key, Value }] tag lists (AWS) into a plain object
+export function tagMap(
+  tags?: Array<{ Key?: string; Value?: string }>,
+): Record<string, string> {
+  return Object.fromEntries(
+    (tags || [])
+      .filter((tag) => tag.Key)
+      .map((tag) => [tag.Key as string, tag.Value || '']),
+  );
+}
+
+// The last segment of a URL or resource path, e.g. zones/us-central1-a
+export const lastSegment = (value?: string) => value?.split('/').pop() || '';
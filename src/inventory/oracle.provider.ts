@@ -0,0 +1,103 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { ResourceInventoryProvider } from './inventory.provider';
+import { InventoryQuery, InventoryResource, ResourceType } from './types';
+
+export interface OracleInventoryOptions {
+  tenancyId: string;
+  userId: string;
+  fingerprint: string;
+  // PEM private key of the API signing key
+  privateKey: string;
+  region: string;
+  // Listed compartment; defaults to the tenancy (root compartment)
+  compartmentId?: string;
+}
+
+interface OciResource {
+  id: string;
+  displayName: string;
+  lifecycleState?: string;
+  freeformTags?: Record<string, string>;
+}
+
+// Service host prefix and API path for each type
+const OCI_TYPES: Record<ResourceType, [string, string]> = {
+  vm: ['iaas', '/20160918/instances'],
+  database: ['database', '/20160918/dbSystems'],
+  loadBalancer: ['iaas', '/20170115/loadBalancers'],
+  network: ['iaas', '/20160918/vcns'],
+  securityGroup: ['iaas', '/20160918/networkSecurityGroups'],
+};
+
+export class OracleInventoryProvider implements ResourceInventoryProvider {
+  readonly name = 'oracle';
+  readonly cloud = 'oracle';
+
+  constructor(private readonly options: OracleInventoryOptions) {
+    const missing = (
+      ['tenancyId', 'userId', 'fingerprint', 'privateKey', 'region'] as const
+    ).filter((key) => !options[key]);
+    if (missing.length) {
+      throw new Error(
+        'OCI_TENANCY_ID, OCI_USER_ID, OCI_FINGERPRINT, OCI_PRIVATE_KEY_PATH and OCI_REGION must be set',
+      );
+    }
+  }
+
+  async list(
+    type: ResourceType,
+    query: InventoryQuery = {},
+  ): Promise<InventoryResource[]> {
+    const region = query.region || this.options.region;
+    const [service, apiPath] = OCI_TYPES[type];
+    const host = `${service}.${region}.oraclecloud.com`;
+    const compartmentId = encodeURIComponent(
+      this.options.compartmentId || this.options.tenancyId,
+    );
+
+    const resources: OciResource[] = [];
+    let page: string | undefined;
+    do {
+      const target = `${apiPath}?compartmentId=${compartmentId}${page ? `&page=${encodeURIComponent(page)}` : ''}`;
+      const response = await axios.get<OciResource[]>(
+        `https://${host}${target}`,
+        {
+          headers: this.sign(host, target),
+        },
+      );
+      resources.push(...response.data);
+      page = response.headers['opc-next-page'] as string | undefined;
+    } while (page);
+
+    return resources.map((resource) => ({
+      id: resource.id,
+      name: resource.displayName,
+      type,
+      cloud: 'oracle',
+      region,
+      state: resource.lifecycleState || 'unknown',
+      tags: resource.freeformTags || {},
+    }));
+  }
+
+  // OCI API requests are signed with the user's API key (HTTP Signatures)
+  private sign(host: string, target: string): Record<string, string> {
+    const date = new Date().toUTCString();
+    const signingString = [
+      `date: ${date}`,
+      `(request-target): get ${target}`,
+      `host: ${host}`,
+    ].join('\n');
+    const signature = crypto
+      .createSign('RSA-SHA256')
+      .update(signingString)
+      .sign(this.options.privateKey, 'base64');
+    const { tenancyId, userId, fingerprint } = this.options;
+
+    return {
+      date,
+      authorization: `Signature version="1",keyId="${tenancyId}/${userId}/${fingerprint}",algorithm="rsa-sha256",headers="date (request-target) host",signature="${signature}"`,
+    };
+  }
+}
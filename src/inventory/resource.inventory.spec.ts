@@ -0,0 +1,84 @@
+import { ResourceInventory, parseResourceType } from './resource.inventory';
+import { FixtureInventoryProvider } from './fixture.provider';
+import { createInventoryProviders } from './inventory.factory';
+
+describe('ResourceInventory', () => {
+  const fixtures = FixtureInventoryProvider.load();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('understands what users call each resource type', () => {
+    expect(parseResourceType('security group')).toBe('securityGroup');
+    expect(parseResourceType('Firewalls')).toBe('securityGroup');
+    expect(parseResourceType('Virtual Machine')).toBe('vm');
+    expect(parseResourceType('EC2 instances')).toBe('vm');
+    expect(parseResourceType('VPC')).toBe('network');
+    expect(parseResourceType('loadBalancer')).toBe('loadBalancer');
+    expect(parseResourceType('buckets')).toBeNull();
+  });
+
+  it('lists fixture resources sorted by name, optionally by region', async () => {
+    const inventory = new ResourceInventory([
+      new FixtureInventoryProvider('gcp', fixtures),
+    ]);
+
+    const listing = await inventory.list('GCP', 'vm');
+    expect(listing).toMatchObject({
+      cloud: 'gcp',
+      type: 'vm',
+      source: 'fixture',
+    });
+    expect(listing.resources.map((r) => [r.name, r.state])).toEqual([
+      ['ci-runner', 'TERMINATED'],
+      ['web-1', 'RUNNING'],
+    ]);
+    expect(listing.resources[0]).toMatchObject({
+      cloud: 'gcp',
+      type: 'vm',
+      tags: { env: 'ci' },
+    });
+
+    const zoned = await inventory.list('gcp', 'vm', {
+      region: 'us-central1-a',
+    });
+    expect(zoned.resources.map((r) => r.name)).toEqual(['web-1']);
+  });
+
+  it('refuses clouds it has no provider for', async () => {
+    const inventory = new ResourceInventory([]);
+    await expect(inventory.list('azure', 'vm')).rejects.toThrow(
+      'No resource inventory is configured for azure',
+    );
+  });
+
+  it('defaults to the fixture inventory and only lists configured clouds', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(
+      createInventoryProviders({}).map((p) => `${p.cloud}:${p.name}`),
+    ).toEqual([
+      'aws:fixture',
+      'azure:fixture',
+      'gcp:fixture',
+      'oracle:fixture',
+    ]);
+
+    expect(
+      createInventoryProviders({
+        INVENTORY_PROVIDER: 'cloud',
+        GCP_PROJECT_ID: 'acme-prod',
+        GCP_ACCESS_TOKEN: 'token',
+      }).map((p) => p.name),
+    ).toEqual(['aws', 'gcp']);
+    expect(() =>
+      createInventoryProviders({
+        INVENTORY_PROVIDER: 'cloud',
+        AZURE_SUBSCRIPTION_ID: 'sub',
+      }),
+    ).toThrow('AZURE_ACCESS_TOKEN or AZURE_TENANT_ID');
+    expect(() =>
+      createInventoryProviders({ INVENTORY_PROVIDER: 'aws' }),
+    ).toThrow('Unknown INVENTORY_PROVIDER "aws"');
+  });
+});
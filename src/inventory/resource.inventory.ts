@@ -0,0 +1,67 @@
+import { ResourceInventoryProvider } from './inventory.provider';
+import {
+  InventoryListing,
+  InventoryQuery,
+  RESOURCE_TYPES,
+  ResourceType,
+} from './types';
+
+// What users (and the LLM) call each resource type
+const TYPE_KEYWORDS: Array<[RegExp, ResourceType]> = [
+  [/security ?groups?|firewalls?|\bnsgs?\b/i, 'securityGroup'],
+  [/load ?balancers?|\belbs?\b|\balbs?\b/i, 'loadBalancer'],
+  [/databases?|\bdbs?\b|\brds\b|\bsql\b/i, 'database'],
+  [/\bvpcs?\b|\bvcns?\b|\bvnets?\b|networks?/i, 'network'],
+  [/virtual ?machines?|\bvms?\b|instances?|servers?|\bec2\b|compute/i, 'vm'],
+];
+
+export function parseResourceType(text?: string | null): ResourceType | null {
+  if (!text) return null;
+  if ((RESOURCE_TYPES as readonly string[]).includes(text)) {
+    return text as ResourceType;
+  }
+  return TYPE_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] || null;
+}
+
+/**
+ * The resource inventory providers, one per cloud. Clouds without a provider
+ * (no credentials configured) are reported as errors rather than as empty
+ * lists, so "you have nothing" is never a guess.
+ */
+export class ResourceInventory {
+  private readonly providers = new Map<string, ResourceInventoryProvider>();
+
+  constructor(providers: ResourceInventoryProvider[]) {
+    providers.forEach((provider) =>
+      this.providers.set(provider.cloud, provider),
+    );
+  }
+
+  get clouds(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  // The provider name for a cloud, e.g. "fixture"; null when none is configured
+  sourceFor(cloud: string): string | null {
+    return this.providers.get(cloud.toLowerCase())?.name || null;
+  }
+
+  async list(
+    cloud: string,
+    type: ResourceType,
+    query: InventoryQuery = {},
+  ): Promise<InventoryListing> {
+    const provider = this.providers.get(cloud.toLowerCase());
+    if (!provider) {
+      throw new Error(`No resource inventory is configured for ${cloud}`);
+    }
+
+    const resources = await provider.list(type, query);
+    return {
+      cloud: provider.cloud,
+      type,
+      source: provider.name,
+      resources: [...resources].sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+}
@@ -0,0 +1,43 @@
+export const RESOURCE_TYPES = [
+  'vm',
+  'database',
+  'loadBalancer',
+  'network',
+  'securityGroup',
+] as const;
+
+export type ResourceType = (typeof RESOURCE_TYPES)[number];
+
+// How each type is called in replies, singular and plural
+export const RESOURCE_LABELS: Record<ResourceType, [string, string]> = {
+  vm: ['virtual machine', 'virtual machines'],
+  database: ['database', 'databases'],
+  loadBalancer: ['load balancer', 'load balancers'],
+  network: ['network', 'networks'],
+  securityGroup: ['security group', 'security groups'],
+};
+
+export interface InventoryResource {
+  id: string;
+  name: string;
+  type: ResourceType;
+  cloud: string;
+  region: string;
+  // As the provider reports it, e.g. running, Succeeded, RUNNABLE, AVAILABLE
+  state: string;
+  tags: Record<string, string>;
+}
+
+export interface InventoryQuery {
+  // Providers fall back to their configured region when none is given
+  region?: string;
+}
+
+// What the agent and the API return for one listing
+export interface InventoryListing {
+  cloud: string;
+  type: ResourceType;
+  // The provider that answered, e.g. "aws" or "fixture"
+  source: string;
+  resources: InventoryResource[];
+}
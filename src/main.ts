@@ -7,7 +7,17 @@ dotenv.config();
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
-  app.enableCors()
+  // Browsers may only call the API from the origins in CORS_ORIGINS (comma-separated)
+  const origins = (process.env.CORS_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  if (origins.length > 0) {
+    app.enableCors({
+      origin: origins,
+      allowedHeaders: ['Authorization', 'Content-Type', 'X-API-Key'],
+    });
+  }
   await app.listen(3001, '0.0.0.0');
 }
 bootstrap();
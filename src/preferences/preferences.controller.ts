@@ -0,0 +1,38 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Put,
+} from '@nestjs/common';
+import { CurrentUser } from '../auth/auth.decorators';
+import { Principal } from '../auth/types';
+import { DisplayPreferences } from '../conversations/timestamps';
+import { PreferencesStore } from './preferences.store';
+
+// The caller's own display preferences
+@Controller('preferences')
+export class PreferencesController {
+  constructor(private readonly preferences: PreferencesStore) {}
+
+  @Get()
+  get(@CurrentUser() user: Principal) {
+    return this.preferences.get(user.userId);
+  }
+
+  // e.g. { "timeZone": "Europe/Berlin", "locale": "de-DE" }
+  @Put()
+  update(
+    @CurrentUser() user: Principal,
+    @Body() body: Partial<DisplayPreferences>,
+  ) {
+    try {
+      return this.preferences.update(user.userId, {
+        timeZone: body?.timeZone,
+        locale: body?.locale,
+      });
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import * as path from 'path';
+import {
+  DEFAULT_DISPLAY_PREFERENCES,
+  PreferencesStore,
+} from './preferences.store';
+import { PreferencesController } from './preferences.controller';
+
+@Module({
+  controllers: [PreferencesController],
+  providers: [
+    {
+      provide: PreferencesStore,
+      useFactory: () =>
+        new PreferencesStore(
+          process.env.PREFERENCES_LOG_PATH ||
+            path.join(process.cwd(), 'data', 'preferences.jsonl'),
+          {
+            timeZone:
+              process.env.DEFAULT_TIMEZONE ||
+              DEFAULT_DISPLAY_PREFERENCES.timeZone,
+            locale:
+              process.env.DEFAULT_LOCALE || DEFAULT_DISPLAY_PREFERENCES.locale,
+          },
+        ),
+    },
+  ],
+  exports: [PreferencesStore],
+})
+export class PreferencesModule {}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DisplayPreferences,
+  assertDisplayPreferences,
+} from '../conversations/timestamps';
+
+export interface UserPreferences extends DisplayPreferences {
+  userId: string;
+  updatedAt?: string;
+}
+
+export const DEFAULT_DISPLAY_PREFERENCES: DisplayPreferences = {
+  timeZone: 'UTC',
+  locale: 'en-US',
+};
+
+/**
+ * Each user's time zone and locale, used to show stored UTC times in their
+ * own terms. Saved as full snapshots in a JSONL log, latest per user wins.
+ * Pass no path to keep them in memory only.
+ */
+export class PreferencesStore {
+  private readonly preferences = new Map<string, UserPreferences>();
+
+  constructor(
+    private readonly filePath?: string,
+    private readonly defaults = DEFAULT_DISPLAY_PREFERENCES,
+  ) {
+    this.replay();
+  }
+
+  // Users who never set anything get the defaults
+  get(userId: string): UserPreferences {
+    return this.preferences.get(userId) || { userId, ...this.defaults };
+  }
+
+  // Throws if the time zone or locale isn't one Intl knows
+  update(
+    userId: string,
+    changes: Partial<DisplayPreferences>,
+  ): UserPreferences {
+    const current = this.get(userId);
+    const next: UserPreferences = {
+      userId,
+      timeZone: changes.timeZone || current.timeZone,
+      locale: changes.locale || current.locale,
+      updatedAt: new Date().toISOString(),
+    };
+    try {
+      assertDisplayPreferences(next);
+    } catch {
+      throw new Error(
+        `Unknown time zone "${next.timeZone}" or locale "${next.locale}"`,
+      );
+    }
+
+    if (this.filePath) {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(next)}\n`, 'utf8');
+    }
+    this.preferences.set(userId, next);
+    return next;
+  }
+
+  private replay() {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const preferences = JSON.parse(line) as UserPreferences;
+        this.preferences.set(preferences.userId, preferences);
+      } catch (e) {
+        console.error(`Skipping unreadable line in ${this.filePath}:`, e);
+      }
+    }
+  }
+}
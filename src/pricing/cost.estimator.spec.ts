@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CostEstimator, formatEstimate } from './cost.estimator';
+import { ServicesData } from '../services/types';
+
+describe('CostEstimator', () => {
+  const estimator = new CostEstimator();
+  const services = (
+    JSON.parse(
+      fs.readFileSync(path.join(process.cwd(), 'services.json'), 'utf8'),
+    ) as ServicesData
+  ).list;
+
+  it('prices every catalog service with its default SKUs', () => {
+    for (const service of services) {
+      expect(estimator.estimate(service)).toMatchObject({
+        cloud: service.cloud,
+        complete: true,
+        warnings: [],
+      });
+    }
+  });
+
+  it('multiplies hourly rates and storage by the form values', () => {
+    const estimate = estimator.estimate(
+      { cloud: 'aws', template: 'database' },
+      { instanceClass: 'db.t3.small', allocatedStorage: '100' },
+    );
+
+    expect(estimate?.lineItems).toEqual([
+      expect.objectContaining({ sku: 'db.t3.small', monthly: 24.82 }),
+      expect.objectContaining({ sku: 'gp2', quantity: 100, monthly: 11.5 }),
+    ]);
+    expect(estimate?.monthly).toBe(36.32);
+    expect(formatEstimate(estimate!)).toBe('$36.32/month (us-east-1)');
+  });
+
+  it('applies region multipliers, overrides and zone lookups', () => {
+    const azure = estimator.estimate(
+      { cloud: 'azure', template: 'virtualmachine' },
+      { location: 'westeurope', vmSize: 'Standard_B2s' },
+    );
+    expect(azure).toMatchObject({ region: 'westeurope', monthly: 34.01 });
+
+    const singapore = estimator.estimate(
+      { cloud: 'aws', template: 'virtualmachine' },
+      { region: 'ap-southeast-1', instanceType: 't3.micro' },
+    );
+    expect(singapore?.monthly).toBe(9.64);
+
+    const gcp = estimator.estimate(
+      { cloud: 'gcp', template: 'virtualmachine' },
+      { zone: 'europe-west1-b' },
+    );
+    expect(gcp?.region).toBe('europe-west1');
+  });
+
+  it('flags SKUs and regions missing from the catalog', () => {
+    const estimate = estimator.estimate(
+      { cloud: 'aws', template: 'virtualmachine' },
+      { region: 'mars-1', instanceType: 'x9.huge' },
+    );
+
+    expect(estimate).toMatchObject({
+      region: 'us-east-1',
+      monthly: 0,
+      complete: false,
+    });
+    expect(estimate?.warnings).toEqual([
+      'No pricing for region mars-1, using us-east-1 rates',
+      'No price for x9.huge (EC2 instance) in aws us-east-1',
+    ]);
+    expect(estimator.estimate({ cloud: 'aws', template: 'queue' })).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServiceConfig } from '../services/types';
+import {
+  CloudPricing,
+  CostEstimate,
+  CostLineItem,
+  PricingCatalog,
+  PricingComponent,
+} from './types';
+
+export const DEFAULT_PRICING_PATH = path.join(process.cwd(), 'pricing.json');
+
+// Form fields that name where a service runs, most specific first
+const REGION_FIELDS = ['region', 'location', 'zone'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Estimates the monthly cost of catalog services from the local pricing
+ * catalog (pricing.json), using the SKUs and quantities in the form data.
+ */
+export class CostEstimator {
+  private readonly catalog: PricingCatalog | null;
+
+  constructor(source: string | PricingCatalog = DEFAULT_PRICING_PATH) {
+    this.catalog =
+      typeof source === 'string' ? CostEstimator.load(source) : source;
+  }
+
+  get currency(): string {
+    return this.catalog?.currency || 'USD';
+  }
+
+  hasPricing(service: Pick<ServiceConfig, 'cloud' | 'template'>): boolean {
+    return this.components(service) !== null;
+  }
+
+  estimate(
+    service: Pick<ServiceConfig, 'cloud' | 'template'>,
+    formData: Record<string, unknown> = {},
+  ): CostEstimate | null {
+    const components = this.components(service);
+    const cloud = this.catalog?.clouds[service.cloud];
+    if (!this.catalog || !components || !cloud) return null;
+
+    const warnings: string[] = [];
+    const region = this.resolveRegion(cloud, formData, warnings);
+    const lineItems = components.map((component) =>
+      this.lineItem(cloud, region, component, formData),
+    );
+
+    for (const item of lineItems) {
+      if (item.unitPrice === null) {
+        warnings.push(
+          `No price for ${item.sku} (${item.name}) in ${service.cloud} ${region}`,
+        );
+      }
+    }
+
+    return {
+      cloud: service.cloud,
+      region,
+      currency: this.catalog.currency,
+      monthly: round(
+        lineItems.reduce((total, item) => total + (item.monthly ?? 0), 0),
+      ),
+      lineItems,
+      complete: lineItems.every((item) => item.monthly !== null),
+      warnings,
+    };
+  }
+
+  private components(
+    service: Pick<ServiceConfig, 'cloud' | 'template'>,
+  ): PricingComponent[] | null {
+    const key = `${service.cloud?.toLowerCase()}/${service.template?.toLowerCase()}`;
+    return this.catalog?.services[key] || null;
+  }
+
+  private resolveRegion(
+    cloud: CloudPricing,
+    formData: Record<string, unknown>,
+    warnings: string[],
+  ): string {
+    for (const field of REGION_FIELDS) {
+      const value = formData[field];
+      if (typeof value !== 'string' || !value.trim()) continue;
+
+      // Zones such as us-central1-a are priced as their region
+      const candidates = [value.trim(), value.trim().replace(/-[a-z]$/, '')];
+      const region = candidates.find((candidate) => cloud.regions[candidate]);
+      if (region) return region;
+
+      warnings.push(
+        `No pricing for region ${value}, using ${cloud.defaultRegion} rates`,
+      );
+      break;
+    }
+    return cloud.defaultRegion;
+  }
+
+  private lineItem(
+    cloud: CloudPricing,
+    region: string,
+    component: PricingComponent,
+    formData: Record<string, unknown>,
+  ): CostLineItem {
+    const fieldSku = component.skuField
+      ? formData[component.skuField]
+      : undefined;
+    const sku =
+      (typeof fieldSku === 'string' && fieldSku.trim()) ||
+      component.sku ||
+      component.defaultSku ||
+      '';
+
+    const fieldQuantity = component.quantityField
+      ? Number(formData[component.quantityField])
+      : NaN;
+    const quantity =
+      Number.isFinite(fieldQuantity) && fieldQuantity > 0
+        ? fieldQuantity
+        : component.defaultQuantity || 1;
+
+    const unitPrice = this.rate(cloud, region, component.category, sku);
+    const perMonth =
+      component.unit === 'hour' ? (this.catalog?.hoursPerMonth ?? 730) : 1;
+
+    return {
+      name: component.name,
+      category: component.category,
+      sku,
+      quantity,
+      unit: component.unit,
+      unitPrice,
+      monthly:
+        unitPrice === null ? null : round(unitPrice * quantity * perMonth),
+    };
+  }
+
+  private rate(
+    cloud: CloudPricing,
+    region: string,
+    category: string,
+    sku: string,
+  ): number | null {
+    const regional = cloud.regions[region];
+    const override = regional?.rates?.[category]?.[sku];
+    if (override !== undefined) return override;
+
+    const base = cloud.rates[category]?.[sku];
+    return base === undefined ? null : base * (regional?.multiplier ?? 1);
+  }
+
+  private static load(filePath: string): PricingCatalog | null {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as PricingCatalog;
+    } catch (error) {
+      console.error(`Error loading pricing catalog ${filePath}:`, error);
+      return null;
+    }
+  }
+}
+
+// A one-line summary such as "$7.59/month (us-east-1)"
+export function formatEstimate(estimate: CostEstimate): string {
+  const amount = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: estimate.currency,
+  }).format(estimate.monthly);
+  return `${amount}/month (${estimate.region})${estimate.complete ? '' : ' + unpriced items'}`;
+}
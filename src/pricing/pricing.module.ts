@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CostEstimator } from './cost.estimator';
+
+@Module({
+  providers: [
+    {
+      provide: CostEstimator,
+      useFactory: () =>
+        new CostEstimator(process.env.PRICING_PATH || undefined),
+    },
+  ],
+  exports: [CostEstimator],
+})
+export class PricingModule {}
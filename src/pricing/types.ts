@@ -0,0 +1,59 @@
+export type PriceUnit = 'hour' | 'month' | 'gb-month';
+
+export interface PricingRegion {
+  name: string;
+  // Applied to the cloud's base rates unless the region overrides the SKU
+  multiplier?: number;
+  rates?: Record<string, Record<string, number>>;
+}
+
+export interface CloudPricing {
+  defaultRegion: string;
+  regions: Record<string, PricingRegion>;
+  // category -> SKU -> price per unit in the default region
+  rates: Record<string, Record<string, number>>;
+}
+
+// One billable part of a catalog service
+export interface PricingComponent {
+  name: string;
+  category: string;
+  // Either a fixed SKU or the form field that holds it
+  sku?: string;
+  skuField?: string;
+  defaultSku?: string;
+  // Form field with the billed quantity, e.g. storage GB
+  quantityField?: string;
+  defaultQuantity?: number;
+  unit: PriceUnit;
+}
+
+export interface PricingCatalog {
+  currency: string;
+  hoursPerMonth: number;
+  note?: string;
+  clouds: Record<string, CloudPricing>;
+  // Keyed by `${cloud}/${ServiceConfig.template}`
+  services: Record<string, PricingComponent[]>;
+}
+
+export interface CostLineItem {
+  name: string;
+  category: string;
+  sku: string;
+  quantity: number;
+  unit: PriceUnit;
+  unitPrice: number | null;
+  monthly: number | null;
+}
+
+export interface CostEstimate {
+  cloud: string;
+  region: string;
+  currency: string;
+  monthly: number;
+  lineItems: CostLineItem[];
+  // False when some line item has no price in the catalog
+  complete: boolean;
+  warnings: string[];
+}
@@ -1,14 +0,0 @@
-export interface CloudResourceField {
-  type: 'input';
-  fieldId: string;
-  fieldName: string;
-  fieldValue: string;
-  fieldTypeValue: string;
-}
-
-export interface CloudResourceSchema {
-  name: string;
-  description: string;
-  cloud: 'aws' | 'azure' | 'gcp';
-  requiredFields: CloudResourceField[];
-} 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import {
+  applyFieldChanges,
+  diffFormData,
+  mutableFields,
+} from './field-changes';
+import { ServiceField } from './types';
+
+describe('field changes', () => {
+  const field = (
+    fieldId: string,
+    fieldTypeValue: string,
+    mutable?: boolean,
+  ): ServiceField => ({
+    type: 'input',
+    fieldId,
+    fieldName: fieldId,
+    fieldValue: '',
+    fieldTypeValue,
+    dependent: false,
+    dependentON: '',
+    dependentFOR: '',
+    mutable,
+  });
+  const fields = [
+    field('instanceName', 'String'),
+    field('instanceType', 'String', true),
+    field('securityGroups', 'List', true),
+  ];
+  const current = {
+    instanceName: 'web-01',
+    instanceType: 't3.micro',
+    securityGroups: 'sg-1,sg-2',
+  };
+
+  it('only lets CONFIGURE touch mutable fields', () => {
+    expect(mutableFields(fields).map((f) => f.fieldId)).toEqual([
+      'instanceType',
+      'securityGroups',
+    ]);
+  });
+
+  it('adds to, removes from or replaces list values', () => {
+    const requested = { securityGroups: 'sg-2,sg-3' };
+
+    expect(
+      applyFieldChanges(fields, current, requested, 'add').securityGroups,
+    ).toBe('sg-1,sg-2,sg-3');
+    expect(
+      applyFieldChanges(fields, current, requested, 'remove').securityGroups,
+    ).toBe('sg-1');
+    expect(applyFieldChanges(fields, current, requested).securityGroups).toBe(
+      'sg-2,sg-3',
+    );
+  });
+
+  it('reports the fields whose value changed', () => {
+    const next = applyFieldChanges(fields, current, {
+      instanceType: 't3.small',
+      securityGroups: 'sg-1, sg-2',
+    });
+
+    expect(diffFormData(fields, current, next)).toEqual([
+      {
+        fieldId: 'instanceType',
+        fieldName: 'instanceType',
+        from: 't3.micro',
+        to: 't3.small',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { isEmpty, toList } from './field-validator';
+import { FieldChange, ServiceField } from './types';
+
+// How requested List values combine with the ones already set
+export type ListChangeMode = 'add' | 'remove' | 'replace';
+
+// Lists compare item by item, so "sg-1, sg-2" and ["sg-1", "sg-2"] are equal
+const display = (field: ServiceField, value: unknown) =>
+  isEmpty(value)
+    ? undefined
+    : field.fieldTypeValue === 'List' || Array.isArray(value)
+      ? toList(value).join(',')
+      : String(value);
+
+// The fields CONFIGURE may change on a live deployment
+export function mutableFields(fields: ServiceField[]): ServiceField[] {
+  return fields.filter((field) => field.mutable);
+}
+
+/**
+ * Merges requested values into the current form data. List fields can gain
+ * or lose items ("add sg-123") instead of being replaced outright; every
+ * other field takes the requested value.
+ */
+export function applyFieldChanges(
+  fields: ServiceField[],
+  current: Record<string, string>,
+  requested: Record<string, string>,
+  listMode: ListChangeMode = 'replace',
+): Record<string, string> {
+  const next = { ...current };
+  for (const [fieldId, value] of Object.entries(requested)) {
+    const field = fields.find((f) => f.fieldId === fieldId);
+    if (!field) continue;
+
+    if (field.fieldTypeValue === 'List' && listMode !== 'replace') {
+      const existing = toList(current[fieldId] ?? '');
+      const items = toList(value);
+      next[fieldId] = (
+        listMode === 'add'
+          ? [...new Set([...existing, ...items])]
+          : existing.filter((item) => !items.includes(item))
+      ).join(',');
+    } else {
+      next[fieldId] = value;
+    }
+  }
+  return next;
+}
+
+// The fields whose value differs between two versions of the form data
+export function diffFormData(
+  fields: ServiceField[],
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): FieldChange[] {
+  return fields.flatMap((field) => {
+    const from = display(field, before[field.fieldId]);
+    const to = display(field, after[field.fieldId]);
+    return from === to
+      ? []
+      : [{ fieldId: field.fieldId, fieldName: field.fieldName, from, to }];
+  });
+}
@@ -0,0 +1,92 @@
+import { orderFields, resolveFields } from './field-dependency.resolver';
+import { ServiceField } from './types';
+
+const field = (
+  fieldId: string,
+  overrides: Partial<ServiceField> = {},
+): ServiceField => ({
+  type: 'input',
+  fieldId,
+  fieldName: fieldId,
+  fieldValue: '',
+  fieldTypeValue: 'String',
+  dependent: false,
+  dependentON: '',
+  dependentFOR: '',
+  ...overrides,
+});
+
+describe('field dependency resolver', () => {
+  const fields = [
+    field('vmSize', { dependent: true, dependentON: 'location' }),
+    field('location', {
+      dependent: true,
+      dependentON: 'resourceGroup',
+      validation: { options: ['eastus', 'westeurope'] },
+      dependency: {
+        options: [
+          {
+            when: [{ fieldId: 'resourceGroup', matches: '-eu-' }],
+            values: ['westeurope'],
+          },
+        ],
+      },
+    }),
+    field('resourceGroup', { dependentFOR: 'location' }),
+    field('tags', {
+      dependency: {
+        requiredWhen: [{ fieldId: 'resourceGroup', equals: 'rg-prod-eu-1' }],
+      },
+    }),
+  ];
+
+  it('orders fields after the fields they depend on', () => {
+    expect(orderFields(fields).map((f) => f.fieldId)).toEqual([
+      'resourceGroup',
+      'location',
+      'vmSize',
+      'tags',
+    ]);
+  });
+
+  it('rejects circular dependencies', () => {
+    expect(() =>
+      orderFields([
+        field('a', { dependent: true, dependentON: 'b' }),
+        field('b', { dependent: true, dependentON: 'a' }),
+      ]),
+    ).toThrow('Circular field dependency between: a, b');
+  });
+
+  it('enables dependent fields only once their parents are filled', () => {
+    const empty = resolveFields(fields);
+    expect(empty.nextFields.map((f) => f.fieldId)).toEqual([
+      'resourceGroup',
+      'tags',
+    ]);
+    expect(empty.fields.find((f) => f.fieldId === 'location')?.enabled).toBe(
+      false,
+    );
+
+    const partial = resolveFields(fields, { resourceGroup: 'rg-dev-us-1' });
+    expect(partial.nextFields.map((f) => f.fieldId)).toEqual([
+      'location',
+      'tags',
+    ]);
+    expect(partial.missing).toEqual(['location']);
+  });
+
+  it('narrows allowed values and requirements from other values', () => {
+    const resolution = resolveFields(fields, {
+      resourceGroup: 'rg-prod-eu-1',
+      location: 'eastus',
+      vmSize: 'Standard_B2s',
+    });
+
+    const location = resolution.fields.find((f) => f.fieldId === 'location');
+    expect(location?.allowedValues).toEqual(['westeurope']);
+    expect(resolution.invalid.map((e) => e.fieldId)).toEqual(['location']);
+    expect(resolution.missing).toEqual(['tags']);
+    expect(resolution.complete).toBe(false);
+  });
+});
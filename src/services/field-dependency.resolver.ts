@@ -0,0 +1,155 @@
+import {
+  FieldCondition,
+  FieldResolution,
+  FieldValidationError,
+  ResolvedField,
+  ServiceField,
+} from './types';
+import { isEmpty } from './field-validator';
+
+const splitIds = (ids: string) =>
+  ids
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+const hasValue = (value: unknown) => !isEmpty(value);
+
+// Ids of the fields this field depends on, from either side of the relationship
+function parentsOf(field: ServiceField, fields: ServiceField[]): string[] {
+  const parents = new Set(field.dependent ? splitIds(field.dependentON) : []);
+  for (const other of fields) {
+    if (splitIds(other.dependentFOR || '').includes(field.fieldId)) {
+      parents.add(other.fieldId);
+    }
+  }
+  parents.delete(field.fieldId);
+  return [...parents].filter((id) => fields.some((f) => f.fieldId === id));
+}
+
+/**
+ * Orders fields so every field comes after the fields it depends on, keeping
+ * the catalog order otherwise. Throws if the dependencies form a cycle.
+ */
+export function orderFields<T extends ServiceField>(fields: T[]): T[] {
+  const ordered: T[] = [];
+  const placed = new Set<string>();
+  const remaining = [...fields];
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((field) =>
+      parentsOf(field, fields).every((id) => placed.has(id)),
+    );
+    if (index === -1) {
+      const ids = remaining.map((f) => f.fieldId).join(', ');
+      throw new Error(`Circular field dependency between: ${ids}`);
+    }
+    const [field] = remaining.splice(index, 1);
+    ordered.push(field);
+    placed.add(field.fieldId);
+  }
+  return ordered;
+}
+
+function conditionHolds(
+  condition: FieldCondition,
+  formData: Record<string, unknown>,
+): boolean {
+  const value = formData[condition.fieldId];
+  if (!hasValue(value)) return false;
+
+  const text = String(value).trim();
+  if (condition.equals !== undefined && text !== condition.equals) return false;
+  if (condition.in && !condition.in.includes(text)) return false;
+  if (condition.matches && !new RegExp(condition.matches).test(text)) {
+    return false;
+  }
+  return true;
+}
+
+const allHold = (
+  conditions: FieldCondition[],
+  formData: Record<string, unknown>,
+) => conditions.every((condition) => conditionHolds(condition, formData));
+
+/**
+ * Works out which fields are enabled and required, and which values they
+ * accept, given the values the user has filled in so far.
+ */
+export function resolveFields(
+  fields: ServiceField[],
+  formData: Record<string, unknown> = {},
+): FieldResolution {
+  const resolved: ResolvedField[] = orderFields(fields).map((field) => {
+    const parents = parentsOf(field, fields);
+    const dependency = field.dependency || {};
+    const enabled = allHold(
+      dependency.enabledWhen || parents.map((fieldId) => ({ fieldId })),
+      formData,
+    );
+    const required =
+      enabled &&
+      (dependency.requiredWhen
+        ? allHold(dependency.requiredWhen, formData)
+        : field.validation?.required !== false);
+    const allowedValues =
+      dependency.options?.find((rule) => allHold(rule.when, formData))
+        ?.values || field.validation?.options;
+
+    return {
+      ...field,
+      enabled,
+      required,
+      ...(allowedValues ? { allowedValues } : {}),
+      ...(hasValue(formData[field.fieldId])
+        ? { value: formData[field.fieldId] }
+        : {}),
+    };
+  });
+
+  const filled = (field: ResolvedField) => hasValue(field.value);
+  const invalid: FieldValidationError[] = resolved
+    .filter(
+      (field) =>
+        field.enabled &&
+        filled(field) &&
+        field.allowedValues &&
+        !field.allowedValues.includes(String(field.value).trim()),
+    )
+    .map((field) => ({
+      fieldId: field.fieldId,
+      fieldName: field.fieldName,
+      message: `${field.fieldName} must be one of ${field.allowedValues!.join(', ')}`,
+    }));
+  const missing = resolved
+    .filter((field) => field.required && !filled(field))
+    .map((field) => field.fieldId);
+
+  return {
+    fields: resolved,
+    nextFields: resolved.filter(
+      (field) =>
+        field.enabled &&
+        !filled(field) &&
+        parentsOf(field, fields).every((id) => hasValue(formData[id])),
+    ),
+    missing,
+    invalid,
+    complete: missing.length === 0 && invalid.length === 0,
+  };
+}
+
+// Fields to validate once dependencies are applied: disabled fields are
+// skipped and required/options follow the resolved state
+export function toValidatableFields(resolution: FieldResolution) {
+  return resolution.fields
+    .filter((field) => field.enabled)
+    .map((field) => ({
+      ...field,
+      validation: {
+        ...field.validation,
+        required: field.required,
+        options: field.allowedValues,
+      },
+    }));
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractFieldValues, isValidFieldValue } from './field-extractor';
+import { ServicesData } from './types';
+
+describe('extractFieldValues', () => {
+  const services = (
+    JSON.parse(
+      fs.readFileSync(path.join(process.cwd(), 'services.json'), 'utf8'),
+    ) as ServicesData
+  ).list;
+  const fieldsOf = (id: string) =>
+    services.find((service) => service.id === id)!.requiredFields;
+
+  it('picks named values and recognisable formats out of a sentence', () => {
+    expect(
+      extractFieldValues(
+        fieldsOf('virtual-machine-aws'),
+        'deploy a t3.medium VM called web-01 on aws with key prod-key',
+      ),
+    ).toEqual({
+      instanceName: 'web-01',
+      instanceType: 't3.medium',
+      keyName: 'prod-key',
+    });
+  });
+
+  it('matches option values and numbers placed before their cue', () => {
+    expect(
+      extractFieldValues(
+        fieldsOf('database-aws'),
+        'I need a postgres database with 100 GB storage',
+      ),
+    ).toMatchObject({ dbEngine: 'postgres', allocatedStorage: '100' });
+  });
+
+  it('does not take prepositions or cloud names for values', () => {
+    expect(
+      extractFieldValues(
+        fieldsOf('load-balancer-aws'),
+        'a load balancer on aws',
+      ),
+    ).toEqual({});
+  });
+
+  it('reads a bare reply as the answer to the pending field', () => {
+    expect(
+      extractFieldValues(
+        fieldsOf('virtual-machine-aws'),
+        "it's ops-key",
+        'keyName',
+      ),
+    ).toEqual({ keyName: 'ops-key' });
+    expect(
+      extractFieldValues(
+        fieldsOf('virtual-machine-aws'),
+        'what is a key pair?',
+        'keyName',
+      ),
+    ).toEqual({});
+  });
+
+  it('validates values against the field rules', () => {
+    const [, amiId] = fieldsOf('virtual-machine-aws');
+    expect(isValidFieldValue(amiId, 'ami-0c55b159cbfafe1f0')).toBe(true);
+    expect(isValidFieldValue(amiId, 'ubuntu')).toBe(false);
+  });
+});
@@ -0,0 +1,252 @@
+import { ServiceField } from './types';
+import { validateFormData } from './field-validator';
+
+// Words that sit between a cue and its value: "key is prod-key", "called web-01"
+const FILLERS = new Set([
+  'is',
+  'be',
+  'to',
+  'of',
+  'as',
+  'a',
+  'an',
+  'the',
+  'should',
+  'will',
+  'called',
+  'named',
+  '=',
+  ':',
+]);
+
+// Words that end a cue without giving it a value: "a load balancer on aws"
+const STOPWORDS = new Set([
+  'on',
+  'in',
+  'at',
+  'with',
+  'for',
+  'from',
+  'across',
+  'using',
+  'via',
+  'please',
+  'aws',
+  'azure',
+  'gcp',
+  'oracle',
+]);
+
+// Words that say nothing about which field a cue belongs to
+const GENERIC_WORDS = new Set(['name', 'id', 'type', 'the', 'of']);
+
+// A pattern matching none of these is specific enough to pick values out of
+// free text on its own (ami-..., t3.medium, Standard_B2s, ocid1...)
+const ORDINARY_WORDS = ['deploy', 'web-01', 'Prod', 'hello', 'us', '42'];
+
+// Answers to a direct question often come wrapped: "let's use web-01"
+const ANSWER_PREFIX =
+  /^(?:(?:it'?s|it is|use|let'?s use|make it|call it|set it to|go with|how about|the)\s+)+/i;
+
+interface Candidate {
+  fieldId: string;
+  value: string;
+  // Tokens holding the value; they must not belong to another match
+  valueTokens: number[];
+  // Tokens the match uses up, cue words included
+  span: number[];
+  // Longer cues are more specific and win over shorter ones
+  weight: number;
+}
+
+/**
+ * Picks values for a service's fields out of free text, e.g. "a t3.medium VM
+ * called web-01 with key prod-key". Values are only accepted when they pass
+ * the field's validation rules. `pendingFieldId` is the field the user was just
+ * asked about, so a bare answer like "web-01" is assigned to it. Questions
+ * ("what is a key pair?") never set anything.
+ */
+export function extractFieldValues(
+  fields: ServiceField[],
+  text: string,
+  pendingFieldId?: string,
+): Record<string, string> {
+  if (/^\s*(what|which|why|how|who|where|when)\b.*\?\s*$/i.test(text)) {
+    return {};
+  }
+  const tokens = tokenize(text);
+  const lowered = tokens.map((token) => token.toLowerCase());
+  const nameIndex = primaryNameIndex(fields);
+  const candidates: Candidate[] = [];
+
+  fields.forEach((field, index) => {
+    for (const cue of cuesFor(field, index === nameIndex)) {
+      const words = cue.split(' ');
+      for (let i = 0; i + words.length <= tokens.length; i++) {
+        if (words.some((word, offset) => lowered[i + offset] !== word)) {
+          continue;
+        }
+        const end = i + words.length;
+        let at = end;
+        while (at < tokens.length && FILLERS.has(lowered[at])) at++;
+        if (at < tokens.length && !STOPWORDS.has(lowered[at])) {
+          candidates.push({
+            fieldId: field.fieldId,
+            value: tokens[at],
+            valueTokens: [at],
+            span: range(i, at + 1),
+            weight: 10 + words.length,
+          });
+        }
+
+        // "100 GB of storage": numbers may also come just before the cue
+        if (field.fieldTypeValue === 'Number') {
+          for (let before = i - 1; before >= Math.max(0, i - 3); before--) {
+            if (/^\d+(\.\d+)?$/.test(tokens[before])) {
+              candidates.push({
+                fieldId: field.fieldId,
+                value: tokens[before],
+                valueTokens: [before],
+                span: range(before, end),
+                weight: 10 + words.length,
+              });
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    // Values recognisable on their own: listed options and distinctive formats
+    const options = optionsFor(field);
+    const pattern = options.length ? null : distinctivePattern(field);
+    const matches: number[] = [];
+    const found: string[] = [];
+    tokens.forEach((token, i) => {
+      const option = options.find(
+        (value) => value.toLowerCase() === token.toLowerCase(),
+      );
+      if (option || pattern?.test(token)) {
+        matches.push(i);
+        found.push(option || token);
+      }
+    });
+    if (matches.length > 0) {
+      candidates.push({
+        fieldId: field.fieldId,
+        value: field.fieldTypeValue === 'List' ? found.join(', ') : found[0],
+        valueTokens: field.fieldTypeValue === 'List' ? matches : [matches[0]],
+        span: field.fieldTypeValue === 'List' ? matches : [matches[0]],
+        weight: 5,
+      });
+    }
+  });
+
+  const values: Record<string, string> = {};
+  const claimed = new Set<number>();
+  candidates.sort((a, b) => b.weight - a.weight);
+  for (const candidate of candidates) {
+    const field = fields.find((f) => f.fieldId === candidate.fieldId);
+    if (
+      !field ||
+      values[candidate.fieldId] !== undefined ||
+      candidate.valueTokens.some((i) => claimed.has(i)) ||
+      !isValidFieldValue(field, candidate.value)
+    ) {
+      continue;
+    }
+    values[candidate.fieldId] = candidate.value;
+    candidate.span.forEach((i) => claimed.add(i));
+  }
+
+  const pending = fields.find((field) => field.fieldId === pendingFieldId);
+  if (pending && values[pending.fieldId] === undefined) {
+    const answer = answerFor(pending, text);
+    if (answer !== null) values[pending.fieldId] = answer;
+  }
+
+  return values;
+}
+
+// Reads a direct reply to "What should the <field> be?"
+function answerFor(field: ServiceField, text: string): string | null {
+  // A question back is not an answer
+  if (text.trim().endsWith('?')) return null;
+
+  let answer = text
+    .trim()
+    .replace(ANSWER_PREFIX, '')
+    .replace(/[.!]+$/, '')
+    .trim();
+  if (field.fieldTypeValue === 'Number') {
+    answer = answer.replace(/\s*(gb|gib)$/i, '');
+  }
+
+  // Free-form text is only taken whole for fields without a strict format
+  const singleWord = !/\s/.test(answer);
+  const freeForm =
+    field.fieldTypeValue !== 'String' || !field.validation?.pattern;
+  return answer && (singleWord || freeForm) && isValidFieldValue(field, answer)
+    ? answer
+    : null;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .split(/[\s,;]+|\band\b/i)
+    .map((token) => token.replace(/^["'(]+|["').!?]+$/g, ''))
+    .filter(Boolean);
+}
+
+// The service's own name field answers to "called X" / "named X"
+function primaryNameIndex(fields: ServiceField[]): number {
+  return fields.findIndex(
+    (field) =>
+      field.fieldTypeValue === 'String' &&
+      /(name|identifier)$/i.test(field.fieldId) &&
+      !/key|group|domain/i.test(field.fieldId),
+  );
+}
+
+function cuesFor(field: ServiceField, isPrimaryName: boolean): string[] {
+  const words = field.fieldName.toLowerCase().split(/\s+/);
+  const specific = words.filter((word) => !GENERIC_WORDS.has(word));
+  const cues = new Set([words.join(' ')]);
+  if (specific.length > 0) cues.add(specific.join(' '));
+  // The head noun alone: "storage" for "Allocated Storage"
+  if (specific.length > 1) cues.add(specific[specific.length - 1]);
+  if (isPrimaryName) {
+    cues.add('called');
+    cues.add('named');
+  }
+  return [...cues];
+}
+
+function optionsFor(field: ServiceField): string[] {
+  const values = new Set(field.validation?.options || []);
+  field.dependency?.options?.forEach((rule) =>
+    rule.values.forEach((value) => values.add(value)),
+  );
+  return [...values];
+}
+
+function distinctivePattern(field: ServiceField): RegExp | null {
+  const source = field.validation?.pattern;
+  if (!source) return null;
+  const pattern = new RegExp(source);
+  return ORDINARY_WORDS.some((word) => pattern.test(word)) ? null : pattern;
+}
+
+// True when the value satisfies the field's own rules (emptiness aside)
+export function isValidFieldValue(field: ServiceField, value: string): boolean {
+  return (
+    validateFormData(
+      [{ ...field, validation: { ...field.validation, required: false } }],
+      { [field.fieldId]: value },
+    ).length === 0
+  );
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from }, (_, i) => from + i);
+}
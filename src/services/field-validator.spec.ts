@@ -0,0 +1,82 @@
+import { validateFormData } from './field-validator';
+
+describe('validateFormData', () => {
+  const fields = [
+    {
+      fieldId: 'dbEngine',
+      fieldName: 'DB Engine',
+      fieldTypeValue: 'String',
+      validation: { required: true, options: ['mysql', 'postgres'] },
+    },
+    {
+      fieldId: 'allocatedStorage',
+      fieldName: 'Allocated Storage',
+      fieldTypeValue: 'Number',
+      validation: { required: true, min: 20, max: 65536 },
+    },
+    {
+      fieldId: 'subnets',
+      fieldName: 'Subnets',
+      fieldTypeValue: 'List',
+      validation: { itemType: 'String' as const, pattern: '^subnet-', min: 2 },
+    },
+    {
+      fieldId: 'description',
+      fieldName: 'Description',
+      fieldTypeValue: 'String',
+      validation: { required: false, max: 10 },
+    },
+  ];
+
+  it('accepts valid form data', () => {
+    expect(
+      validateFormData(fields, {
+        dbEngine: 'postgres',
+        allocatedStorage: '100',
+        subnets: 'subnet-1, subnet-2',
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports every failing field', () => {
+    const errors = validateFormData(fields, {
+      dbEngine: 'oracle',
+      allocatedStorage: '5',
+      subnets: ['subnet-1', 'vpc-2'],
+      description: 'far too long text',
+    });
+
+    expect(errors).toEqual([
+      {
+        fieldId: 'dbEngine',
+        fieldName: 'DB Engine',
+        message: 'DB Engine must be one of mysql, postgres ("oracle" is not)',
+      },
+      {
+        fieldId: 'allocatedStorage',
+        fieldName: 'Allocated Storage',
+        message: 'Allocated Storage must be at least 20',
+      },
+      {
+        fieldId: 'subnets',
+        fieldName: 'Subnets',
+        message: 'Subnets has an invalid format ("vpc-2")',
+      },
+      {
+        fieldId: 'description',
+        fieldName: 'Description',
+        message: 'Description must be at most 10 characters',
+      },
+    ]);
+  });
+
+  it('treats fields as required unless marked optional', () => {
+    const errors = validateFormData(fields, { allocatedStorage: 'lots' });
+
+    expect(errors.map((e) => e.message)).toEqual([
+      'DB Engine is required',
+      'Allocated Storage must be a number',
+      'Subnets is required',
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { FieldValidation, FieldValidationError, ServiceField } from './types';
+
+type ValidatableField = Pick<
+  ServiceField,
+  'fieldId' | 'fieldName' | 'fieldTypeValue' | 'validation'
+>;
+
+/**
+ * Checks submitted form data against the validation rules declared on each of
+ * a service's required fields. Fields are required unless their rules say
+ * otherwise. Returns one entry per failing field; an empty list means valid.
+ */
+export function validateFormData(
+  fields: ValidatableField[],
+  formData: Record<string, unknown>,
+): FieldValidationError[] {
+  const errors: FieldValidationError[] = [];
+
+  for (const field of fields) {
+    const message = validateField(field, formData?.[field.fieldId]);
+    if (message) {
+      errors.push({
+        fieldId: field.fieldId,
+        fieldName: field.fieldName,
+        message,
+      });
+    }
+  }
+  return errors;
+}
+
+// Lists arrive either as arrays or as comma separated strings from form inputs
+export function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+export function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function validateField(field: ValidatableField, value: unknown): string | null {
+  const rules = field.validation || {};
+
+  if (isEmpty(value)) {
+    return rules.required === false ? null : `${field.fieldName} is required`;
+  }
+
+  switch (field.fieldTypeValue.toLowerCase()) {
+    case 'number':
+      return validateNumber(field.fieldName, value, rules);
+    case 'list':
+      return validateList(field.fieldName, value, rules);
+    default:
+      return validateString(field.fieldName, value, rules);
+  }
+}
+
+function validateNumber(
+  name: string,
+  value: unknown,
+  { min, max }: FieldValidation,
+): string | null {
+  const number = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(number)) {
+    return `${name} must be a number`;
+  }
+  if (min !== undefined && number < min) {
+    return `${name} must be at least ${min}`;
+  }
+  if (max !== undefined && number > max) {
+    return `${name} must be at most ${max}`;
+  }
+  return null;
+}
+
+function validateString(
+  name: string,
+  value: unknown,
+  { min, max, pattern, options }: FieldValidation,
+): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return `${name} must be text`;
+  }
+  const text = String(value).trim();
+  if (min !== undefined && text.length < min) {
+    return `${name} must be at least ${min} characters`;
+  }
+  if (max !== undefined && text.length > max) {
+    return `${name} must be at most ${max} characters`;
+  }
+  return checkItem(name, text, pattern, options);
+}
+
+function validateList(
+  name: string,
+  value: unknown,
+  { min, max, pattern, options, itemType }: FieldValidation,
+): string | null {
+  const items = toList(value);
+  if (min !== undefined && items.length < min) {
+    return `${name} must contain at least ${min} item${min === 1 ? '' : 's'}`;
+  }
+  if (max !== undefined && items.length > max) {
+    return `${name} must contain at most ${max} item${max === 1 ? '' : 's'}`;
+  }
+
+  for (const item of items) {
+    if (itemType === 'Number' && !Number.isFinite(Number(item))) {
+      return `${name} must only contain numbers ("${item}" is not)`;
+    }
+    const message = checkItem(name, item, pattern, options);
+    if (message) return message;
+  }
+  return null;
+}
+
+function checkItem(
+  name: string,
+  item: string,
+  pattern?: string,
+  options?: string[],
+): string | null {
+  if (options?.length && !options.includes(item)) {
+    return `${name} must be one of ${options.join(', ')} ("${item}" is not)`;
+  }
+  if (pattern && !new RegExp(pattern).test(item)) {
+    return `${name} has an invalid format ("${item}")`;
+  }
+  return null;
+}
@@ -0,0 +1,53 @@
+import { nameSimilarity, resolveService } from './service.resolver';
+import { ServiceCatalog } from '../catalog/service.catalog';
+
+describe('resolveService', () => {
+  const services = new ServiceCatalog().getAll();
+  const resolve = (query: string, cloud?: string) =>
+    resolveService(services, query, cloud).match?.id;
+
+  it('finds services by provider-native names and aliases', () => {
+    expect(resolve('EC2', 'aws')).toBe('virtual-machine-aws');
+    expect(resolve('RDS', 'aws')).toBe('database-aws');
+    expect(resolve('ELB', 'aws')).toBe('load-balancer-aws');
+    expect(resolve('Compute Engine', 'gcp')).toBe('virtual-machine-gcp');
+    expect(resolve('Cloud SQL', 'gcp')).toBe('database-gcp');
+    expect(resolve('Azure SQL', 'azure')).toBe('database-azure');
+  });
+
+  it('tolerates partial names and typos', () => {
+    expect(resolve('machine', 'aws')).toBe('virtual-machine-aws');
+    expect(resolve('databse', 'azure')).toBe('database-azure');
+    expect(resolve('load balancr', 'oracle')).toBe('load-balancer-oracle');
+  });
+
+  it('only looks at the requested cloud', () => {
+    expect(resolve('Compute Engine', 'aws')).toBeUndefined();
+    expect(resolve('Compute Engine')).toBe('virtual-machine-gcp');
+  });
+
+  it('reports close calls instead of guessing', () => {
+    const resolution = resolveService(services, 'database server', 'aws');
+    expect(resolution.match).toBeNull();
+    expect(resolution.ambiguous).toBe(true);
+    expect(resolution.contenders.map((c) => c.service.id).sort()).toEqual([
+      'database-aws',
+      'virtual-machine-aws',
+    ]);
+  });
+
+  it('finds nothing for services the catalog does not offer', () => {
+    const resolution = resolveService(services, 'kubernetes', 'aws');
+    expect(resolution).toMatchObject({
+      match: null,
+      candidates: [],
+      ambiguous: false,
+    });
+  });
+
+  it('scores word overlap and edit distance', () => {
+    expect(nameSimilarity('vm', 'vm')).toBe(1);
+    expect(nameSimilarity('machine', 'virtual machine')).toBeCloseTo(2 / 3);
+    expect(nameSimilarity('kubernetes', 'vpc')).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,122 @@
+import { ServiceConfig } from './types';
+
+// Best score a name needs to count as a match at all
+export const MATCH_THRESHOLD = 0.5;
+// Candidates this close to the best score make the query ambiguous
+export const AMBIGUITY_MARGIN = 0.1;
+
+export interface ServiceCandidate {
+  service: ServiceConfig;
+  score: number;
+  // The catalog name, native name or alias that scored best
+  matchedName: string;
+}
+
+export interface ServiceResolution {
+  // Set only when one service clearly wins
+  match: ServiceConfig | null;
+  // Every service scoring at least MATCH_THRESHOLD, best first
+  candidates: ServiceCandidate[];
+  // The candidates within AMBIGUITY_MARGIN of the best one
+  contenders: ServiceCandidate[];
+  ambiguous: boolean;
+}
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const tokensOf = (text: string) => text.split(' ').filter(Boolean);
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Longer words may carry a typo or two: "databse", "balancr"
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const shortest = Math.min(a.length, b.length);
+  const allowed = shortest >= 8 ? 2 : shortest >= 4 ? 1 : 0;
+  return allowed > 0 && levenshtein(a, b) <= allowed;
+}
+
+/**
+ * Similarity of two normalised names between 0 and 1: the better of the
+ * share of matching words (Dice coefficient) and the edit distance over the
+ * whole string.
+ */
+export function nameSimilarity(query: string, name: string): number {
+  if (query === name) return 1;
+  const queryTokens = tokensOf(query);
+  const nameTokens = tokensOf(name);
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+
+  const matched = queryTokens.filter((token) =>
+    nameTokens.some((candidate) => tokensMatch(token, candidate)),
+  ).length;
+  const tokenScore = (2 * matched) / (queryTokens.length + nameTokens.length);
+  const editScore =
+    1 - levenshtein(query, name) / Math.max(query.length, name.length);
+  return Math.max(tokenScore, editScore);
+}
+
+/**
+ * Ranks catalog services against what the user called them, e.g. "EC2",
+ * "Cloud SQL" or "virtual machine", using each service's name, native name
+ * and aliases. Services on other clouds are ignored when a cloud is given.
+ */
+export function resolveService(
+  services: ServiceConfig[],
+  query: string,
+  cloud?: string | null,
+): ServiceResolution {
+  const normalizedQuery = normalize(query);
+  const candidates: ServiceCandidate[] = [];
+
+  for (const service of services) {
+    if (cloud && service.cloud.toLowerCase() !== cloud.toLowerCase()) {
+      continue;
+    }
+    const names = [service.name, service.nativeName, ...(service.aliases || [])]
+      .filter((name): name is string => !!name)
+      .map((name) => ({
+        name,
+        score: nameSimilarity(normalizedQuery, normalize(name)),
+      }));
+    const best = names.reduce((a, b) => (b.score > a.score ? b : a));
+    if (best.score >= MATCH_THRESHOLD) {
+      candidates.push({ service, score: best.score, matchedName: best.name });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const [top] = candidates;
+  const contenders = top
+    ? candidates.filter(
+        (candidate) => top.score - candidate.score < AMBIGUITY_MARGIN,
+      )
+    : [];
+  // An exact name always wins, however close the others come
+  const ambiguous = contenders.length > 1 && top.score < 1;
+
+  return {
+    match: top && !ambiguous ? top.service : null,
+    candidates,
+    contenders,
+    ambiguous,
+  };
+}
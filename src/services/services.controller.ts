@@ -1,10 +1,63 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import { Response } from 'express';
 import { ServicesService } from './services.service';
-import { ServiceConfig } from './types';
+import { FieldResolution, ServiceConfig } from './types';
+import { CostEstimate } from '../pricing/types';
+import { CatalogVersion } from '../catalog/types';
+import { CLOUDS } from '../catalog/catalog.schema';
+import { CloudTranslator } from '../translation/cloud.translator';
+import {
+  CrossCloudTranslation,
+  ServiceEquivalents,
+} from '../translation/types';
+import { createTarGz } from '../terraform/bundle';
+import {
+  TerraformModule,
+  generateTerraformModule,
+} from '../terraform/terraform.generator';
+import { CurrentUser, RequireRole } from '../auth/auth.decorators';
+import { Principal } from '../auth/types';
 
+interface ResolveFieldsBody {
+  formData?: Record<string, unknown>;
+}
+
+interface AvailabilityBody {
+  available?: boolean;
+}
+
+interface RollbackBody {
+  version: number;
+}
+
+interface TranslateBody {
+  cloud?: string;
+  formData?: Record<string, unknown>;
+}
+
+// Anyone signed in can read the catalog; changing it takes an admin, who is
+// recorded in the version history
 @Controller('services')
 export class ServicesController {
-  constructor(private readonly servicesService: ServicesService) {}
+  constructor(
+    private readonly servicesService: ServicesService,
+    private readonly translator: CloudTranslator,
+  ) {}
 
   @Get()
   getAllServices(): ServiceConfig[] {
@@ -18,4 +71,179 @@ export class ServicesController {
   ): ServiceConfig[] {
     return this.servicesService.getServicesByFilter(name, cloud);
   }
-} 
\ No newline at end of file
+
+  @Get(':id')
+  getService(@Param('id') id: string): ServiceConfig {
+    const service = this.servicesService.getServiceById(id);
+    if (!service) {
+      throw new NotFoundException(`Service ${id} not found`);
+    }
+    return service;
+  }
+
+  @Post(':id')
+  @RequireRole('admin')
+  createService(
+    @Param('id') id: string,
+    @Body() body: ServiceConfig,
+    @CurrentUser() user: Principal,
+  ): CatalogVersion {
+    return this.servicesService.createService(id, body, user.userId);
+  }
+
+  @Put(':id')
+  @RequireRole('admin')
+  replaceService(
+    @Param('id') id: string,
+    @Body() body: ServiceConfig,
+    @CurrentUser() user: Principal,
+  ): CatalogVersion {
+    return this.servicesService.replaceService(id, body, user.userId);
+  }
+
+  @Patch(':id')
+  @RequireRole('admin')
+  updateService(
+    @Param('id') id: string,
+    @Body() body: Partial<ServiceConfig>,
+    @CurrentUser() user: Principal,
+  ): CatalogVersion {
+    return this.servicesService.updateService(id, body, user.userId);
+  }
+
+  @Delete(':id')
+  @RequireRole('admin')
+  deleteService(
+    @Param('id') id: string,
+    @CurrentUser() user: Principal,
+  ): CatalogVersion {
+    return this.servicesService.deleteService(id, user.userId);
+  }
+
+  // Sets available from the body, or flips it when the body has no value
+  @Patch(':id/available')
+  @RequireRole('admin')
+  setAvailable(
+    @Param('id') id: string,
+    @Body() body: AvailabilityBody,
+    @CurrentUser() user: Principal,
+  ): CatalogVersion {
+    if (body?.available !== undefined && typeof body.available !== 'boolean') {
+      throw new BadRequestException('available must be true or false');
+    }
+    return this.servicesService.setAvailable(id, body?.available, user.userId);
+  }
+
+  @Get(':id/history')
+  getHistory(@Param('id') id: string): CatalogVersion[] {
+    return this.servicesService.getHistory(id);
+  }
+
+  @Get(':id/history/:version')
+  getVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): CatalogVersion {
+    return this.servicesService.getVersion(id, version);
+  }
+
+  @Post(':id/rollback')
+  @RequireRole('admin')
+  rollback(
+    @Param('id') id: string,
+    @Body() body: RollbackBody,
+    @CurrentUser() user: Principal,
+  ): CatalogVersion {
+    if (!Number.isInteger(body?.version)) {
+      throw new BadRequestException('version must be an integer');
+    }
+    return this.servicesService.rollback(id, body.version, user.userId);
+  }
+
+  @Post(':id/resolve-fields')
+  resolveFields(
+    @Param('id') id: string,
+    @Body() body: ResolveFieldsBody,
+  ): FieldResolution {
+    const resolution = this.servicesService.resolveFields(id, body?.formData);
+    if (!resolution) {
+      throw new NotFoundException(`Service ${id} not found`);
+    }
+    return resolution;
+  }
+
+  @Post(':id/estimate')
+  estimateCost(
+    @Param('id') id: string,
+    @Body() body: ResolveFieldsBody,
+  ): CostEstimate {
+    const estimate = this.servicesService.estimateCost(id, body?.formData);
+    if (!estimate) {
+      throw new NotFoundException(`No pricing available for service ${id}`);
+    }
+    return estimate;
+  }
+
+  @Get(':id/equivalents')
+  getEquivalents(@Param('id') id: string): ServiceEquivalents {
+    const service = this.servicesService.getServiceById(id);
+    if (!service) {
+      throw new NotFoundException(`Service ${id} not found`);
+    }
+    return this.translator.equivalents(service);
+  }
+
+  // Maps the form data onto the equivalent service on another cloud
+  @Post(':id/translate')
+  translate(
+    @Param('id') id: string,
+    @Body() body: TranslateBody,
+  ): CrossCloudTranslation {
+    const service = this.servicesService.getServiceById(id);
+    if (!service) {
+      throw new NotFoundException(`Service ${id} not found`);
+    }
+    const cloud = body?.cloud?.toLowerCase();
+    if (!cloud || !CLOUDS.includes(cloud)) {
+      throw new BadRequestException(
+        `cloud must be one of ${CLOUDS.join(', ')}`,
+      );
+    }
+    if (cloud === service.cloud) {
+      throw new BadRequestException(`Service ${id} is already on ${cloud}`);
+    }
+    const target = this.translator.equivalentOn(service, cloud);
+    if (!target) {
+      throw new NotFoundException(`No ${cloud} equivalent of service ${id}`);
+    }
+    return this.translator.translate(service, target, body.formData);
+  }
+
+  // Returns the module as a .tar.gz download, or as JSON with ?format=json
+  @Post(':id/terraform')
+  exportTerraform(
+    @Param('id') id: string,
+    @Body() body: ResolveFieldsBody,
+    @Query('format') format: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ): TerraformModule | StreamableFile {
+    const service = this.servicesService.getServiceById(id);
+    if (!service) {
+      throw new NotFoundException(`Service ${id} not found`);
+    }
+
+    let module: TerraformModule;
+    try {
+      module = generateTerraformModule(service, body?.formData);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+    if (format === 'json') return module;
+
+    res.set({
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="${module.name}-terraform.tar.gz"`,
+    });
+    return new StreamableFile(createTarGz(module.name, module.files));
+  }
+}
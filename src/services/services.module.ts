@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common';
 import { ServicesController } from './services.controller';
 import { ServicesService } from './services.service';
+import { PricingModule } from '../pricing/pricing.module';
+import { CatalogModule } from '../catalog/catalog.module';
+import { TranslationModule } from '../translation/translation.module';
 
 @Module({
+  imports: [CatalogModule, PricingModule, TranslationModule],
   controllers: [ServicesController],
   providers: [ServicesService],
 })
-export class ServicesModule {} 
\ No newline at end of file
+export class ServicesModule {}
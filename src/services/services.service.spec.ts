@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ServicesService } from './services.service';
+import { ServiceConfig } from './types';
+import {
+  DEFAULT_CATALOG_PATH,
+  ServiceCatalog,
+} from '../catalog/service.catalog';
+import { CatalogHistory } from '../catalog/catalog.history';
+import { CostEstimator } from '../pricing/cost.estimator';
+
+describe('ServicesService catalog management', () => {
+  let dir: string;
+  let file: string;
+  let catalog: ServiceCatalog;
+  let history: CatalogHistory;
+  let services: ServicesService;
+
+  const newService = (): ServiceConfig => ({
+    id: 'bucket-aws',
+    name: 'Object Storage',
+    template: 's3',
+    price: 0,
+    cloud: 'aws',
+    available: true,
+    requiredFields: [
+      {
+        type: 'input',
+        fieldId: 'bucketName',
+        fieldName: 'Bucket Name',
+        fieldValue: '',
+        fieldTypeValue: 'String',
+        dependent: false,
+        dependentON: '',
+        dependentFOR: '',
+        validation: { required: true, pattern: '^[a-z0-9.-]{3,63}$' },
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'services-'));
+    file = path.join(dir, 'services.json');
+    fs.copyFileSync(DEFAULT_CATALOG_PATH, file);
+    catalog = new ServiceCatalog(file);
+    history = new CatalogHistory(path.join(dir, 'history.jsonl'));
+    services = new ServicesService(catalog, new CostEstimator(), history);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates services, persists them and records who did it', () => {
+    const version = services.createService('bucket-aws', newService(), 'alice');
+
+    expect(version).toMatchObject({
+      serviceId: 'bucket-aws',
+      version: 1,
+      action: 'create',
+      changedBy: 'alice',
+    });
+    expect(new ServiceCatalog(file).getById('bucket-aws')).toEqual(
+      newService(),
+    );
+    expect(() =>
+      services.createService('bucket-aws', newService(), 'alice'),
+    ).toThrow(ConflictException);
+  });
+
+  it('rejects definitions that break the catalog schema', () => {
+    const invalid = { ...newService(), cloud: 'ibm', price: 'free' };
+    let error: unknown;
+    try {
+      services.createService(
+        'bucket-aws',
+        invalid as unknown as ServiceConfig,
+        'alice',
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect((error as BadRequestException).getResponse()).toMatchObject({
+      errors: [
+        'price: must be a number of 0 or more',
+        'cloud: must be one of aws, azure, gcp, oracle',
+      ],
+    });
+    expect(catalog.getById('bucket-aws')).toBeNull();
+  });
+
+  it('keeps a version per change and rolls back to any of them', () => {
+    services.updateService(
+      'virtual-machine-aws',
+      { name: 'EC2 Instance' },
+      'alice',
+    );
+    services.setAvailable('virtual-machine-aws', undefined, 'bob');
+
+    const [imported, ...updates] = services.getHistory('virtual-machine-aws');
+    expect(imported).toMatchObject({
+      version: 1,
+      action: 'import',
+      changedBy: 'system',
+    });
+    expect(imported.changes).toContain('id');
+    expect(imported.changes).toContain('name');
+    expect(
+      updates.map(({ version, action, changedBy, changes }) => ({
+        version,
+        action,
+        changedBy,
+        changes,
+      })),
+    ).toEqual([
+      { version: 2, action: 'update', changedBy: 'alice', changes: ['name'] },
+      {
+        version: 3,
+        action: 'update',
+        changedBy: 'bob',
+        changes: ['available'],
+      },
+    ]);
+    expect(catalog.getById('virtual-machine-aws')?.available).toBe(false);
+
+    const restored = services.rollback('virtual-machine-aws', 1, 'carol');
+    expect(restored).toMatchObject({
+      version: 4,
+      action: 'rollback',
+      restoredFrom: 1,
+      changes: ['name', 'available'],
+    });
+    expect(catalog.getById('virtual-machine-aws')).toMatchObject({
+      name: 'Virtual Machine',
+      available: true,
+    });
+  });
+
+  it('deletes services and can bring them back', () => {
+    services.deleteService('vpc-aws', 'alice');
+    expect(catalog.getById('vpc-aws')).toBeNull();
+    expect(() => services.rollback('vpc-aws', 2, 'alice')).toThrow(
+      BadRequestException,
+    );
+
+    services.rollback('vpc-aws', 1, 'alice');
+    expect(catalog.getById('vpc-aws')?.name).toBe('VPC');
+    expect(() => services.getVersion('vpc-aws', 9)).toThrow(NotFoundException);
+  });
+});
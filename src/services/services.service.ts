@@ -1,38 +1,202 @@
-import { Injectable } from '@nestjs/common';
-import * as fs from 'fs';
-import * as path from 'path';
-import { ServiceConfig, ServicesData } from './types';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { FieldResolution, ServiceConfig } from './types';
+import { resolveFields } from './field-dependency.resolver';
+import { CostEstimator } from '../pricing/cost.estimator';
+import { CostEstimate } from '../pricing/types';
+import { ServiceCatalog } from '../catalog/service.catalog';
+import { CatalogHistory } from '../catalog/catalog.history';
+import { validateCatalog } from '../catalog/catalog.schema';
+import { CatalogChangeAction, CatalogVersion } from '../catalog/types';
 
 @Injectable()
 export class ServicesService {
-  private servicesData: ServicesData | null = null;
+  constructor(
+    private readonly catalog: ServiceCatalog,
+    private readonly costEstimator: CostEstimator,
+    private readonly history: CatalogHistory,
+  ) {}
 
-  constructor() {
-    this.loadServicesData();
+  // price is the monthly estimate with the default SKUs ("starting at")
+  private withPrice(service: ServiceConfig): ServiceConfig {
+    return {
+      ...service,
+      price: this.costEstimator.estimate(service)?.monthly ?? service.price,
+    };
   }
 
-  private loadServicesData() {
-    try {
-      const servicesPath = path.join(process.cwd(), 'services.json');
-      const servicesContent = fs.readFileSync(servicesPath, 'utf8');
-      this.servicesData = JSON.parse(servicesContent);
-    } catch (error) {
-      console.error('Error loading services.json:', error);
-      this.servicesData = null;
+  getAllServices(): ServiceConfig[] {
+    return this.catalog.getAll().map((service) => this.withPrice(service));
+  }
+
+  getServiceById(id: string): ServiceConfig | null {
+    const service = this.catalog.getById(id);
+    return service ? this.withPrice(service) : null;
+  }
+
+  resolveFields(
+    id: string,
+    formData: Record<string, unknown> = {},
+  ): FieldResolution | null {
+    const service = this.catalog.getById(id);
+    return service ? resolveFields(service.requiredFields, formData) : null;
+  }
+
+  estimateCost(
+    id: string,
+    formData: Record<string, unknown> = {},
+  ): CostEstimate | null {
+    const service = this.catalog.getById(id);
+    return service ? this.costEstimator.estimate(service, formData) : null;
+  }
+
+  createService(
+    id: string,
+    definition: ServiceConfig,
+    changedBy: string,
+  ): CatalogVersion {
+    if (this.catalog.getById(id)) {
+      throw new ConflictException(`Service ${id} already exists`);
     }
+    return this.write(id, 'create', this.withId(id, definition), changedBy);
   }
 
-  getAllServices(): ServiceConfig[] {
-    return this.servicesData?.list || [];
+  replaceService(
+    id: string,
+    definition: ServiceConfig,
+    changedBy: string,
+  ): CatalogVersion {
+    this.requireService(id);
+    return this.write(id, 'replace', this.withId(id, definition), changedBy);
   }
 
-  getServicesByFilter(name?: string, cloud?: string): ServiceConfig[] {
-    if (!this.servicesData) return [];
+  updateService(
+    id: string,
+    changes: Partial<ServiceConfig>,
+    changedBy: string,
+  ): CatalogVersion {
+    const current = this.requireService(id);
+    return this.write(
+      id,
+      'update',
+      this.withId(id, { ...current, ...changes }),
+      changedBy,
+    );
+  }
+
+  // Flips available unless a value is given
+  setAvailable(
+    id: string,
+    available: boolean | undefined,
+    changedBy: string,
+  ): CatalogVersion {
+    const current = this.requireService(id);
+    return this.updateService(
+      id,
+      { available: available ?? !current.available },
+      changedBy,
+    );
+  }
+
+  deleteService(id: string, changedBy: string): CatalogVersion {
+    this.requireService(id);
+    return this.write(id, 'delete', null, changedBy);
+  }
+
+  getHistory(id: string): CatalogVersion[] {
+    const versions = this.history.list(id);
+    if (versions.length === 0) this.requireService(id);
+    return versions;
+  }
+
+  getVersion(id: string, version: number): CatalogVersion {
+    const entry = this.history.get(id, version);
+    if (!entry) {
+      throw new NotFoundException(`Service ${id} has no version ${version}`);
+    }
+    return entry;
+  }
+
+  // Restores an earlier definition, recreating the service if it was deleted
+  rollback(id: string, version: number, changedBy: string): CatalogVersion {
+    const { definition } = this.getVersion(id, version);
+    if (!definition) {
+      throw new BadRequestException(
+        `Version ${version} of ${id} is a deletion and cannot be restored`,
+      );
+    }
+    return this.write(id, 'rollback', definition, changedBy, version);
+  }
 
-    return this.servicesData.list.filter((service) => {
-      const nameMatch = !name || service.name.toLowerCase().includes(name.toLowerCase());
-      const cloudMatch = !cloud || service.cloud.toLowerCase() === cloud.toLowerCase();
+  // Saves the new definition (null deletes the service) and records the version
+  private write(
+    id: string,
+    action: CatalogChangeAction,
+    definition: ServiceConfig | null,
+    changedBy: string,
+    restoredFrom?: number,
+  ): CatalogVersion {
+    if (definition) {
+      const errors = validateCatalog({ list: [definition] }).map((error) =>
+        error.replace(/^list\[0\](?: \([^)]*\))?\.?/, ''),
+      );
+      if (errors.length > 0) {
+        throw new BadRequestException({
+          message: `Invalid definition for service ${id}`,
+          errors,
+        });
+      }
+    }
+
+    const services = this.catalog.getAll();
+    const current = this.catalog.getById(id);
+    // Services that predate the history get their original definition as version 1
+    if (current && this.history.list(id).length === 0) {
+      this.history.record(id, 'import', current, 'system');
+    }
+
+    this.catalog.save(
+      current
+        ? services.flatMap((service) =>
+            service.id !== id ? [service] : definition ? [definition] : [],
+          )
+        : [...services, definition as ServiceConfig],
+    );
+    return this.history.record(id, action, definition, changedBy, restoredFrom);
+  }
+
+  private withId(id: string, definition: ServiceConfig): ServiceConfig {
+    if (!definition || typeof definition !== 'object') {
+      throw new BadRequestException('A service definition object is required');
+    }
+    if (definition.id !== undefined && definition.id !== id) {
+      throw new BadRequestException(
+        `Service id ${definition.id} does not match ${id}; ids cannot be changed`,
+      );
+    }
+    // Keeps id as the first property in services.json
+    return Object.assign({ id }, definition, { id });
+  }
+
+  private requireService(id: string): ServiceConfig {
+    const service = this.catalog.getById(id);
+    if (!service) {
+      throw new NotFoundException(`Service ${id} not found`);
+    }
+    return service;
+  }
+
+  getServicesByFilter(name?: string, cloud?: string): ServiceConfig[] {
+    return this.getAllServices().filter((service) => {
+      const nameMatch =
+        !name || service.name.toLowerCase().includes(name.toLowerCase());
+      const cloudMatch =
+        !cloud || service.cloud.toLowerCase() === cloud.toLowerCase();
       return nameMatch && cloudMatch;
     });
   }
-} 
\ No newline at end of file
+}
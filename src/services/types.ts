@@ -1,22 +1,102 @@
+export interface FieldValidation {
+  required?: boolean;
+  // Regular expression a String value (or every List item) must match
+  pattern?: string;
+  // Allowed values for a String field or for every List item
+  options?: string[];
+  // Value range for Number fields, length for String fields, item count for List fields
+  min?: number;
+  max?: number;
+  itemType?: 'String' | 'Number';
+}
+
+// Holds when the referenced field has a value, optionally one that equals,
+// is listed in, or matches the given values
+export interface FieldCondition {
+  fieldId: string;
+  equals?: string;
+  in?: string[];
+  matches?: string;
+}
+
+export interface FieldDependency {
+  // Every condition must hold for the field to be enabled. Defaults to the
+  // dependentON fields having values.
+  enabledWhen?: FieldCondition[];
+  // Every condition must hold for an enabled field to be required. Defaults to
+  // validation.required.
+  requiredWhen?: FieldCondition[];
+  // The first rule whose conditions all hold decides the allowed values
+  options?: Array<{ when: FieldCondition[]; values: string[] }>;
+}
+
+export interface ServiceField {
+  type: string;
+  fieldId: string;
+  fieldName: string;
+  fieldValue: string;
+  fieldTypeValue: string;
+  dependent: boolean;
+  dependentON: string;
+  dependentFOR: string;
+  // Can be changed on a live deployment through CONFIGURE
+  mutable?: boolean;
+  // Holds a secret: never written to logs or the audit trail
+  sensitive?: boolean;
+  validation?: FieldValidation;
+  dependency?: FieldDependency;
+}
+
 export interface ServiceConfig {
   id: string;
   name: string;
+  // The provider's own product name, e.g. "Amazon EC2"
+  nativeName?: string;
+  // Other names users call the service by, e.g. "ec2", "vm"
+  aliases?: string[];
+  description?: string;
   template: string;
   price: number;
   cloud: string;
   available: boolean;
-  requiredFields: Array<{
-    type: string;
-    fieldId: string;
-    fieldName: string;
-    fieldValue: string;
-    fieldTypeValue: string;
-    dependent: boolean;
-    dependentON: string;
-    dependentFOR: string;
-  }>;
+  // The field holding the deployed resource's name, typed back to confirm a teardown
+  nameField?: string;
+  requiredFields: ServiceField[];
 }
 
 export interface ServicesData {
   list: ServiceConfig[];
-} 
\ No newline at end of file
+}
+
+// One field of a configuration change, as shown to the user before it is applied
+export interface FieldChange {
+  fieldId: string;
+  fieldName: string;
+  from?: string;
+  to?: string;
+}
+
+export interface FieldValidationError {
+  fieldId: string;
+  fieldName: string;
+  message: string;
+}
+
+export interface ResolvedField extends ServiceField {
+  enabled: boolean;
+  required: boolean;
+  allowedValues?: string[];
+  value?: unknown;
+}
+
+export interface FieldResolution {
+  // Every field in dependency order
+  fields: ResolvedField[];
+  // Enabled fields without a value whose parents are all filled in
+  nextFields: ResolvedField[];
+  // Required enabled fields that still have no value
+  missing: string[];
+  // Submitted values that are no longer allowed given the other values
+  invalid: FieldValidationError[];
+  complete: boolean;
+}
@@ -0,0 +1,85 @@
+/**
+ * Placeholder substitution over a parsed template document. A string that is
+ * exactly one placeholder ("{{ subnets | list }}") is replaced by the typed
+ * value; placeholders embedded in longer strings are interpolated as text.
+ * Values never pass through JSON source, so quotes or braces in user input
+ * can't change the structure of the rendered document. Keys whose value
+ * resolves to nothing are dropped.
+ */
+
+const WHOLE_PLACEHOLDER = /^\{\{\s*([^}]+?)\s*\}\}$/;
+const EMBEDDED_PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+type Filter = (value: unknown, arg?: string) => unknown;
+
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const FILTERS: Record<string, Filter> = {
+  default: (value, arg) => (isBlank(value) ? arg : value),
+  number: (value) => (isBlank(value) ? undefined : Number(value)),
+  list: (value) => {
+    if (isBlank(value)) return undefined;
+    const items = Array.isArray(value) ? value : String(value).split(',');
+    return items.map((item) => String(item).trim()).filter(Boolean);
+  },
+  lower: (value) => (isBlank(value) ? value : String(value).toLowerCase()),
+  upper: (value) => (isBlank(value) ? value : String(value).toUpperCase()),
+};
+
+function parseFilter(source: string): [string, string | undefined] {
+  const [name, ...rest] = source.split(':');
+  const arg = rest.join(':').trim();
+  return [name.trim(), arg ? arg.replace(/^(['"])(.*)\1$/, '$2') : undefined];
+}
+
+function evaluate(expression: string, context: Record<string, unknown>) {
+  const [key, ...filters] = expression.split('|').map((part) => part.trim());
+  return filters.reduce((value: unknown, source) => {
+    const [name, arg] = parseFilter(source);
+    const filter = FILTERS[name];
+    if (!filter) {
+      throw new Error(`Unknown template filter "${name}"`);
+    }
+    return filter(value, arg);
+  }, context[key]);
+}
+
+export function renderPlaceholders(
+  node: unknown,
+  context: Record<string, unknown>,
+): unknown {
+  if (typeof node === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(node);
+    if (whole) {
+      const value = evaluate(whole[1], context);
+      return isBlank(value) ? undefined : value;
+    }
+    return node.replace(EMBEDDED_PLACEHOLDER, (_, expression: string) => {
+      const value = evaluate(expression, context);
+      return isBlank(value) ? '' : String(value as string);
+    });
+  }
+
+  if (Array.isArray(node)) {
+    return node
+      .map((item) => renderPlaceholders(item, context))
+      .filter((item) => item !== undefined);
+  }
+
+  if (node && typeof node === 'object') {
+    const rendered: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      const result = renderPlaceholders(value, context);
+      if (result !== undefined) {
+        rendered[key] = result;
+      }
+    }
+    return rendered;
+  }
+
+  return node;
+}
@@ -0,0 +1,37 @@
+import { PlannedResource, RenderedTemplate } from './types';
+
+type Json = Record<string, any>;
+
+/**
+ * Lists the resources a rendered template declares, whatever its format, so a
+ * deployment plan can show what will be created before anything runs.
+ */
+export function summarizeResources(
+  rendered: RenderedTemplate,
+): PlannedResource[] {
+  const document = (rendered.document || {}) as Json;
+
+  switch (rendered.format) {
+    case 'cloudformation':
+      return Object.entries(
+        (document.Resources || {}) as Record<string, Json>,
+      ).map(([name, resource]) => ({ type: String(resource?.Type), name }));
+    case 'arm':
+    case 'deployment-manager':
+      return ((document.resources || []) as Json[]).map((resource) => ({
+        type: String(resource.type),
+        name: String(resource.name),
+      }));
+    case 'oci-resource-manager':
+      // Terraform JSON: resource.<type>.<name>
+      return Object.entries((document.resource || {}) as Json).flatMap(
+        ([type, resources]) =>
+          Object.keys((resources || {}) as Json).map((name) => ({
+            type,
+            name,
+          })),
+      );
+    default:
+      return [];
+  }
+}
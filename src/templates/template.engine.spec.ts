@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TemplateEngine } from './template.engine';
+import { ServicesData } from '../services/types';
+
+describe('TemplateEngine', () => {
+  const engine = new TemplateEngine();
+  const services = (
+    JSON.parse(
+      fs.readFileSync(path.join(process.cwd(), 'services.json'), 'utf8'),
+    ) as ServicesData
+  ).list;
+
+  it('has a template for every catalog service', () => {
+    const missing = services
+      .filter((service) => !engine.hasTemplate(service))
+      .map((service) => service.id);
+
+    expect(missing).toEqual([]);
+  });
+
+  it('escapes user input instead of breaking the document', () => {
+    const rendered = engine.render(
+      { cloud: 'aws', template: 'virtualmachine' },
+      { instanceName: 'web "01"}, {', instanceType: 't3.micro' },
+    );
+
+    expect(rendered.format).toBe('cloudformation');
+    expect(JSON.parse(rendered.content)).toEqual(rendered.document);
+    expect(rendered.document).toMatchObject({
+      Resources: {
+        EC2Instance: {
+          Properties: {
+            InstanceType: 't3.micro',
+            ImageId: 'ami-0c55b159cbfafe1f0',
+            Tags: [{ Key: 'Name', Value: 'web "01"}, {' }],
+          },
+        },
+      },
+    });
+  });
+
+  it('keeps list values structured', () => {
+    const rendered = engine.render(
+      { cloud: 'oracle', template: 'loadbalancer' },
+      {
+        compartmentId: 'ocid1.compartment.oc1..aaa',
+        shape: 'flexible',
+        subnetIds: 'a, b',
+      },
+    );
+
+    expect(rendered.document).toMatchObject({
+      resource: {
+        oci_load_balancer_load_balancer: {
+          load_balancer: { subnet_ids: ['a', 'b'] },
+        },
+      },
+    });
+  });
+
+  it('throws for services without a template', () => {
+    expect(() =>
+      engine.render({ cloud: 'aws', template: '../services' }, {}),
+    ).toThrow('No ../services template available for aws');
+  });
+});
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServiceConfig } from '../services/types';
+import { renderPlaceholders } from './placeholders';
+import { RenderedTemplate, TemplateDefinition } from './types';
+
+export const DEFAULT_TEMPLATES_DIR = path.join(process.cwd(), 'templates');
+
+/**
+ * Renders infrastructure templates for catalog services. Templates are picked
+ * by cloud and ServiceConfig.template from templates/<cloud>/<template>.json.
+ */
+export class TemplateEngine {
+  private readonly cache = new Map<string, TemplateDefinition | null>();
+
+  constructor(private readonly templatesDir = DEFAULT_TEMPLATES_DIR) {}
+
+  hasTemplate(service: Pick<ServiceConfig, 'cloud' | 'template'>): boolean {
+    return this.load(service) !== null;
+  }
+
+  render(
+    service: Pick<ServiceConfig, 'cloud' | 'template'>,
+    formData: Record<string, unknown>,
+  ): RenderedTemplate {
+    const definition = this.load(service);
+    if (!definition) {
+      throw new Error(
+        `No ${service.template} template available for ${service.cloud}`,
+      );
+    }
+
+    const document = renderPlaceholders(definition.body, formData || {});
+    return {
+      format: definition.format,
+      document,
+      content: JSON.stringify(document, null, 2),
+    };
+  }
+
+  private load(
+    service: Pick<ServiceConfig, 'cloud' | 'template'>,
+  ): TemplateDefinition | null {
+    const cloud = service.cloud?.toLowerCase();
+    const name = service.template?.toLowerCase();
+    // Guard against template names escaping the templates directory
+    if (!cloud || !name || !/^[a-z0-9-]+$/.test(cloud + name)) return null;
+
+    const key = `${cloud}/${name}`;
+    if (!this.cache.has(key)) {
+      const filePath = path.join(this.templatesDir, cloud, `${name}.json`);
+      try {
+        this.cache.set(
+          key,
+          JSON.parse(fs.readFileSync(filePath, 'utf8')) as TemplateDefinition,
+        );
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Error loading template ${filePath}:`, error);
+        }
+        this.cache.set(key, null);
+      }
+    }
+    return this.cache.get(key) ?? null;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TemplateEngine } from './template.engine';
+
+@Module({
+  providers: [
+    {
+      provide: TemplateEngine,
+      useFactory: () =>
+        new TemplateEngine(process.env.TEMPLATES_DIR || undefined),
+    },
+  ],
+  exports: [TemplateEngine],
+})
+export class TemplatesModule {}
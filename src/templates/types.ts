@@ -0,0 +1,23 @@
+export type TemplateFormat =
+  | 'cloudformation'
+  | 'arm'
+  | 'deployment-manager'
+  | 'oci-resource-manager';
+
+// A template file: templates/<cloud>/<ServiceConfig.template>.json
+export interface TemplateDefinition {
+  format: TemplateFormat;
+  body: unknown;
+}
+
+export interface RenderedTemplate {
+  format: TemplateFormat;
+  document: unknown;
+  content: string;
+}
+
+// One resource a rendered template will create
+export interface PlannedResource {
+  type: string;
+  name: string;
+}
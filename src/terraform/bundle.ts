@@ -0,0 +1,70 @@
+import { gzipSync } from 'zlib';
+
+const BLOCK_SIZE = 512;
+
+function writeString(
+  header: Buffer,
+  value: string,
+  offset: number,
+  length: number,
+) {
+  header.write(value.slice(0, length), offset, length, 'utf8');
+}
+
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number,
+) {
+  writeString(
+    header,
+    `${value.toString(8).padStart(length - 1, '0')}\0`,
+    offset,
+    length,
+  );
+}
+
+// ustar header for a regular file, see POSIX pax/tar format
+function tarHeader(name: string, size: number, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(' ', 148, 156);
+  header.write('0', 156);
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+  return header;
+}
+
+/**
+ * Packs the given files into a gzipped tarball under `rootDir/`, so the
+ * download extracts to a ready-to-use Terraform module directory.
+ */
+export function createTarGz(
+  rootDir: string,
+  files: Record<string, string>,
+  mtime = new Date(),
+): Buffer {
+  const seconds = Math.floor(mtime.getTime() / 1000);
+  const chunks: Buffer[] = [];
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content, 'utf8');
+    chunks.push(tarHeader(`${rootDir}/${name}`, data.length, seconds), data);
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) chunks.push(Buffer.alloc(padding));
+  }
+  // End-of-archive marker: two empty blocks
+  chunks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return gzipSync(Buffer.concat(chunks));
+}
@@ -0,0 +1,117 @@
+/**
+ * Small HCL writer. Values are modelled as data and serialized here, so user
+ * input always ends up inside properly escaped string literals.
+ */
+
+// A raw HCL expression such as var.instance_type, emitted without quoting
+export class HclExpression {
+  constructor(readonly source: string) {}
+}
+
+// A nested block (e.g. `os_disk { ... }`) rather than an object-typed argument
+export class HclBlock {
+  constructor(
+    readonly body: HclBody,
+    readonly labels: string[] = [],
+  ) {}
+}
+
+export type HclValue =
+  | string
+  | number
+  | boolean
+  | null
+  | HclExpression
+  | HclValue[]
+  | { [key: string]: HclValue };
+
+export type HclBody = { [key: string]: HclValue | HclBlock | HclBlock[] };
+
+export const expr = (source: string) => new HclExpression(source);
+export const block = (body: HclBody, ...labels: string[]) =>
+  new HclBlock(body, labels);
+
+export function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    // Terraform would otherwise treat these as interpolation or directives
+    .replace(/\$\{/g, '$$$${')
+    .replace(/%\{/g, '%%{');
+  return `"${escaped}"`;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+function formatKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : quote(key);
+}
+
+export function formatValue(value: HclValue, indent = ''): string {
+  if (value instanceof HclExpression) return value.source;
+  if (value === null) return 'null';
+  if (typeof value === 'string') return quote(value);
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[${value.map((item) => formatValue(item, indent)).join(', ')}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  const inner = `${indent}  `;
+  const lines = align(
+    entries.map(([key, item]) => [formatKey(key), formatValue(item, inner)]),
+    inner,
+  );
+  return `{\n${lines}\n${indent}}`;
+}
+
+// Line up the `=` of consecutive attributes the way `terraform fmt` does
+function align(attributes: Array<[string, string]>, indent: string): string {
+  const width = Math.max(...attributes.map(([key]) => key.length));
+  return attributes
+    .map(([key, value]) => `${indent}${key.padEnd(width)} = ${value}`)
+    .join('\n');
+}
+
+export function formatBody(body: HclBody, indent = ''): string {
+  const sections: string[] = [];
+  let attributes: Array<[string, string]> = [];
+  const flush = () => {
+    if (attributes.length > 0) sections.push(align(attributes, indent));
+    attributes = [];
+  };
+
+  for (const [key, value] of Object.entries(body)) {
+    const blocks = Array.isArray(value)
+      ? value.filter((item) => item instanceof HclBlock)
+      : value instanceof HclBlock
+        ? [value]
+        : [];
+
+    if (blocks.length > 0) {
+      flush();
+      for (const item of blocks) {
+        sections.push(formatBlock(key, item, indent));
+      }
+    } else {
+      attributes.push([key, formatValue(value as HclValue, indent)]);
+    }
+  }
+  flush();
+  return sections.join('\n');
+}
+
+export function formatBlock(type: string, item: HclBlock, indent = ''): string {
+  const labels = item.labels.map((label) => ` ${quote(label)}`).join('');
+  const body = formatBody(item.body, `${indent}  `);
+  return body
+    ? `${indent}${type}${labels} {\n${body}\n${indent}}`
+    : `${indent}${type}${labels} {}`;
+}
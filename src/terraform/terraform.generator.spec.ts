@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { createTarGz } from './bundle';
+import { quote } from './hcl';
+import {
+  generateTerraformModule,
+  hasTerraformSupport,
+} from './terraform.generator';
+import { ServicesData } from '../services/types';
+
+describe('generateTerraformModule', () => {
+  const services = (
+    JSON.parse(
+      fs.readFileSync(path.join(process.cwd(), 'services.json'), 'utf8'),
+    ) as ServicesData
+  ).list;
+  const byId = (id: string) => services.find((service) => service.id === id)!;
+
+  it('supports every catalog service and declares every variable it uses', () => {
+    for (const service of services) {
+      expect(hasTerraformSupport(service)).toBe(true);
+
+      const { files } = generateTerraformModule(service);
+      const declared = [...files['variables.tf'].matchAll(/variable "(\w+)"/g)]
+        .map((match) => match[1])
+        .sort();
+      const used = [
+        ...`${files['main.tf']}${files['providers.tf']}`.matchAll(
+          /var\.(\w+)/g,
+        ),
+      ].map((match) => match[1]);
+
+      expect(declared).toEqual([...new Set(declared)]);
+      expect(used.filter((name) => !declared.includes(name))).toEqual([]);
+    }
+  });
+
+  it('writes form values into terraform.tfvars with their field types', () => {
+    const module = generateTerraformModule(byId('load-balancer-aws'), {
+      loadBalancerName: 'web-lb',
+      subnets: 'subnet-1, subnet-2',
+    });
+
+    expect(module.name).toBe('load-balancer-aws');
+    expect(module.provider).toBe('aws');
+    expect(module.files['terraform.tfvars']).toBe(
+      'load_balancer_name = "web-lb"\nsubnets            = ["subnet-1", "subnet-2"]\n',
+    );
+    expect(module.files['variables.tf']).toContain(
+      'variable "subnets" {\n  description = "Subnets"\n  type        = list(string)',
+    );
+    expect(module.files['versions.tf']).toContain('source  = "hashicorp/aws"');
+
+    const database = generateTerraformModule(byId('database-aws'), {
+      allocatedStorage: '20',
+    });
+    expect(database.files['terraform.tfvars']).toBe('allocated_storage = 20\n');
+  });
+
+  it('keeps user input inside string literals', () => {
+    expect(quote('a"b\\c\n${var.x} %{if}')).toBe(
+      '"a\\"b\\\\c\\n$${var.x} %%{if}"',
+    );
+
+    const module = generateTerraformModule(byId('vpc-aws'), {
+      vpcName: 'prod"\n}\nresource "x" "y" {',
+    });
+    expect(module.files['terraform.tfvars']).toBe(
+      'vpc_name = "prod\\"\\n}\\nresource \\"x\\" \\"y\\" {"\n',
+    );
+  });
+
+  it('mirrors catalog validation rules in variable blocks', () => {
+    const { files } = generateTerraformModule(byId('database-aws'));
+
+    expect(files['variables.tf']).toContain(
+      'condition     = contains(["mysql", "postgres", "mariadb", "oracle-se2", "sqlserver-ex"], var.db_engine)',
+    );
+  });
+
+  it('rejects services without a Terraform mapping', () => {
+    expect(() =>
+      generateTerraformModule({
+        name: 'Queue',
+        cloud: 'aws',
+        template: 'queue',
+        requiredFields: [],
+      }),
+    ).toThrow('Terraform export is not supported for Queue on aws');
+  });
+
+  it('bundles the module files into a tarball', () => {
+    const { name, files } = generateTerraformModule(byId('project-gcp'));
+    const tar = gunzipSync(createTarGz(name, files));
+
+    expect(tar.length % 512).toBe(0);
+    expect(tar.subarray(0, 20).toString('utf8')).toBe('project-gcp/main.tf\0');
+    expect(tar.includes(files['main.tf'])).toBe(true);
+  });
+});
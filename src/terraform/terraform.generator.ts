@@ -0,0 +1,201 @@
+import { ServiceConfig, ServiceField } from '../services/types';
+import { isEmpty, toList } from '../services/field-validator';
+import {
+  HclBlock,
+  HclBody,
+  HclValue,
+  block,
+  expr,
+  formatBlock,
+  formatBody,
+  formatValue,
+} from './hcl';
+import {
+  TERRAFORM_PROVIDERS,
+  TERRAFORM_SERVICES,
+  TerraformVariableSpec,
+} from './terraform.resources';
+
+export type TerraformServiceInput = Pick<
+  ServiceConfig,
+  'name' | 'cloud' | 'template' | 'requiredFields'
+> & { id?: string };
+
+export interface TerraformModule {
+  name: string;
+  provider: string;
+  // File name -> contents, in the order they should be presented
+  files: Record<string, string>;
+}
+
+export function hasTerraformSupport(service: TerraformServiceInput): boolean {
+  return Boolean(
+    TERRAFORM_PROVIDERS[service.cloud] &&
+      TERRAFORM_SERVICES[`${service.cloud}/${service.template}`],
+  );
+}
+
+export function toVariableName(fieldId: string): string {
+  return fieldId
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9_]/g, '_')
+    .toLowerCase();
+}
+
+function variableType(field: ServiceField): string {
+  switch (field.fieldTypeValue) {
+    case 'Number':
+      return 'number';
+    case 'List':
+      return field.validation?.itemType === 'Number'
+        ? 'list(number)'
+        : 'list(string)';
+    default:
+      return 'string';
+  }
+}
+
+function tfvarsValue(field: ServiceField, value: unknown): HclValue {
+  switch (field.fieldTypeValue) {
+    case 'Number':
+      return Number(value);
+    case 'List': {
+      const items = toList(value);
+      return field.validation?.itemType === 'Number'
+        ? items.map(Number)
+        : items;
+    }
+    default:
+      return String(value);
+  }
+}
+
+// Mirror the catalog's own validation so `terraform plan` rejects the same
+// values the agent would
+function validationBlocks(field: ServiceField, name: string): HclBlock[] {
+  const rules = field.validation;
+  if (!rules || field.fieldTypeValue !== 'String') return [];
+
+  const blocks: HclBlock[] = [];
+  if (rules.options?.length) {
+    blocks.push(
+      block({
+        condition: expr(`contains(${formatValue(rules.options)}, var.${name})`),
+        error_message: `${field.fieldName} must be one of: ${rules.options.join(', ')}.`,
+      }),
+    );
+  }
+  if (rules.pattern) {
+    blocks.push(
+      block({
+        condition: expr(
+          `can(regex(${formatValue(anchored(rules.pattern))}, var.${name}))`,
+        ),
+        error_message: `${field.fieldName} has an invalid format.`,
+      }),
+    );
+  }
+  return blocks;
+}
+
+// Terraform's regex() matches anywhere in the string, the catalog's patterns
+// are meant to match the whole value
+function anchored(pattern: string): string {
+  return `^(?:${pattern.replace(/^\^/, '').replace(/\$$/, '')})$`;
+}
+
+function variableBlock(
+  name: string,
+  spec: TerraformVariableSpec,
+  extra: HclBody = {},
+): string {
+  const body: HclBody = {
+    description: spec.description,
+    type: expr(spec.type),
+  };
+  if (spec.default !== undefined) body.default = spec.default;
+  if (spec.sensitive) body.sensitive = true;
+  return formatBlock('variable', block({ ...body, ...extra }, name));
+}
+
+export function generateTerraformModule(
+  service: TerraformServiceInput,
+  formData: Record<string, unknown> = {},
+): TerraformModule {
+  const provider = TERRAFORM_PROVIDERS[service.cloud];
+  const spec = TERRAFORM_SERVICES[`${service.cloud}/${service.template}`];
+  if (!provider || !spec) {
+    throw new Error(
+      `Terraform export is not supported for ${service.name} on ${service.cloud}`,
+    );
+  }
+
+  const variables: string[] = [];
+  const tfvars: HclBody = {};
+  const declared = new Set<string>();
+
+  for (const field of service.requiredFields) {
+    const name = toVariableName(field.fieldId);
+    declared.add(name);
+    const validation = validationBlocks(field, name);
+    variables.push(
+      variableBlock(
+        name,
+        { type: variableType(field), description: field.fieldName },
+        validation.length > 0 ? { validation } : {},
+      ),
+    );
+    const value = formData[field.fieldId];
+    if (!isEmpty(value)) tfvars[name] = tfvarsValue(field, value);
+  }
+
+  // Catalog fields win over provider/resource inputs of the same name
+  const extras = { ...provider.variables, ...(spec.variables || {}) };
+  for (const [name, variable] of Object.entries(extras)) {
+    if (declared.has(name)) continue;
+    declared.add(name);
+    variables.push(variableBlock(name, variable));
+  }
+
+  const versions = formatBlock(
+    'terraform',
+    block({
+      required_version: '>= 1.3.0',
+      required_providers: block({
+        [provider.name]: { source: provider.source, version: provider.version },
+      }),
+    }),
+  );
+  const main = spec.resources
+    .map((resource) =>
+      formatBlock(
+        'resource',
+        block(resource.body, resource.type, resource.name),
+      ),
+    )
+    .join('\n\n');
+  const outputs = Object.entries(spec.outputs)
+    .map(([name, output]) =>
+      formatBlock(
+        'output',
+        block(
+          { description: output.description, value: expr(output.value) },
+          name,
+        ),
+      ),
+    )
+    .join('\n\n');
+
+  return {
+    name: service.id || `${service.template}-${service.cloud}`,
+    provider: provider.name,
+    files: {
+      'main.tf': `${main}\n`,
+      'variables.tf': `${variables.join('\n\n')}\n`,
+      'outputs.tf': `${outputs}\n`,
+      'providers.tf': `${formatBlock('provider', block(provider.body, provider.name))}\n`,
+      'versions.tf': `${versions}\n`,
+      'terraform.tfvars': `${formatBody(tfvars)}\n`,
+    },
+  };
+}
@@ -0,0 +1,558 @@
+import { HclBody, block, expr } from './hcl';
+
+export interface TerraformVariableSpec {
+  type: string;
+  description: string;
+  default?: string | number | boolean | null;
+  sensitive?: boolean;
+}
+
+export interface TerraformProviderSpec {
+  name: string;
+  source: string;
+  version: string;
+  body: HclBody;
+  variables: Record<string, TerraformVariableSpec>;
+}
+
+export interface TerraformResourceSpec {
+  type: string;
+  name: string;
+  body: HclBody;
+}
+
+export interface TerraformServiceSpec {
+  resources: TerraformResourceSpec[];
+  outputs: Record<string, { description: string; value: string }>;
+  // Inputs the resources need beyond the catalog's required fields
+  variables?: Record<string, TerraformVariableSpec>;
+}
+
+// Variables for catalog fields are named after the field id in snake_case
+const v = (name: string) => expr(`var.${name}`);
+
+export const TERRAFORM_PROVIDERS: Record<string, TerraformProviderSpec> = {
+  aws: {
+    name: 'aws',
+    source: 'hashicorp/aws',
+    version: '~> 5.0',
+    body: { region: v('region') },
+    variables: {
+      region: {
+        type: 'string',
+        description: 'AWS region to deploy into',
+        default: 'us-east-1',
+      },
+    },
+  },
+  azure: {
+    name: 'azurerm',
+    source: 'hashicorp/azurerm',
+    version: '~> 3.0',
+    body: { features: block({}) },
+    variables: {},
+  },
+  gcp: {
+    name: 'google',
+    source: 'hashicorp/google',
+    version: '~> 5.0',
+    body: { project: v('project'), region: v('region') },
+    variables: {
+      project: { type: 'string', description: 'GCP project to deploy into' },
+      region: {
+        type: 'string',
+        description: 'GCP region to deploy into',
+        default: 'us-central1',
+      },
+    },
+  },
+  oracle: {
+    name: 'oci',
+    source: 'oracle/oci',
+    version: '~> 5.0',
+    body: { region: v('region') },
+    variables: {
+      region: {
+        type: 'string',
+        description: 'OCI region to deploy into',
+        default: 'us-ashburn-1',
+      },
+    },
+  },
+};
+
+// Keyed by `${cloud}/${ServiceConfig.template}`
+export const TERRAFORM_SERVICES: Record<string, TerraformServiceSpec> = {
+  'aws/virtualmachine': {
+    resources: [
+      {
+        type: 'aws_instance',
+        name: 'this',
+        body: {
+          ami: v('ami_id'),
+          instance_type: v('instance_type'),
+          key_name: v('key_name'),
+          tags: { Name: v('instance_name') },
+        },
+      },
+    ],
+    outputs: {
+      instance_id: {
+        description: 'EC2 instance id',
+        value: 'aws_instance.this.id',
+      },
+      public_ip: {
+        description: 'Public IP address',
+        value: 'aws_instance.this.public_ip',
+      },
+    },
+  },
+  'aws/loadbalancer': {
+    resources: [
+      {
+        type: 'aws_lb',
+        name: 'this',
+        body: {
+          name: v('load_balancer_name'),
+          load_balancer_type: 'application',
+          internal: false,
+          subnets: v('subnets'),
+          security_groups: v('security_groups'),
+        },
+      },
+    ],
+    outputs: {
+      arn: { description: 'Load balancer ARN', value: 'aws_lb.this.arn' },
+      dns_name: {
+        description: 'Load balancer DNS name',
+        value: 'aws_lb.this.dns_name',
+      },
+    },
+  },
+  'aws/database': {
+    resources: [
+      {
+        type: 'aws_db_instance',
+        name: 'this',
+        body: {
+          identifier: v('db_instance_identifier'),
+          engine: v('db_engine'),
+          instance_class: v('instance_class'),
+          allocated_storage: v('allocated_storage'),
+          username: v('master_username'),
+          manage_master_user_password: true,
+          storage_encrypted: true,
+          publicly_accessible: false,
+          skip_final_snapshot: false,
+          final_snapshot_identifier: expr(
+            '"${var.db_instance_identifier}-final"',
+          ),
+        },
+      },
+    ],
+    variables: {
+      master_username: {
+        type: 'string',
+        description: 'Master user name',
+        default: 'dbadmin',
+      },
+    },
+    outputs: {
+      endpoint: {
+        description: 'Database endpoint',
+        value: 'aws_db_instance.this.address',
+      },
+    },
+  },
+  'aws/vpc': {
+    resources: [
+      {
+        type: 'aws_vpc',
+        name: 'this',
+        body: {
+          cidr_block: v('vpc_cidr_block'),
+          enable_dns_support: true,
+          enable_dns_hostnames: true,
+          tags: { Name: v('vpc_name') },
+        },
+      },
+    ],
+    outputs: {
+      vpc_id: { description: 'VPC id', value: 'aws_vpc.this.id' },
+    },
+  },
+  'azure/virtualmachine': {
+    resources: [
+      {
+        type: 'azurerm_linux_virtual_machine',
+        name: 'this',
+        body: {
+          name: v('vm_name'),
+          resource_group_name: v('resource_group'),
+          location: v('location'),
+          size: v('vm_size'),
+          admin_username: v('admin_username'),
+          network_interface_ids: v('network_interface_ids'),
+          admin_ssh_key: block({
+            username: v('admin_username'),
+            public_key: v('ssh_public_key'),
+          }),
+          os_disk: block({
+            caching: 'ReadWrite',
+            storage_account_type: 'Standard_LRS',
+          }),
+          source_image_reference: block({
+            publisher: 'Canonical',
+            offer: '0001-com-ubuntu-server-jammy',
+            sku: '22_04-lts-gen2',
+            version: 'latest',
+          }),
+        },
+      },
+    ],
+    variables: {
+      admin_username: {
+        type: 'string',
+        description: 'Administrator user name',
+        default: 'azureuser',
+      },
+      ssh_public_key: {
+        type: 'string',
+        description: 'SSH public key for the administrator',
+      },
+      network_interface_ids: {
+        type: 'list(string)',
+        description: 'Network interfaces to attach to the VM',
+      },
+    },
+    outputs: {
+      vm_id: {
+        description: 'Virtual machine id',
+        value: 'azurerm_linux_virtual_machine.this.id',
+      },
+    },
+  },
+  'azure/loadbalancer': {
+    resources: [
+      {
+        type: 'azurerm_lb',
+        name: 'this',
+        body: {
+          name: v('load_balancer_name'),
+          resource_group_name: v('resource_group'),
+          location: v('location'),
+          sku: 'Standard',
+        },
+      },
+    ],
+    outputs: {
+      load_balancer_id: {
+        description: 'Load balancer id',
+        value: 'azurerm_lb.this.id',
+      },
+    },
+  },
+  'azure/database': {
+    resources: [
+      {
+        type: 'azurerm_mssql_server',
+        name: 'this',
+        body: {
+          name: v('server_name'),
+          resource_group_name: v('resource_group'),
+          location: v('location'),
+          version: '12.0',
+          azuread_administrator: block({
+            login_username: v('ad_admin_login'),
+            object_id: v('ad_admin_object_id'),
+            azuread_authentication_only: true,
+          }),
+        },
+      },
+      {
+        type: 'azurerm_mssql_database',
+        name: 'this',
+        body: {
+          name: v('database_name'),
+          server_id: expr('azurerm_mssql_server.this.id'),
+          sku_name: 'Basic',
+        },
+      },
+    ],
+    variables: {
+      ad_admin_login: {
+        type: 'string',
+        description: 'Microsoft Entra administrator login name',
+      },
+      ad_admin_object_id: {
+        type: 'string',
+        description: 'Microsoft Entra administrator object id',
+      },
+    },
+    outputs: {
+      server_fqdn: {
+        description: 'SQL server host name',
+        value: 'azurerm_mssql_server.this.fully_qualified_domain_name',
+      },
+      database_id: {
+        description: 'Database id',
+        value: 'azurerm_mssql_database.this.id',
+      },
+    },
+  },
+  'azure/resourcegroup': {
+    resources: [
+      {
+        type: 'azurerm_resource_group',
+        name: 'this',
+        body: { name: v('resource_group_name'), location: v('location') },
+      },
+    ],
+    outputs: {
+      resource_group_id: {
+        description: 'Resource group id',
+        value: 'azurerm_resource_group.this.id',
+      },
+    },
+  },
+  'gcp/virtualmachine': {
+    resources: [
+      {
+        type: 'google_compute_instance',
+        name: 'this',
+        body: {
+          name: v('instance_name'),
+          zone: v('zone'),
+          machine_type: v('machine_type'),
+          boot_disk: block({
+            initialize_params: block({
+              image: expr('"${var.image_project}/${var.image_family}"'),
+            }),
+          }),
+          network_interface: block({
+            network: 'default',
+            access_config: block({}),
+          }),
+        },
+      },
+    ],
+    variables: {
+      image_project: {
+        type: 'string',
+        description: 'Project that owns the image family',
+        default: 'debian-cloud',
+      },
+    },
+    outputs: {
+      instance_id: {
+        description: 'Instance id',
+        value: 'google_compute_instance.this.id',
+      },
+      external_ip: {
+        description: 'External IP address',
+        value:
+          'google_compute_instance.this.network_interface[0].access_config[0].nat_ip',
+      },
+    },
+  },
+  'gcp/loadbalancer': {
+    resources: [
+      {
+        type: 'google_compute_global_address',
+        name: 'this',
+        body: { name: v('ip_address_name') },
+      },
+      {
+        type: 'google_compute_backend_service',
+        name: 'this',
+        body: {
+          name: v('backend_service_name'),
+          protocol: 'HTTP',
+          load_balancing_scheme: 'EXTERNAL_MANAGED',
+        },
+      },
+    ],
+    outputs: {
+      ip_address: {
+        description: 'Reserved global IP address',
+        value: 'google_compute_global_address.this.address',
+      },
+      backend_service_id: {
+        description: 'Backend service id',
+        value: 'google_compute_backend_service.this.id',
+      },
+    },
+  },
+  'gcp/database': {
+    resources: [
+      {
+        type: 'google_sql_database_instance',
+        name: 'this',
+        body: {
+          name: v('instance_name'),
+          region: v('region'),
+          database_version: v('database_version'),
+          deletion_protection: true,
+          settings: block({
+            tier: v('tier'),
+            backup_configuration: block({ enabled: true }),
+          }),
+        },
+      },
+    ],
+    variables: {
+      tier: {
+        type: 'string',
+        description: 'Machine tier',
+        default: 'db-f1-micro',
+      },
+    },
+    outputs: {
+      connection_name: {
+        description: 'Instance connection name',
+        value: 'google_sql_database_instance.this.connection_name',
+      },
+    },
+  },
+  'gcp/project': {
+    resources: [
+      {
+        type: 'google_project',
+        name: 'this',
+        body: { name: v('project_name'), project_id: v('project_id') },
+      },
+    ],
+    outputs: {
+      project_number: {
+        description: 'Project number',
+        value: 'google_project.this.number',
+      },
+    },
+  },
+  'oracle/virtualmachine': {
+    resources: [
+      {
+        type: 'oci_core_instance',
+        name: 'this',
+        body: {
+          compartment_id: v('compartment_id'),
+          availability_domain: v('availability_domain'),
+          shape: v('shape'),
+          display_name: v('instance_name'),
+          source_details: block({
+            source_type: 'image',
+            source_id: v('image_id'),
+          }),
+          create_vnic_details: block({ subnet_id: v('subnet_id') }),
+        },
+      },
+    ],
+    variables: {
+      image_id: { type: 'string', description: 'OCID of the boot image' },
+      subnet_id: {
+        type: 'string',
+        description: 'OCID of the subnet for the VNIC',
+      },
+    },
+    outputs: {
+      instance_id: {
+        description: 'Instance OCID',
+        value: 'oci_core_instance.this.id',
+      },
+    },
+  },
+  'oracle/loadbalancer': {
+    resources: [
+      {
+        type: 'oci_load_balancer_load_balancer',
+        name: 'this',
+        body: {
+          compartment_id: v('compartment_id'),
+          display_name: v('display_name'),
+          shape: v('shape'),
+          subnet_ids: v('subnet_ids'),
+        },
+      },
+    ],
+    variables: {
+      display_name: {
+        type: 'string',
+        description: 'Load balancer display name',
+        default: 'load-balancer',
+      },
+    },
+    outputs: {
+      load_balancer_id: {
+        description: 'Load balancer OCID',
+        value: 'oci_load_balancer_load_balancer.this.id',
+      },
+    },
+  },
+  'oracle/database': {
+    resources: [
+      {
+        type: 'oci_database_db_system',
+        name: 'this',
+        body: {
+          compartment_id: v('compartment_id'),
+          availability_domain: v('availability_domain'),
+          shape: v('shape'),
+          subnet_id: v('subnet_id'),
+          ssh_public_keys: [v('ssh_public_key')],
+          hostname: expr('lower(var.db_name)'),
+          database_edition: 'STANDARD_EDITION',
+          db_home: block({
+            database: block({
+              db_name: v('db_name'),
+              admin_password: v('admin_password'),
+            }),
+          }),
+        },
+      },
+    ],
+    variables: {
+      availability_domain: {
+        type: 'string',
+        description: 'Availability domain',
+      },
+      subnet_id: { type: 'string', description: 'OCID of the database subnet' },
+      ssh_public_key: {
+        type: 'string',
+        description: 'SSH public key for the DB nodes',
+      },
+      admin_password: {
+        type: 'string',
+        description: 'Database administrator password',
+        sensitive: true,
+      },
+    },
+    outputs: {
+      db_system_id: {
+        description: 'DB system OCID',
+        value: 'oci_database_db_system.this.id',
+      },
+    },
+  },
+  'oracle/compartment': {
+    resources: [
+      {
+        type: 'oci_identity_compartment',
+        name: 'this',
+        body: {
+          compartment_id: v('tenancy_ocid'),
+          name: v('compartment_name'),
+          description: v('description'),
+        },
+      },
+    ],
+    variables: {
+      tenancy_ocid: { type: 'string', description: 'OCID of the tenancy' },
+    },
+    outputs: {
+      compartment_id: {
+        description: 'Compartment OCID',
+        value: 'oci_identity_compartment.this.id',
+      },
+    },
+  },
+};
@@ -0,0 +1,100 @@
+import { CloudTranslator } from './cloud.translator';
+import { ServiceCatalog } from '../catalog/service.catalog';
+
+describe('CloudTranslator', () => {
+  const catalog = new ServiceCatalog();
+  const translator = new CloudTranslator(catalog);
+  const translate = (
+    id: string,
+    cloud: string,
+    formData: Record<string, unknown>,
+  ) => {
+    const source = catalog.getById(id)!;
+    return translator.translate(
+      source,
+      translator.equivalentOn(source, cloud)!,
+      formData,
+    );
+  };
+
+  it('finds the same kind of service on the other clouds', () => {
+    const { equivalents } = translator.equivalents(
+      catalog.getById('virtual-machine-aws')!,
+    );
+    expect(equivalents.map((service) => service.id)).toEqual([
+      'virtual-machine-azure',
+      'virtual-machine-gcp',
+      'virtual-machine-oracle',
+    ]);
+    expect(
+      translator.equivalentOn(catalog.getById('vpc-aws')!, 'azure'),
+    ).toBeNull();
+  });
+
+  it('maps sizes, regions and names and flags what it cannot map', () => {
+    const translation = translate('virtual-machine-aws', 'azure', {
+      instanceName: 'Web_01',
+      amiId: 'ami-0c55b159cbfafe1f0',
+      instanceType: 't3.medium',
+      keyName: 'ops',
+      region: 'eu-west-1',
+    });
+
+    expect(translation.formData).toEqual({
+      vmName: 'web-01',
+      location: 'northeurope',
+      vmSize: 'Standard_B2s',
+    });
+    expect(
+      translation.fields.map((field) => [field.fieldId, field.status]),
+    ).toEqual([
+      ['vmName', 'approximate'],
+      ['resourceGroup', 'manual'],
+      ['location', 'mapped'],
+      ['vmSize', 'mapped'],
+    ]);
+    expect(translation.dropped.map((field) => field.fieldId)).toEqual([
+      'amiId',
+      'keyName',
+    ]);
+    expect(translation.complete).toBe(false);
+  });
+
+  it('picks the closest size and turns regions into zones', () => {
+    const translation = translate('virtual-machine-gcp', 'oracle', {
+      instanceName: 'web-01',
+      zone: 'us-central1-a',
+      machineType: 'e2-medium',
+    });
+    expect(translation.fields.find((f) => f.fieldId === 'shape')).toMatchObject(
+      { value: 'VM.Standard2.1', status: 'approximate' },
+    );
+    const domain = translation.fields.find(
+      (f) => f.fieldId === 'availabilityDomain',
+    );
+    expect(domain?.status).toBe('manual');
+    expect(domain?.note).toContain('US-ASHBURN-AD-1');
+
+    expect(
+      translate('virtual-machine-azure', 'gcp', {
+        location: 'westeurope',
+        vmSize: 'Standard_B2s',
+      }).formData,
+    ).toEqual({ zone: 'europe-west3-b', machineType: 'e2-medium' });
+  });
+
+  it('translates database engines and warns when the target runs another', () => {
+    const formData = {
+      dbInstanceIdentifier: 'orders',
+      dbEngine: 'postgres',
+      instanceClass: 'db.t3.small',
+    };
+    expect(translate('database-aws', 'gcp', formData).formData).toEqual({
+      instanceName: 'orders',
+      databaseVersion: 'POSTGRES_16',
+    });
+    expect(translate('database-aws', 'azure', formData).warnings).toEqual([
+      'Azure SQL Database only runs SQL Server; the AWS database uses PostgreSQL, so its data needs converting.',
+    ]);
+  });
+});
@@ -0,0 +1,309 @@
+import { ServiceCatalog } from '../catalog/service.catalog';
+import { isValidFieldValue } from '../services/field-extractor';
+import { isEmpty } from '../services/field-validator';
+import { ServiceConfig, ServiceField } from '../services/types';
+import {
+  BUILT_IN_ENGINES,
+  ENGINE_EQUIVALENTS,
+  ENGINE_NAMES,
+  FIELD_ROLES,
+  FieldRole,
+  MACHINE_SIZES,
+  REGION_EQUIVALENTS,
+} from './equivalents';
+import {
+  CrossCloudTranslation,
+  FieldMapping,
+  ServiceEquivalents,
+  ServiceRef,
+} from './types';
+
+interface SourceValue {
+  fieldId: string;
+  value: unknown;
+}
+
+export const toServiceRef = (service: ServiceConfig): ServiceRef => ({
+  id: service.id,
+  name: service.name,
+  nativeName: service.nativeName,
+  cloud: service.cloud,
+});
+
+const upper = (cloud: string) => cloud.toUpperCase();
+
+const describeSize = ([vcpus, memory]: [number, number]) =>
+  `${vcpus} vCPU, ${memory} GB`;
+
+// Zones (us-central1-b) and availability domains (Uocm:US-ASHBURN-AD-1)
+// belong to a region; equivalents are looked up by region
+function regionOf(fieldId: string, value: string): string {
+  if (fieldId === 'zone') return value.replace(/-[a-z]$/, '');
+  if (fieldId === 'availabilityDomain') {
+    const region = value.match(/([A-Za-z]+-[A-Za-z]+)-AD-\d+$/)?.[1];
+    return region ? `${region.toLowerCase()}-1` : value;
+  }
+  return value;
+}
+
+function engineOf(value: unknown): string | undefined {
+  const engine = String(value).toLowerCase();
+  return Object.keys(ENGINE_EQUIVALENTS).find((key) => engine.startsWith(key));
+}
+
+/**
+ * Maps catalog services and their form data between clouds: the Azure
+ * equivalent of an AWS virtual machine, and an instanceType of t3.medium
+ * becoming a vmSize of Standard_B2s. Values that have no safe equivalent are
+ * left for the user and flagged as manual.
+ */
+export class CloudTranslator {
+  constructor(private readonly catalog: ServiceCatalog) {}
+
+  // The same kind of service, matched on its template, on the other clouds
+  equivalents(service: ServiceConfig): ServiceEquivalents {
+    return {
+      service: toServiceRef(service),
+      equivalents: this.others(service).map(toServiceRef),
+    };
+  }
+
+  equivalentOn(service: ServiceConfig, cloud: string): ServiceConfig | null {
+    return (
+      this.others(service).find(
+        (other) => other.cloud === cloud.toLowerCase(),
+      ) || null
+    );
+  }
+
+  translate(
+    source: ServiceConfig,
+    target: ServiceConfig,
+    formData: Record<string, unknown> = {},
+  ): CrossCloudTranslation {
+    const values = new Map<FieldRole, SourceValue>();
+    for (const field of source.requiredFields) {
+      const role = FIELD_ROLES[field.fieldId];
+      if (role && !isEmpty(formData[field.fieldId])) {
+        values.set(role, {
+          fieldId: field.fieldId,
+          value: formData[field.fieldId],
+        });
+      }
+    }
+    // AWS forms have no region field, the region comes with the form data
+    if (!values.has('region') && !isEmpty(formData.region)) {
+      values.set('region', { fieldId: 'region', value: formData.region });
+    }
+    const sourceEngine = values.has('engine')
+      ? engineOf(values.get('engine')!.value)
+      : source.template === 'database'
+        ? BUILT_IN_ENGINES[source.cloud]
+        : undefined;
+
+    const fields = target.requiredFields.map((field) =>
+      this.mapField(field, values, source, target, sourceEngine),
+    );
+
+    const used = new Set(
+      fields.map((field) => field.sourceFieldId).filter(Boolean),
+    );
+    const dropped = source.requiredFields
+      .filter(
+        (field) =>
+          !isEmpty(formData[field.fieldId]) && !used.has(field.fieldId),
+      )
+      .map((field) => ({
+        fieldId: field.fieldId,
+        value: formData[field.fieldId],
+        note:
+          FIELD_ROLES[field.fieldId] === 'image'
+            ? `Images are specific to ${upper(source.cloud)}; choose an equivalent ${upper(target.cloud)} image.`
+            : `${target.name} on ${upper(target.cloud)} has no equivalent of ${field.fieldName}.`,
+      }));
+
+    const warnings: string[] = [];
+    const targetEngine =
+      target.template === 'database' ? BUILT_IN_ENGINES[target.cloud] : null;
+    if (targetEngine && sourceEngine && targetEngine !== sourceEngine) {
+      warnings.push(
+        `${target.nativeName || target.name} only runs ${ENGINE_NAMES[targetEngine]}; the ${upper(source.cloud)} database uses ${ENGINE_NAMES[sourceEngine]}, so its data needs converting.`,
+      );
+    }
+
+    return {
+      source: toServiceRef(source),
+      target: toServiceRef(target),
+      formData: Object.fromEntries(
+        fields.flatMap((field) =>
+          field.value === undefined ? [] : [[field.fieldId, field.value]],
+        ),
+      ),
+      fields,
+      dropped,
+      complete: fields.every((field) => field.status === 'mapped'),
+      warnings,
+    };
+  }
+
+  private others(service: ServiceConfig): ServiceConfig[] {
+    return this.catalog
+      .getAvailable()
+      .filter(
+        (other) =>
+          other.template === service.template && other.cloud !== service.cloud,
+      );
+  }
+
+  private mapField(
+    field: ServiceField,
+    values: Map<FieldRole, SourceValue>,
+    source: ServiceConfig,
+    target: ServiceConfig,
+    sourceEngine?: string,
+  ): FieldMapping {
+    const role = FIELD_ROLES[field.fieldId];
+    const base = { fieldId: field.fieldId, fieldName: field.fieldName };
+    const manual = (note: string, from?: SourceValue): FieldMapping => ({
+      ...base,
+      ...(from && {
+        sourceFieldId: from.fieldId,
+        sourceValue: from.value,
+      }),
+      status: 'manual',
+      note,
+    });
+
+    if (!role || role === 'image') {
+      return manual(
+        role === 'image'
+          ? `Images are specific to each cloud; choose a ${upper(target.cloud)} image.`
+          : `Specific to ${upper(target.cloud)}; enter it by hand.`,
+      );
+    }
+    if (role === 'engine') {
+      const value =
+        sourceEngine && ENGINE_EQUIVALENTS[sourceEngine]?.[target.cloud];
+      return value
+        ? {
+            ...base,
+            ...(values.has('engine') && {
+              sourceFieldId: values.get('engine')!.fieldId,
+              sourceValue: values.get('engine')!.value,
+            }),
+            value,
+            status: 'mapped',
+          }
+        : manual(
+            sourceEngine
+              ? `${target.name} on ${upper(target.cloud)} does not offer ${ENGINE_NAMES[sourceEngine]}.`
+              : `No database engine set on ${upper(source.cloud)}.`,
+          );
+    }
+
+    const from = values.get(role);
+    if (!from) {
+      return manual(`Not set on ${upper(source.cloud)}; enter it by hand.`);
+    }
+    const mapped = (
+      value: string,
+      status: 'mapped' | 'approximate' = 'mapped',
+      note?: string,
+    ): FieldMapping => ({
+      ...base,
+      sourceFieldId: from.fieldId,
+      sourceValue: from.value,
+      value,
+      status,
+      ...(note && { note }),
+    });
+    const text = String(from.value).trim();
+
+    switch (role) {
+      case 'name':
+      case 'databaseName': {
+        // Naming rules differ: GCP wants lower case, Oracle only letters and digits
+        const candidates = [
+          text,
+          text
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, ''),
+          text.replace(/[^A-Za-z0-9]/g, ''),
+        ];
+        const name = candidates.find((candidate) =>
+          isValidFieldValue(field, candidate),
+        );
+        if (!name) {
+          return manual(
+            `"${text}" does not meet the ${upper(target.cloud)} naming rules.`,
+            from,
+          );
+        }
+        return name === text
+          ? mapped(name)
+          : mapped(
+              name,
+              'approximate',
+              `Renamed to meet the ${upper(target.cloud)} naming rules.`,
+            );
+      }
+      case 'size': {
+        const size = MACHINE_SIZES[source.cloud]?.[text];
+        if (!size) {
+          return manual(`No size data for ${text}; choose one by hand.`, from);
+        }
+        // Closest on a log scale, so 1 vs 2 vCPU counts as much as 4 vs 8 GB
+        const distance = (other: [number, number]) =>
+          Math.abs(Math.log2(other[0] / size[0])) +
+          Math.abs(Math.log2(other[1] / size[1]));
+        const [best] = Object.entries(MACHINE_SIZES[target.cloud] || {})
+          .filter(([sku]) => isValidFieldValue(field, sku))
+          .sort((a, b) => distance(a[1]) - distance(b[1]));
+        if (!best) {
+          return manual(
+            `No ${upper(target.cloud)} size is known to match ${text}.`,
+            from,
+          );
+        }
+        return distance(best[1]) === 0
+          ? mapped(best[0])
+          : mapped(
+              best[0],
+              'approximate',
+              `Closest match: ${text} has ${describeSize(size)}, ${best[0]} has ${describeSize(best[1])}.`,
+            );
+      }
+      case 'region': {
+        const region = regionOf(from.fieldId, text);
+        const targetRegion = REGION_EQUIVALENTS.find(
+          (row) => row[source.cloud] === region,
+        )?.[target.cloud];
+        if (!targetRegion) {
+          return manual(
+            `No ${upper(target.cloud)} region is known to match ${region}.`,
+            from,
+          );
+        }
+        if (field.fieldId === 'availabilityDomain') {
+          // The prefix is specific to each tenancy
+          return manual(
+            `Use an availability domain in ${targetRegion}, e.g. "<prefix>:${targetRegion.replace(/-\d+$/, '').toUpperCase()}-AD-1".`,
+            from,
+          );
+        }
+        const value =
+          field.fieldId === 'zone' ? `${targetRegion}-b` : targetRegion;
+        if (!isValidFieldValue(field, value)) {
+          return manual(
+            `${value} is not offered for ${field.fieldName}.`,
+            from,
+          );
+        }
+        return field.fieldId === 'zone'
+          ? mapped(value, 'mapped', `A zone in ${targetRegion}.`)
+          : mapped(value);
+      }
+    }
+  }
+}
@@ -0,0 +1,169 @@
+// What a catalog field holds, as far as moving it to another cloud goes.
+// Fields not listed here are specific to their cloud (resource groups,
+// compartments, key pairs, subnet and security group ids).
+export type FieldRole =
+  | 'name'
+  | 'databaseName'
+  | 'size'
+  | 'region'
+  | 'engine'
+  | 'image';
+
+export const FIELD_ROLES: Record<string, FieldRole> = {
+  instanceName: 'name',
+  vmName: 'name',
+  loadBalancerName: 'name',
+  backendServiceName: 'name',
+  dbInstanceIdentifier: 'name',
+  serverName: 'name',
+  databaseName: 'databaseName',
+  dbName: 'databaseName',
+  instanceType: 'size',
+  vmSize: 'size',
+  machineType: 'size',
+  instanceClass: 'size',
+  shape: 'size',
+  region: 'region',
+  location: 'region',
+  zone: 'region',
+  availabilityDomain: 'region',
+  dbEngine: 'engine',
+  databaseVersion: 'engine',
+  amiId: 'image',
+  imageFamily: 'image',
+};
+
+// vCPUs and memory (GB) of the fixed machine sizes each cloud offers. Oracle
+// flex shapes are sized at launch, so they have no entry.
+export const MACHINE_SIZES: Record<string, Record<string, [number, number]>> = {
+  aws: {
+    't3.nano': [2, 0.5],
+    't3.micro': [2, 1],
+    't3.small': [2, 2],
+    't3.medium': [2, 4],
+    't3.large': [2, 8],
+    't3.xlarge': [4, 16],
+    'm5.large': [2, 8],
+    'm5.xlarge': [4, 16],
+    'c5.large': [2, 4],
+    'r5.large': [2, 16],
+    'db.t3.micro': [2, 1],
+    'db.t3.small': [2, 2],
+    'db.t3.medium': [2, 4],
+    'db.t3.large': [2, 8],
+    'db.t3.xlarge': [4, 16],
+  },
+  azure: {
+    Standard_B1s: [1, 1],
+    Standard_B1ms: [1, 2],
+    Standard_B2s: [2, 4],
+    Standard_B2ms: [2, 8],
+    Standard_D2s_v3: [2, 8],
+    Standard_D4s_v3: [4, 16],
+    Standard_D2s_v5: [2, 8],
+    Standard_E2s_v3: [2, 16],
+  },
+  gcp: {
+    'e2-micro': [2, 1],
+    'e2-small': [2, 2],
+    'e2-medium': [2, 4],
+    'e2-standard-2': [2, 8],
+    'e2-standard-4': [4, 16],
+    'n1-standard-1': [1, 3.75],
+    'n1-standard-2': [2, 7.5],
+    'n2-standard-2': [2, 8],
+  },
+  oracle: {
+    'VM.Standard.E2.1.Micro': [2, 1],
+    'VM.Standard2.1': [2, 15],
+    'VM.Standard2.2': [4, 30],
+  },
+};
+
+// Regions in the same metro area or close to it, one row per area. The
+// first row naming a region wins when a region appears in several rows.
+export const REGION_EQUIVALENTS: Array<Record<string, string>> = [
+  {
+    aws: 'us-east-1',
+    azure: 'eastus',
+    gcp: 'us-east1',
+    oracle: 'us-ashburn-1',
+  },
+  {
+    aws: 'us-east-2',
+    azure: 'eastus2',
+    gcp: 'us-east1',
+    oracle: 'us-ashburn-1',
+  },
+  {
+    aws: 'us-east-2',
+    azure: 'centralus',
+    gcp: 'us-central1',
+    oracle: 'us-ashburn-1',
+  },
+  {
+    aws: 'us-west-2',
+    azure: 'westus2',
+    gcp: 'us-west1',
+    oracle: 'us-phoenix-1',
+  },
+  {
+    aws: 'us-west-1',
+    azure: 'westus',
+    gcp: 'us-west2',
+    oracle: 'us-sanjose-1',
+  },
+  {
+    aws: 'eu-west-1',
+    azure: 'northeurope',
+    gcp: 'europe-west1',
+    oracle: 'uk-london-1',
+  },
+  {
+    aws: 'eu-central-1',
+    azure: 'westeurope',
+    gcp: 'europe-west3',
+    oracle: 'eu-frankfurt-1',
+  },
+  {
+    aws: 'eu-west-2',
+    azure: 'uksouth',
+    gcp: 'europe-west2',
+    oracle: 'uk-london-1',
+  },
+  {
+    aws: 'ap-south-1',
+    azure: 'centralindia',
+    gcp: 'asia-south1',
+    oracle: 'ap-mumbai-1',
+  },
+  {
+    aws: 'ap-southeast-1',
+    azure: 'southeastasia',
+    gcp: 'asia-southeast1',
+    oracle: 'ap-singapore-1',
+  },
+];
+
+// Database engines by the values each cloud's catalog accepts
+export const ENGINE_EQUIVALENTS: Record<string, Record<string, string>> = {
+  mysql: { aws: 'mysql', gcp: 'MYSQL_8_0' },
+  postgres: { aws: 'postgres', gcp: 'POSTGRES_16' },
+  mariadb: { aws: 'mariadb' },
+  sqlserver: { aws: 'sqlserver-ex', gcp: 'SQLSERVER_2019_STANDARD' },
+  oracle: { aws: 'oracle-se2' },
+};
+
+export const ENGINE_NAMES: Record<string, string> = {
+  mysql: 'MySQL',
+  postgres: 'PostgreSQL',
+  mariadb: 'MariaDB',
+  sqlserver: 'SQL Server',
+  oracle: 'Oracle Database',
+};
+
+// Database services that only run one engine and so have no engine field
+export const BUILT_IN_ENGINES: Record<string, string> = {
+  azure: 'sqlserver',
+  oracle: 'oracle',
+};
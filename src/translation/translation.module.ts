@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { CloudTranslator } from './cloud.translator';
+import { CatalogModule } from '../catalog/catalog.module';
+import { ServiceCatalog } from '../catalog/service.catalog';
+
+@Module({
+  imports: [CatalogModule],
+  providers: [
+    {
+      provide: CloudTranslator,
+      useFactory: (catalog: ServiceCatalog) => new CloudTranslator(catalog),
+      inject: [ServiceCatalog],
+    },
+  ],
+  exports: [CloudTranslator],
+})
+export class TranslationModule {}
@@ -0,0 +1,42 @@
+export interface ServiceRef {
+  id: string;
+  name: string;
+  nativeName?: string;
+  cloud: string;
+}
+
+// The same kind of service (same template) on each of the other clouds
+export interface ServiceEquivalents {
+  service: ServiceRef;
+  equivalents: ServiceRef[];
+}
+
+// mapped: carried over as is or through an equivalence table
+// approximate: the closest equivalent, worth a second look
+// manual: could not be worked out and has to be entered by hand
+export type FieldMappingStatus = 'mapped' | 'approximate' | 'manual';
+
+export interface FieldMapping {
+  fieldId: string;
+  fieldName: string;
+  // The source field the value came from, if any
+  sourceFieldId?: string;
+  sourceValue?: unknown;
+  value?: string;
+  status: FieldMappingStatus;
+  note?: string;
+}
+
+export interface CrossCloudTranslation {
+  source: ServiceRef;
+  target: ServiceRef;
+  // Values for the target service's requiredFields, ready to submit
+  formData: Record<string, string>;
+  // One entry per target field, in catalog order
+  fields: FieldMapping[];
+  // Source fields the target service has no place for
+  dropped: Array<{ fieldId: string; value: unknown; note: string }>;
+  // Whether every target field could be filled in without guessing
+  complete: boolean;
+  warnings: string[];
+}
@@ -0,0 +1,42 @@
+/**
+ * Per-user and global limits on what the agent will do. 0 turns a limit off.
+ * Daily limits reset at midnight UTC.
+ */
+export interface UsageLimits {
+  requestsPerMinute: number;
+  globalRequestsPerMinute: number;
+  // Estimated LLM tokens, prompts and answers together
+  dailyLlmTokens: number;
+  globalDailyLlmTokens: number;
+  dailyDeployments: number;
+  globalDailyDeployments: number;
+}
+
+export type UsageLimitReason = 'rate_limited' | 'quota_exceeded';
+
+export type UsageCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: UsageLimitReason;
+      // Whether the caller's own limit or the service-wide one was hit
+      scope: 'user' | 'global';
+      limit: number;
+      retryAfterSeconds: number;
+      message: string;
+    };
+
+export interface UserUsage {
+  userId: string;
+  requestsLastMinute: number;
+  llmTokensToday: number;
+  deploymentsToday: number;
+}
+
+export interface UsageReport {
+  // The UTC day the daily counts are for
+  day: string;
+  limits: UsageLimits;
+  global: Omit<UserUsage, 'userId'>;
+  users: UserUsage[];
+}
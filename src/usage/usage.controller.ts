@@ -0,0 +1,26 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { CurrentUser, RequireRole } from '../auth/auth.decorators';
+import { assertSelfOrAdmin } from '../auth/auth.guard';
+import { Principal } from '../auth/types';
+import { UsageTracker } from './usage.tracker';
+
+@Controller('usage')
+export class UsageController {
+  constructor(private readonly usage: UsageTracker) {}
+
+  // Everyone's usage today, with the limits in force
+  @Get()
+  @RequireRole('admin')
+  report() {
+    return this.usage.report();
+  }
+
+  @Get(':userId')
+  getUserUsage(
+    @CurrentUser() user: Principal,
+    @Param('userId') userId: string,
+  ) {
+    assertSelfOrAdmin(user, userId);
+    return { ...this.usage.usage(userId), limits: this.usage.limits };
+  }
+}
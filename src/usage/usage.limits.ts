@@ -0,0 +1,38 @@
+import { UsageLimits } from './types';
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  requestsPerMinute: 20,
+  globalRequestsPerMinute: 300,
+  dailyLlmTokens: 200_000,
+  globalDailyLlmTokens: 5_000_000,
+  dailyDeployments: 10,
+  globalDailyDeployments: 100,
+};
+
+const ENV_LIMITS: Record<keyof UsageLimits, string> = {
+  requestsPerMinute: 'RATE_LIMIT_REQUESTS_PER_MINUTE',
+  globalRequestsPerMinute: 'RATE_LIMIT_GLOBAL_REQUESTS_PER_MINUTE',
+  dailyLlmTokens: 'QUOTA_DAILY_LLM_TOKENS',
+  globalDailyLlmTokens: 'QUOTA_GLOBAL_DAILY_LLM_TOKENS',
+  dailyDeployments: 'QUOTA_DAILY_DEPLOYMENTS',
+  globalDailyDeployments: 'QUOTA_GLOBAL_DAILY_DEPLOYMENTS',
+};
+
+// The limits from the environment, falling back to the defaults; 0 turns one off
+export function loadUsageLimits(
+  env: NodeJS.ProcessEnv = process.env,
+): UsageLimits {
+  const limits = { ...DEFAULT_USAGE_LIMITS };
+  for (const [key, name] of Object.entries(ENV_LIMITS) as Array<
+    [keyof UsageLimits, string]
+  >) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(`${name} must be a whole number, 0 for no limit`);
+    }
+    limits[key] = limit;
+  }
+  return limits;
+}
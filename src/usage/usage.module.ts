@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { UsageTracker } from './usage.tracker';
+import { loadUsageLimits } from './usage.limits';
+import { UsageController } from './usage.controller';
+
+@Module({
+  controllers: [UsageController],
+  providers: [
+    {
+      provide: UsageTracker,
+      useFactory: () => new UsageTracker(loadUsageLimits()),
+    },
+  ],
+  exports: [UsageTracker],
+})
+export class UsageModule {}
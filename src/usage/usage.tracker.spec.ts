@@ -0,0 +1,68 @@
+import { HumanMessage } from '@langchain/core/messages';
+import { UsageTracker } from './usage.tracker';
+import { DEFAULT_USAGE_LIMITS, loadUsageLimits } from './usage.limits';
+import { MeteredChatModelProvider } from '../agents/llm/metered.provider';
+import { ScriptedChatModelProvider } from '../agents/llm/scripted.provider';
+
+describe('UsageTracker', () => {
+  let now: number;
+  const tracker = (limits = {}) =>
+    new UsageTracker({ ...DEFAULT_USAGE_LIMITS, ...limits }, () => now);
+
+  beforeEach(() => {
+    now = Date.parse('2026-03-01T23:59:00Z');
+  });
+
+  it('limits requests per user and overall within a sliding minute', () => {
+    const usage = tracker({ requestsPerMinute: 2, globalRequestsPerMinute: 3 });
+
+    expect(usage.checkRequest('user-1').ok).toBe(true);
+    now += 30_000;
+    expect(usage.checkRequest('user-1').ok).toBe(true);
+    expect(usage.checkRequest('user-1')).toMatchObject({
+      ok: false,
+      reason: 'rate_limited',
+      scope: 'user',
+      retryAfterSeconds: 30,
+    });
+    expect(usage.checkRequest('user-2').ok).toBe(true);
+    expect(usage.checkRequest('user-3')).toMatchObject({ scope: 'global' });
+
+    now += 30_001;
+    expect(usage.checkRequest('user-1').ok).toBe(true);
+  });
+
+  it('charges LLM tokens to the caller and resets them at midnight UTC', async () => {
+    const usage = tracker({ dailyLlmTokens: 10 });
+    const llm = new MeteredChatModelProvider(
+      new ScriptedChatModelProvider(),
+      usage,
+    );
+
+    await usage.runAs('user-1', () =>
+      llm.invoke([new HumanMessage('tell me about load balancers')]),
+    );
+
+    expect(usage.usage('user-1').llmTokensToday).toBeGreaterThan(10);
+    expect(usage.usage('user-2').llmTokensToday).toBe(0);
+    expect(usage.checkLlmTokens('user-1')).toMatchObject({
+      ok: false,
+      reason: 'quota_exceeded',
+      retryAfterSeconds: 60,
+    });
+    expect(usage.checkLlmTokens('user-2').ok).toBe(true);
+
+    now += 60_000;
+    expect(usage.checkLlmTokens('user-1').ok).toBe(true);
+    expect(usage.report().global.llmTokensToday).toBe(0);
+  });
+
+  it('reads limits from the environment', () => {
+    expect(
+      loadUsageLimits({ QUOTA_DAILY_DEPLOYMENTS: '0' }).dailyDeployments,
+    ).toBe(0);
+    expect(() =>
+      loadUsageLimits({ RATE_LIMIT_REQUESTS_PER_MINUTE: 'lots' }),
+    ).toThrow('RATE_LIMIT_REQUESTS_PER_MINUTE must be a whole number');
+  });
+});
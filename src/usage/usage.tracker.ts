@@ -0,0 +1,203 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { UsageCheck, UsageLimits, UsageReport, UserUsage } from './types';
+
+const MINUTE_MS = 60_000;
+
+// Counts for one UTC day
+interface DailyUsage {
+  day: string;
+  llmTokens: number;
+  deployments: number;
+}
+
+// Rough LLM token count: about four characters per token for English and JSON
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Tracks requests, LLM tokens and deployments per user and for the whole
+ * service, and says when a limit has been reached. Counts live in memory, so
+ * a restart starts everyone's day afresh.
+ */
+export class UsageTracker {
+  // Request times within the last minute, per user
+  private readonly requests = new Map<string, number[]>();
+  private globalRequests: number[] = [];
+  private readonly daily = new Map<string, DailyUsage>();
+  private globalDaily: DailyUsage = { day: '', llmTokens: 0, deployments: 0 };
+  // The user whose turn is running, so LLM calls deep in the agent are charged to them
+  private readonly caller = new AsyncLocalStorage<string>();
+
+  constructor(
+    readonly limits: UsageLimits,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  // Counts a request, unless it's over the per-minute limit
+  checkRequest(userId: string): UsageCheck {
+    const now = this.now();
+    const recent = (this.requests.get(userId) || []).filter(
+      (at) => at > now - MINUTE_MS,
+    );
+    this.globalRequests = this.globalRequests.filter(
+      (at) => at > now - MINUTE_MS,
+    );
+
+    const blocked =
+      this.overRate(recent, this.limits.requestsPerMinute, 'user', now) ||
+      this.overRate(
+        this.globalRequests,
+        this.limits.globalRequestsPerMinute,
+        'global',
+        now,
+      );
+    if (blocked) {
+      this.requests.set(userId, recent);
+      return blocked;
+    }
+
+    this.requests.set(userId, [...recent, now]);
+    this.globalRequests.push(now);
+    return { ok: true };
+  }
+
+  checkLlmTokens(userId: string): UsageCheck {
+    return this.overQuota(
+      userId,
+      'llmTokens',
+      this.limits.dailyLlmTokens,
+      this.limits.globalDailyLlmTokens,
+      'LLM token budget',
+    );
+  }
+
+  checkDeployment(userId: string): UsageCheck {
+    return this.overQuota(
+      userId,
+      'deployments',
+      this.limits.dailyDeployments,
+      this.limits.globalDailyDeployments,
+      'deployment quota',
+    );
+  }
+
+  // Runs fn with LLM calls charged to userId
+  runAs<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    return this.caller.run(userId, fn);
+  }
+
+  // Charges the user whose turn is running; calls outside a turn only count globally
+  recordLlmTokens(tokens: number) {
+    const userId = this.caller.getStore();
+    this.today(this.globalDaily).llmTokens += tokens;
+    if (userId) this.dailyFor(userId).llmTokens += tokens;
+  }
+
+  recordDeployment(userId: string) {
+    this.today(this.globalDaily).deployments++;
+    this.dailyFor(userId).deployments++;
+  }
+
+  usage(userId: string): UserUsage {
+    const now = this.now();
+    const daily = this.dailyFor(userId);
+    return {
+      userId,
+      requestsLastMinute: (this.requests.get(userId) || []).filter(
+        (at) => at > now - MINUTE_MS,
+      ).length,
+      llmTokensToday: daily.llmTokens,
+      deploymentsToday: daily.deployments,
+    };
+  }
+
+  report(): UsageReport {
+    const now = this.now();
+    const global = this.today(this.globalDaily);
+    const userIds = new Set([...this.requests.keys(), ...this.daily.keys()]);
+    return {
+      day: global.day,
+      limits: this.limits,
+      global: {
+        requestsLastMinute: this.globalRequests.filter(
+          (at) => at > now - MINUTE_MS,
+        ).length,
+        llmTokensToday: global.llmTokens,
+        deploymentsToday: global.deployments,
+      },
+      users: [...userIds].sort().map((userId) => this.usage(userId)),
+    };
+  }
+
+  private overRate(
+    times: number[],
+    limit: number,
+    scope: 'user' | 'global',
+    now: number,
+  ): UsageCheck | null {
+    if (!limit || times.length < limit) return null;
+    const retryAfterSeconds = Math.max(
+      1,
+      Math.ceil((times[0] + MINUTE_MS - now) / 1000),
+    );
+    return {
+      ok: false,
+      reason: 'rate_limited',
+      scope,
+      limit,
+      retryAfterSeconds,
+      message:
+        scope === 'user'
+          ? `You've sent ${limit} requests in the last minute. Please wait ${retryAfterSeconds}s and try again.`
+          : `The assistant is handling too many requests right now. Please try again in ${retryAfterSeconds}s.`,
+    };
+  }
+
+  private overQuota(
+    userId: string,
+    counter: 'llmTokens' | 'deployments',
+    userLimit: number,
+    globalLimit: number,
+    label: string,
+  ): UsageCheck {
+    const scope =
+      userLimit && this.dailyFor(userId)[counter] >= userLimit
+        ? 'user'
+        : globalLimit && this.today(this.globalDaily)[counter] >= globalLimit
+          ? 'global'
+          : null;
+    if (!scope) return { ok: true };
+
+    const midnight = new Date(this.now());
+    midnight.setUTCHours(24, 0, 0, 0);
+    return {
+      ok: false,
+      reason: 'quota_exceeded',
+      scope,
+      limit: scope === 'user' ? userLimit : globalLimit,
+      retryAfterSeconds: Math.ceil((midnight.getTime() - this.now()) / 1000),
+      message:
+        scope === 'user'
+          ? `You've used today's ${label}. It resets at midnight UTC.`
+          : `Today's ${label} for everyone has been used up. It resets at midnight UTC.`,
+    };
+  }
+
+  private dailyFor(userId: string): DailyUsage {
+    const daily = this.daily.get(userId) || {
+      day: '',
+      llmTokens: 0,
+      deployments: 0,
+    };
+    this.daily.set(userId, daily);
+    return this.today(daily);
+  }
+
+  // Resets the counts when the UTC day has moved on
+  private today(daily: DailyUsage): DailyUsage {
+    const day = new Date(this.now()).toISOString().slice(0, 10);
+    if (daily.day !== day) {
+      Object.assign(daily, { day, llmTokens: 0, deployments: 0 });
+    }
+    return daily;
+  }
+}